@@ -1,11 +1,25 @@
 import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
-import { MushroomInfo, GroundingSource, HistoryEntry, Recipe, ComparisonInfo, ImageQuality } from './types.ts';
-import { identifyMushroomFromImage, identifyMushroomFromText, compareMushrooms } from './services/geminiService.ts';
+import { MushroomInfo, GroundingSource, HistoryEntry, Recipe, ComparisonInfo, ImageQuality, DifficultyLevel, ValidationIssue, IdentificationCandidate, PhotoInput, PhotoView, SourcePhoto, AnsweringModels, IdentificationProgress, ChatMessage, KeyAnswer, KeyQuestion, SafetyAssessment, VerificationResult, SafetyChecklist, RiskProfile } from './types.ts';
+import { getCandidatesFromImage, identifyMushroomFromImage, identifyMushroomFromText, compareMushrooms, getActiveProviderId, refineWithKey, needsIdentificationKey, MAX_KEY_QUESTIONS } from './services/identificationService.ts';
 import { Icon } from './components/Icons.tsx';
 import { ManualModal } from './components/ManualModal.tsx';
+import { SettingsModal } from './components/SettingsModal.tsx';
+import { BackupModal } from './components/BackupModal.tsx';
+import { ImportModal } from './components/ImportModal.tsx';
+import { ObservationExportModal } from './components/ObservationExportModal.tsx';
+import { EmergencyModal } from './components/EmergencyModal.tsx';
+import { SymptomCheckerModal } from './components/SymptomCheckerModal.tsx';
+import { ToxinDetailModal } from './components/ToxinDetailModal.tsx';
+import { FollowUpChat } from './components/FollowUpChat.tsx';
+import { getSafetyRule } from './services/safetyRules.ts';
+import { matchToxins } from './services/toxinKnowledgeBase.ts';
+import { partitionRecipes } from './services/edibility.ts';
+import { loadEntries, saveEntries } from './services/storage.ts';
+import { getRiskNotes, loadRiskProfile, saveRiskProfile, RiskNote } from './services/riskProfile.ts';
+import { getChecklistItems, isChecklistComplete, createSafetyChecklist, toggleChecklistItem } from './services/safetyChecklist.ts';
 import { useLanguage } from './contexts/LanguageContext.tsx';
 import { useTheme } from './contexts/ThemeContext.tsx';
-import { imageToDataUrl, createPlaceholderImage, getFallbackMushroomIcon } from './utils.ts';
+import { imageToDataUrl, createPlaceholderImage, getFallbackMushroomIcon, createThumbnail } from './utils.ts';
 
 declare global {
   interface Window { 
@@ -27,14 +41,15 @@ const triggerHapticFeedback = (pattern: number | number[] = 50) => {
 };
 
 type AppView = 'main' | 'comparator';
-type DifficultyLevel = 'Beginner' | 'Intermediate' | 'Expert';
 
-const fileToBase64 = (file: File): Promise<string> => new Promise((resolve, reject) => {
-  const reader = new FileReader();
-  reader.readAsDataURL(file);
-  reader.onload = () => resolve((reader.result as string).split(',')[1]);
-  reader.onerror = (error) => reject(error);
-});
+// A photo picked by the user and tagged with the part of the specimen it shows, before analysis.
+type StagedPhoto = { file: File; src: string; mimeType: string; view: PhotoView; };
+
+const MAX_SOURCE_PHOTOS = 6;
+const PHOTO_VIEWS: PhotoView[] = ['cap', 'gills', 'stemBase', 'crossSection', 'other'];
+
+// Suggests the first specific view not yet used, so photos taken in order get sensible tags.
+const getNextPhotoView = (taken: PhotoView[]): PhotoView => PHOTO_VIEWS.find(v => v !== 'other' && !taken.includes(v)) || 'other';
 
 const blobUrlToDataUrl = (blobUrl: string): Promise<string> => new Promise((resolve, reject) => {
   fetch(blobUrl).then(res => res.blob()).then(blob => {
@@ -45,52 +60,29 @@ const blobUrlToDataUrl = (blobUrl: string): Promise<string> => new Promise((reso
   }).catch(reject);
 });
 
-// Creates a compressed thumbnail from a data URL to save storage space.
-const createThumbnail = (dataUrl: string, maxSize = 400): Promise<string> => {
-    return new Promise((resolve) => {
-        if (!dataUrl || !dataUrl.startsWith('data:image')) {
-            resolve(dataUrl);
-            return;
-        }
-
-        // Fix: Skip SVG images as they don't need resizing and can cause canvas tainting or load errors
-        if (dataUrl.startsWith('data:image/svg+xml')) {
-            resolve(dataUrl);
-            return;
-        }
-
-        const img = new Image();
-        img.onload = () => {
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-            if (!ctx) {
-                console.error('Failed to get canvas context');
-                resolve(dataUrl);
-                return;
-            }
-
-            let { width, height } = img;
-            if (width > height) {
-                if (width > maxSize) { height *= maxSize / width; width = maxSize; }
-            } else {
-                if (height > maxSize) { width *= maxSize / height; height = maxSize; }
-            }
-
-            canvas.width = width;
-            canvas.height = height;
-            ctx.drawImage(img, 0, 0, width, height);
-            resolve(canvas.toDataURL('image/jpeg', 0.85));
-        };
-        img.onerror = () => {
-            console.error(`Failed to load image for thumbnail creation from source: ${dataUrl.substring(0, 100)}...`);
-            // Fallback to the mushroom icon if the original image fails to load.
-            resolve(getFallbackMushroomIcon());
-        };
-        img.src = dataUrl;
-    });
+// Splits a data URL into the raw base64 payload and MIME type expected by the identification service.
+const dataUrlToPhotoInput = (dataUrl: string, view: PhotoView): PhotoInput => {
+    const [header, base64] = dataUrl.split(',');
+    const mimeType = header.match(/^data:([^;]+)/)?.[1] || 'image/jpeg';
+    return { base64, mimeType, view };
 };
 
 // --- NOTIFICATION COMPONENT ---
+// Stays until dismissed: a failed save means the latest changes are only in memory.
+const StorageErrorBanner: React.FC<{ code: string; onClose: () => void }> = ({ code, onClose }) => {
+  const { t } = useLanguage();
+  const messageKey = code === 'STORAGE_QUOTA_EXCEEDED' ? 'error_storage_quota' : code === 'STORAGE_UNAVAILABLE' ? 'error_storage_unavailable' : code === 'STORAGE_LOAD_FAILED' ? 'error_storage_load' : 'error_storage_write';
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[100] w-[calc(100%-2rem)] max-w-xl" role="alert" aria-live="assertive">
+      <div className="flex items-start gap-3 bg-red-600 text-white py-3 px-4 rounded-xl shadow-lg">
+        <Icon name="cross" className="w-5 h-5 flex-shrink-0 mt-0.5" />
+        <p className="flex-grow text-sm font-semibold">{t(messageKey)}</p>
+        <button onClick={onClose} aria-label={t('close')} className="flex-shrink-0 text-white/80 hover:text-white"><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg></button>
+      </div>
+    </div>
+  );
+};
+
 const Notification: React.FC<{ message: string; onClose: () => void; }> = ({ message, onClose }) => {
   useEffect(() => {
     const timer = setTimeout(onClose, 2500);
@@ -131,7 +123,7 @@ const SearchInput: React.FC<{ onSearch: (query: string) => void; isLoading: bool
 };
 
 interface MainInputProps {
-    onImageSelect: (file: File) => void;
+    onImagesSelect: (files: File[]) => void;
     isLoading: boolean;
     onTextSearch: (query: string) => void;
     onError: (errorCode: string) => void;
@@ -141,16 +133,16 @@ interface MainInputProps {
     onImageQualityChange: (quality: ImageQuality) => void;
 }
 
-const MainInput: React.FC<MainInputProps> = ({ onImageSelect, isLoading, onTextSearch, onError, difficultyLevel, onDifficultyChange, imageQuality, onImageQualityChange }) => {
+const MainInput: React.FC<MainInputProps> = ({ onImagesSelect, isLoading, onTextSearch, onError, difficultyLevel, onDifficultyChange, imageQuality, onImageQualityChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const cameraInputRef = useRef<HTMLInputElement>(null);
   const { t } = useLanguage();
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      if (!file.type.startsWith('image/')) { onError('IMAGE_UPLOAD_ERROR'); if (event.target) event.target.value = ''; return; }
-      onImageSelect(file);
+    const files: File[] = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      if (files.some(file => !file.type.startsWith('image/'))) { onError('IMAGE_UPLOAD_ERROR'); if (event.target) event.target.value = ''; return; }
+      onImagesSelect(files);
     }
     if (event.target) event.target.value = '';
   };
@@ -208,7 +200,7 @@ const MainInput: React.FC<MainInputProps> = ({ onImageSelect, isLoading, onTextS
           <button onClick={() => { cameraInputRef.current?.click(); triggerHapticFeedback(); }} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-amber-600 text-white font-semibold rounded-lg shadow-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-transform transform hover:scale-105">
           <Icon name="camera" className="w-5 h-5" />{t('takePhoto')}
           </button>
-          <input type="file" accept="image/*" ref={fileInputRef} onChange={handleFileChange} className="hidden" disabled={isLoading} />
+          <input type="file" accept="image/*" multiple ref={fileInputRef} onChange={handleFileChange} className="hidden" disabled={isLoading} />
           <button onClick={() => { fileInputRef.current?.click(); triggerHapticFeedback(); }} disabled={isLoading} className="flex-1 inline-flex items-center justify-center gap-2 px-6 py-3 bg-white dark:bg-slate-700 text-amber-700 dark:text-amber-300 font-semibold rounded-lg shadow-md border border-amber-300 dark:border-slate-600 hover:bg-amber-50 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-transform transform hover:scale-105">
           <Icon name="upload" className="w-5 h-5" />{t('uploadFile')}
           </button>
@@ -218,13 +210,69 @@ const MainInput: React.FC<MainInputProps> = ({ onImageSelect, isLoading, onTextS
   );
 };
 
-const Loader: React.FC<{ message: string, subMessage: string }> = ({ message, subMessage }) => (
-    <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md">
-        <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-amber-600 dark:border-amber-500 mx-auto"></div>
-        <p className="mt-6 text-lg font-semibold text-amber-800 dark:text-amber-200">{message}</p>
-        <p className="mt-2 text-gray-600 dark:text-slate-400">{subMessage}</p>
-    </div>
-);
+interface PhotoSetReviewProps {
+    photos: StagedPhoto[];
+    onAddPhotos: (files: File[]) => void;
+    onChangeView: (index: number, view: PhotoView) => void;
+    onRemovePhoto: (index: number) => void;
+    onClear: () => void;
+    onAnalyze: () => void;
+    onError: (errorCode: string) => void;
+}
+
+const PhotoSetReview: React.FC<PhotoSetReviewProps> = ({ photos, onAddPhotos, onChangeView, onRemovePhoto, onClear, onAnalyze, onError }) => {
+    const { t } = useLanguage();
+    const addInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files: File[] = Array.from(event.target.files || []);
+        if (files.some(file => !file.type.startsWith('image/'))) { onError('IMAGE_UPLOAD_ERROR'); }
+        else if (files.length > 0) { onAddPhotos(files); }
+        if (event.target) event.target.value = '';
+    };
+
+    return (
+        <div className="text-center p-6 sm:p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-2xl w-full">
+            <h3 className="text-xl font-bold text-stone-900 dark:text-amber-200 mb-2">{t('readyToAnalyze')}</h3>
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-6">{t('multiPhotoHint')}</p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 mb-6">
+                {photos.map((photo, index) => (
+                    <div key={photo.src} className="relative group">
+                        <img src={photo.src} alt={t(`photoView_${photo.view}`)} className="w-full aspect-square object-cover rounded-lg shadow-md" />
+                        <button onClick={() => { onRemovePhoto(index); triggerHapticFeedback(); }} className="absolute top-1 right-1 p-1 bg-red-600 text-white rounded-full shadow" aria-label={t('removePhoto')}><Icon name="trash" className="w-4 h-4" /></button>
+                        <label className="sr-only" htmlFor={`photo-view-${index}`}>{t('photoViewLabel')}</label>
+                        <select id={`photo-view-${index}`} value={photo.view} onChange={(e) => onChangeView(index, e.target.value as PhotoView)} className="mt-2 w-full px-2 py-1 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-amber-500 dark:text-slate-200">
+                            {PHOTO_VIEWS.map(view => <option key={view} value={view}>{t(`photoView_${view}`)}</option>)}
+                        </select>
+                    </div>
+                ))}
+                {photos.length < MAX_SOURCE_PHOTOS && (
+                    <button onClick={() => addInputRef.current?.click()} className="flex flex-col items-center justify-center gap-2 w-full aspect-square border-2 border-dashed border-gray-300 dark:border-slate-600 rounded-lg text-gray-500 dark:text-slate-400 hover:bg-gray-50 dark:hover:bg-slate-700">
+                        <Icon name="camera" className="w-8 h-8" />
+                        <span className="text-sm font-semibold">{t('addPhoto')}</span>
+                    </button>
+                )}
+            </div>
+            <input type="file" accept="image/*" multiple ref={addInputRef} onChange={handleFileChange} className="hidden" />
+            <div className="flex justify-center gap-4">
+                <button onClick={() => { onClear(); triggerHapticFeedback(); }} className="px-6 py-3 bg-white dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg shadow-md border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600">{t('changePhoto')}</button>
+                <button onClick={() => { onAnalyze(); triggerHapticFeedback(); }} className="px-6 py-3 bg-amber-600 text-white font-semibold rounded-lg shadow-md hover:bg-amber-700">{t('analyze')}</button>
+            </div>
+        </div>
+    );
+};
+
+const Loader: React.FC<{ message: string, subMessage: string, onCancel?: () => void }> = ({ message, subMessage, onCancel }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md mx-auto">
+            <div className="animate-spin rounded-full h-16 w-16 border-b-4 border-amber-600 dark:border-amber-500 mx-auto"></div>
+            <p className="mt-6 text-lg font-semibold text-amber-800 dark:text-amber-200">{message}</p>
+            <p className="mt-2 text-gray-600 dark:text-slate-400">{subMessage}</p>
+            {onCancel && <button onClick={() => { onCancel(); triggerHapticFeedback(); }} className="mt-6 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors">{t('cancel')}</button>}
+        </div>
+    );
+};
 
 const ToxicityMeter: React.FC<{ level: MushroomInfo['toxicidad']['nivelToxicidad'] }> = ({ level }) => {
     const { t } = useLanguage();
@@ -255,6 +303,279 @@ const ToxicityMeter: React.FC<{ level: MushroomInfo['toxicidad']['nivelToxicidad
     );
 };
 
+const CandidateCard: React.FC<{ candidate: IdentificationCandidate; rank: number; highlight?: boolean; action?: React.ReactNode }> = ({ candidate, rank, highlight, action }) => {
+    const { t } = useLanguage();
+    const percent = Math.round(candidate.confianza * 100);
+    return (
+        <div className={`p-4 border rounded-lg text-left ${highlight ? 'border-amber-400 dark:border-amber-600 bg-amber-50 dark:bg-amber-900/30' : 'border-gray-200 dark:border-slate-700 bg-white dark:bg-slate-800'}`}>
+            <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                    <h4 className="font-bold text-lg text-stone-800 dark:text-amber-300 break-words">{rank}. {candidate.nombreComun}</h4>
+                    <p className="text-sm italic text-gray-500 dark:text-slate-400 break-words">{candidate.nombreCientifico}</p>
+                </div>
+                {action}
+            </div>
+            <div className="mt-3">
+                <div className="flex justify-between text-xs font-semibold text-gray-600 dark:text-slate-400 mb-1"><span>{t('confidence')}</span><span>{percent}%</span></div>
+                <div className="w-full h-2 rounded-full bg-gray-200 dark:bg-slate-700 overflow-hidden"><div className={`h-full ${percent >= 70 ? 'bg-green-500' : percent >= 40 ? 'bg-yellow-500' : 'bg-red-500'}`} style={{ width: `${percent}%` }}></div></div>
+            </div>
+            <div className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                {candidate.caracteristicasAFavor.length > 0 && (<div><h5 className="font-semibold text-green-700 dark:text-green-400 mb-1">{t('supportingFeatures')}</h5><ul className="list-disc pl-5 space-y-1 text-gray-700 dark:text-slate-300">{candidate.caracteristicasAFavor.map((f, i) => <li key={i} className="break-words">{f}</li>)}</ul></div>)}
+                {candidate.caracteristicasEnContra.length > 0 && (<div><h5 className="font-semibold text-red-700 dark:text-red-400 mb-1">{t('opposingFeatures')}</h5><ul className="list-disc pl-5 space-y-1 text-gray-700 dark:text-slate-300">{candidate.caracteristicasEnContra.map((f, i) => <li key={i} className="break-words">{f}</li>)}</ul></div>)}
+            </div>
+        </div>
+    );
+};
+
+const CandidateList: React.FC<{ candidates: IdentificationCandidate[]; imageSrc: string; keyTrail: KeyAnswer[]; hasOpenKeyQuestion: boolean; onSelect: (candidate: IdentificationCandidate) => void; onStartKey: () => void; onCancel: () => void; }> = ({ candidates, imageSrc, keyTrail, hasOpenKeyQuestion, onSelect, onStartKey, onCancel }) => {
+    const { t } = useLanguage();
+    const isLowConfidence = (candidates[0]?.confianza ?? 0) < 0.5;
+    // Offer the key until it has run its course (no question left); after that only its outcome is shown.
+    const canUseKey = needsIdentificationKey(candidates) && (keyTrail.length === 0 || hasOpenKeyQuestion);
+    return (
+        <div className="w-full max-w-2xl p-6 sm:p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-amber-200 dark:border-stone-700">
+            <div className="flex items-center gap-4 mb-4">
+                <img src={imageSrc} alt="" className="w-20 h-20 object-cover rounded-lg shadow-md flex-shrink-0" />
+                <div>
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('candidatesTitle')}</h2>
+                    <p className="text-sm text-gray-600 dark:text-slate-400">{t('candidatesSubtitle')}</p>
+                </div>
+            </div>
+            {isLowConfidence && <p className="mb-4 p-3 text-sm bg-yellow-100 dark:bg-yellow-900/40 border-l-4 border-yellow-500 text-yellow-800 dark:text-yellow-300 rounded-r-lg">{t('lowConfidenceWarning')}</p>}
+            {keyTrail.length > 0 && <p className="mb-4 p-3 text-sm bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 rounded-lg">{t('keyNarrowedNotice', { count: keyTrail.length })}</p>}
+            {canUseKey && (
+                <div className="mb-4 p-4 flex flex-col sm:flex-row sm:items-center gap-3 bg-amber-50 dark:bg-amber-900/30 border border-amber-300 dark:border-amber-700 rounded-lg">
+                    <p className="flex-grow text-sm text-amber-900 dark:text-amber-200">{t('keyAmbiguousPrompt')}</p>
+                    <button onClick={() => { onStartKey(); triggerHapticFeedback(); }} className="flex-shrink-0 inline-flex items-center justify-center gap-2 px-4 py-2 text-sm font-semibold bg-white dark:bg-slate-700 text-amber-800 dark:text-amber-300 border border-amber-300 dark:border-slate-600 rounded-lg shadow-sm hover:bg-amber-100 dark:hover:bg-slate-600"><Icon name="help" className="w-4 h-4" />{t(keyTrail.length > 0 ? 'keyContinue' : 'keyStart')}</button>
+                </div>
+            )}
+            <div className="space-y-3">
+                {candidates.map((candidate, i) => (
+                    <CandidateCard key={candidate.nombreCientifico} candidate={candidate} rank={i + 1} highlight={i === 0} action={
+                        <button onClick={() => { onSelect(candidate); triggerHapticFeedback(); }} className="flex-shrink-0 px-4 py-2 text-sm font-semibold bg-amber-600 text-white rounded-lg shadow-md hover:bg-amber-700">{t('viewFullProfile')}</button>
+                    } />
+                ))}
+            </div>
+            <div className="mt-6 text-center"><button onClick={() => { onCancel(); triggerHapticFeedback(); }} className="px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">{t('anotherQuery')}</button></div>
+        </div>
+    );
+};
+
+// Lists the questions answered so far, oldest first.
+const KeyTrail: React.FC<{ trail: KeyAnswer[] }> = ({ trail }) => {
+    const { t } = useLanguage();
+    return (
+        <ol className="space-y-2">
+            {trail.map((step, i) => (
+                <li key={i} className="p-3 bg-stone-50 dark:bg-stone-900/40 rounded-md text-sm">
+                    <span className="block text-xs font-semibold uppercase text-gray-500 dark:text-slate-400">{i + 1}. {t(`keyFeature_${step.caracteristica}`)}</span>
+                    <span className="block text-gray-700 dark:text-slate-300 break-words">{step.pregunta}</span>
+                    <span className="block font-semibold text-stone-800 dark:text-amber-300 break-words">→ {step.respuesta}</span>
+                </li>
+            ))}
+        </ol>
+    );
+};
+
+// One question of the identification key; "I don't know" is always offered besides the model's answers.
+const IdentificationKeyPanel: React.FC<{ question: KeyQuestion; trail: KeyAnswer[]; imageSrc: string; onAnswer: (answer: string) => void; onStop: () => void; }> = ({ question, trail, imageSrc, onAnswer, onStop }) => {
+    const { t } = useLanguage();
+    return (
+        <div className="w-full max-w-2xl p-6 sm:p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg border border-amber-200 dark:border-stone-700">
+            <div className="flex items-center gap-4 mb-4">
+                <img src={imageSrc} alt="" className="w-20 h-20 object-cover rounded-lg shadow-md flex-shrink-0" />
+                <div>
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('keyTitle')}</h2>
+                    <p className="text-sm text-gray-600 dark:text-slate-400">{t('keyProgress', { current: trail.length + 1, max: MAX_KEY_QUESTIONS })}</p>
+                </div>
+            </div>
+            <div className="p-4 bg-amber-50 dark:bg-amber-900/30 rounded-lg">
+                <p className="text-xs font-semibold uppercase text-amber-700 dark:text-amber-400 mb-1">{t(`keyFeature_${question.caracteristica}`)}</p>
+                <p className="text-lg font-semibold text-stone-800 dark:text-amber-100 break-words">{question.pregunta}</p>
+            </div>
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {[...question.opciones, t('keyAnswerUnknown')].map((option, i) => (
+                    <button key={i} onClick={() => { onAnswer(option); triggerHapticFeedback(); }} className={`px-4 py-3 text-left font-semibold rounded-lg border transition-colors ${i === question.opciones.length ? 'border-dashed border-gray-300 dark:border-slate-600 text-gray-600 dark:text-slate-400 hover:bg-gray-50 dark:hover:bg-slate-700' : 'border-amber-300 dark:border-slate-600 text-stone-800 dark:text-slate-200 hover:bg-amber-100 dark:hover:bg-slate-700'}`}>{option}</button>
+                ))}
+            </div>
+            {trail.length > 0 && (
+                <div className="mt-6">
+                    <h3 className="text-sm font-semibold text-gray-600 dark:text-slate-400 mb-2">{t('keyAnswersSoFar')}</h3>
+                    <KeyTrail trail={trail} />
+                </div>
+            )}
+            <div className="mt-6 text-center"><button onClick={() => { onStop(); triggerHapticFeedback(); }} className="px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">{t('keyStop')}</button></div>
+        </div>
+    );
+};
+
+// Maps a validation field path (e.g. 'hongosSimilares[1].esToxico') to a translation key.
+const FIELD_LABEL_KEYS: Record<string, string> = {
+    nombreCientifico: 'scientificName',
+    sinonimos: 'alsoKnownAs',
+    descripcionGeneral: 'description',
+    habitat: 'habitat',
+    temporada: 'season',
+    distribucionGeografica: 'geographicDistribution',
+    usosCulinarios: 'culinaryUses',
+    toxicidad: 'toxicity',
+    'toxicidad.descripcion': 'toxicity',
+    'toxicidad.nivelToxicidad': 'toxicityLevel',
+    'toxicidad.compuestosToxicos': 'toxicCompounds',
+    'toxicidad.sintomas': 'symptoms',
+    'toxicidad.primerosAuxilios': 'firstAid',
+    condicionesConsumo: 'howToEat',
+    recetas: 'recipes',
+    hongosSimilares: 'similarMushrooms',
+    riesgosPersonales: 'groupRisks',
+};
+
+const getIssueLabelKey = (issue: ValidationIssue): string => {
+    const path = issue.field.replace(/\[\d+\]/g, '');
+    return FIELD_LABEL_KEYS[path] || FIELD_LABEL_KEYS[path.split('.')[0]] || issue.field;
+};
+
+const IncompleteResultBanner: React.FC<{ issues: ValidationIssue[] }> = ({ issues }) => {
+    const { t } = useLanguage();
+    const labels = Array.from(new Set(issues.map(issue => t(getIssueLabelKey(issue)))));
+    return (
+        <div className="mt-4 p-4 bg-orange-50 dark:bg-orange-900/40 border-l-4 border-orange-500 dark:border-orange-600 rounded-r-lg" role="status">
+            <h4 className="font-bold text-orange-800 dark:text-orange-200 flex items-center gap-2"><Icon name="cross" className="w-5 h-5" />{t('incompleteResultTitle')}</h4>
+            <p className="mt-1 text-sm text-orange-800 dark:text-orange-300">{t('incompleteResultBody')}</p>
+            <p className="mt-1 text-sm font-semibold text-orange-900 dark:text-orange-200 break-words">{labels.join(', ')}</p>
+        </div>
+    );
+};
+
+// Shown whenever a bundled safety rule matched the species or one of its lookalikes; it cannot be collapsed.
+const SafetyRulesBanner: React.FC<{ safety: SafetyAssessment; level: MushroomInfo['toxicidad']['nivelToxicidad'] }> = ({ safety, level }) => {
+    const { t, language } = useLanguage();
+    if (safety.matches.length === 0) return null;
+    const speciesMatched = safety.matches.some(match => match.subject === 'species');
+    return (
+        <div className="mt-4 p-4 bg-purple-50 dark:bg-purple-900/40 border-2 border-purple-500 dark:border-purple-500 rounded-lg" role="alert">
+            <h4 className="font-extrabold text-lg text-purple-900 dark:text-purple-100 flex items-center gap-2"><Icon name="cross" className="w-6 h-6 flex-shrink-0" />{t(speciesMatched ? 'safetyBannerSpeciesTitle' : 'safetyBannerLookalikeTitle')}</h4>
+            <ul className="mt-2 space-y-2">
+                {safety.matches.map((match, i) => {
+                    const rule = getSafetyRule(match.ruleId);
+                    return (
+                        <li key={i} className="text-sm text-purple-900 dark:text-purple-200 break-words">
+                            <span className="font-semibold">{t(match.subject === 'species' ? 'safetyMatchSpecies' : 'safetyMatchLookalike')}: <em>{match.name}</em></span>
+                            {rule && <span className="block">{rule.reason[language]} ({rule.toxins.join(', ')})</span>}
+                        </li>
+                    );
+                })}
+            </ul>
+            {safety.escalatedFrom && <p className="mt-2 text-sm font-semibold text-purple-900 dark:text-purple-100">{t('safetyEscalated', { from: t(`toxicityLevel_${safety.escalatedFrom}`), to: t(`toxicityLevel_${level}`) })}</p>}
+            {safety.hideRecipes && <p className="mt-1 text-sm text-purple-900 dark:text-purple-200">{t('safetyRecipesHidden')}</p>}
+            <p className="mt-2 text-xs text-purple-700 dark:text-purple-300">{t('safetyRulesVersion', { version: safety.rulesVersion })}</p>
+        </div>
+    );
+};
+
+// Second opinion on the toxic lookalikes of an edible verdict, shown in the toxicity section.
+const VerificationPanel: React.FC<{ verification: VerificationResult | null; level: MushroomInfo['toxicidad']['nivelToxicidad'] }> = ({ verification, level }) => {
+    const { t } = useLanguage();
+    if (!verification) {
+        return <p className="flex items-center gap-2 text-sm text-gray-500 dark:text-slate-400"><Spinner />{t('verificationPending')}</p>;
+    }
+    if (verification.failed) {
+        return <p className="p-3 text-sm text-orange-800 dark:text-orange-300 bg-orange-50 dark:bg-orange-900/40 border border-orange-300 dark:border-orange-700 rounded-lg">{t('verificationFailed')}</p>;
+    }
+    return (
+        <div className={`p-4 border rounded-lg ${verification.downgradedFrom ? 'border-red-300 dark:border-red-700 bg-red-50 dark:bg-red-900/40' : 'border-green-300 dark:border-green-700 bg-green-50 dark:bg-green-900/40'}`}>
+            <h4 className="font-semibold text-gray-800 dark:text-slate-200">{t('verificationTitle')}</h4>
+            {verification.downgradedFrom && <p className="mt-1 text-sm font-semibold text-red-800 dark:text-red-200">{t('verificationDowngraded', { from: t(`toxicityLevel_${verification.downgradedFrom}`), to: t(`toxicityLevel_${level}`) })}</p>}
+            <ul className="mt-2 space-y-2">
+                {verification.verdicts.map((verdict, i) => (
+                    <li key={i} className="text-sm break-words">
+                        <span className={`font-semibold ${verdict.veredicto === 'agree' ? 'text-green-800 dark:text-green-300' : 'text-red-800 dark:text-red-300'}`}>{t(verdict.veredicto === 'agree' ? 'verificationAgree' : 'verificationDisagree')}</span>
+                        {' '}<em>{verdict.nombreCientifico}</em> ({verdict.nombreComun})
+                        {verdict.razon && <span className="block text-gray-700 dark:text-slate-300">{verdict.razon}</span>}
+                    </li>
+                ))}
+            </ul>
+            {verification.model && <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">{t('verificationBy', { model: verification.model })}</p>}
+        </div>
+    );
+};
+
+// Caution notes picked for the reader's risk profile (Settings).
+const RiskNotesPanel: React.FC<{ notes: RiskNote[] }> = ({ notes }) => {
+    const { t } = useLanguage();
+    if (notes.length === 0) return null;
+    return (
+        <div className="p-4 bg-purple-50 dark:bg-purple-900/40 border-l-4 border-purple-500 dark:border-purple-600 rounded-r-lg" role="note">
+            <h4 className="font-bold text-purple-900 dark:text-purple-200">{t('riskNotesTitle')}</h4>
+            <ul className="mt-2 space-y-1 text-sm text-purple-900 dark:text-purple-200">
+                {notes.map((note, i) => <li key={i} className="break-words"><span className="font-semibold">{t(`riskFactor_${note.factor}`)}:</span> {note.messageKey ? t(note.messageKey) : note.text}</li>)}
+            </ul>
+        </div>
+    );
+};
+
+// Read-only when `onChange` is missing (e.g. while the result is still streaming).
+const SafetyChecklistPanel: React.FC<{ entry: HistoryEntry; onChange?: (checklist: SafetyChecklist) => void }> = ({ entry, onChange }) => {
+    const { t } = useLanguage();
+    const [expertName, setExpertName] = useState(entry.safetyChecklist?.expertName || '');
+    const items = getChecklistItems(entry);
+    const done = items.filter(item => item.completedAt !== null).length;
+    const similarByName = (name: string) => entry.mushroomInfo.hongosSimilares.find(similar => (similar.nombreCientifico || similar.nombreComun) === name);
+
+    const saveExpertName = () => {
+        if (onChange && expertName.trim() !== (entry.safetyChecklist?.expertName || '')) onChange({ ...(entry.safetyChecklist || createSafetyChecklist()), expertName: expertName.trim() || undefined });
+    };
+
+    return (
+        <div className="p-4 border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/40 rounded-lg">
+            <h4 className="font-bold text-amber-900 dark:text-amber-200">{t('checklistTitle')}</h4>
+            <p className="mt-1 text-sm text-amber-800 dark:text-amber-300">{t('checklistDescription', { done, total: items.length })}</p>
+            <ul className="mt-3 space-y-3">
+                {items.map(item => {
+                    const similar = item.lookalike !== undefined ? similarByName(item.lookalike) : undefined;
+                    return (
+                        <li key={item.key}>
+                            <label className="flex items-start gap-3 text-sm text-gray-800 dark:text-slate-200">
+                                <input type="checkbox" checked={item.completedAt !== null} disabled={!onChange} onChange={(e) => onChange?.(toggleChecklistItem(entry.safetyChecklist, item, e.target.checked))} className="mt-0.5 w-4 h-4 accent-amber-600" />
+                                <span className="min-w-0">
+                                    {similar
+                                        ? <><span className="font-semibold">{t('checklist_lookalike', { name: similar.nombreComun })}</span> <span className="block text-gray-600 dark:text-slate-400 break-words">{similar.diferenciaClave}</span></>
+                                        : <span className="font-semibold">{t(`checklist_${item.check}`)}</span>}
+                                    {item.completedAt !== null && <span className="block text-xs text-gray-500 dark:text-slate-400">{t('checklistDoneAt', { date: new Date(item.completedAt).toLocaleString() })}</span>}
+                                </span>
+                            </label>
+                            {item.check === 'expert' && (
+                                <input type="text" value={expertName} onChange={(e) => setExpertName(e.target.value)} onBlur={saveExpertName} disabled={!onChange} placeholder={t('checklistExpertPlaceholder')} className="mt-2 ml-7 w-[calc(100%-1.75rem)] p-2 text-sm bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-md focus:outline-none focus:ring-1 focus:ring-amber-500 dark:text-slate-200" />
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+// Compounds recognised by the toxin knowledge base become chips (tappable when `onOpenToxin` is given); the rest stay as written.
+const ToxicCompoundChips: React.FC<{ compounds: string[]; onOpenToxin?: (toxinId: string) => void }> = ({ compounds, onOpenToxin }) => {
+    const { language } = useLanguage();
+    const chips: { key: string; label: string; compound: string; toxinId: string | null }[] = [];
+    compounds.forEach(compound => {
+        const toxins = matchToxins(compound);
+        if (toxins.length === 0) chips.push({ key: compound, label: compound, compound, toxinId: null });
+        toxins.filter(toxin => !chips.some(chip => chip.toxinId === toxin.id))
+            .forEach(toxin => chips.push({ key: toxin.id, label: toxin.name[language], compound, toxinId: toxin.id }));
+    });
+    return (
+        <div className="flex flex-wrap gap-2 text-sm">
+            {chips.map(chip => chip.toxinId && onOpenToxin ? (
+                <button key={chip.key} onClick={() => onOpenToxin(chip.toxinId!)} title={chip.compound} className="inline-flex items-center gap-1 px-3 py-1 rounded-full font-semibold bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900/80 focus:outline-none focus:ring-2 focus:ring-red-500">{chip.label}<Icon name="help" className="w-3.5 h-3.5" /></button>
+            ) : (
+                <span key={chip.key} title={chip.compound} className={`px-3 py-1 rounded-full break-words ${chip.toxinId ? 'font-semibold bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300' : 'bg-stone-100 text-stone-700 dark:bg-stone-900/60 dark:text-stone-300'}`}>{chip.label}</span>
+            ))}
+        </div>
+    );
+};
+
 interface ShareableCardProps {
   mushroomInfo: MushroomInfo;
   imageSrc: string;
@@ -282,6 +603,33 @@ const ShareableCard: React.FC<ShareableCardProps> = ({ mushroomInfo, imageSrc, o
     );
 };
 
+const ModelBadge: React.FC<{ answeredBy: AnsweringModels }> = ({ answeredBy }) => {
+    const { t } = useLanguage();
+    const details = [
+        `${t('modelInfo')}: ${answeredBy.info}`,
+        answeredBy.image ? `${t('modelImage')}: ${answeredBy.image}` : null,
+        answeredBy.map ? `${t('modelMap')}: ${answeredBy.map}` : null,
+    ].filter(Boolean).join('\n');
+    return (
+        <span title={details} className="inline-flex items-center gap-1 mt-2 px-2 py-0.5 text-[11px] font-mono rounded-full bg-gray-100 text-gray-600 border border-gray-200 dark:bg-slate-700 dark:text-slate-300 dark:border-slate-600">
+            <Icon name="sparkles" className="w-3 h-3" />
+            {t('answeredBy', { model: answeredBy.info })}
+        </span>
+    );
+};
+
+// What is still on its way while a result streams in. `receivedFields` is null once the profile is complete.
+interface StreamingState {
+    receivedFields: string[] | null;
+    imagePending: boolean;
+    mapPending: boolean;
+    verificationPending?: boolean;
+}
+
+const Spinner: React.FC<{ className?: string }> = ({ className = 'w-4 h-4' }) => <span className={`${className} border-2 border-t-transparent border-current rounded-full animate-spin inline-block`}></span>;
+
+const Skeleton: React.FC<{ className?: string }> = ({ className = 'w-full' }) => <span className={`${className} inline-block h-4 bg-gray-200 dark:bg-slate-700 rounded animate-pulse align-middle`}></span>;
+
 interface ResultCardProps { 
     result: HistoryEntry; 
     onReset: () => void; 
@@ -289,11 +637,26 @@ interface ResultCardProps {
     onToggleCollection: () => void; 
     onStartCompare?: () => void;
     onEditDiary: () => void;
+    onRefresh?: () => void;
     difficulty: DifficultyLevel;
+    // Set while the result is still streaming in; `onReset` then cancels the request.
+    streaming?: StreamingState | null;
+    onConversationChange?: (conversation: ChatMessage[]) => void;
+    onOpenEmergency?: () => void;
+    onOpenToxin?: (toxinId: string) => void;
+    onChecklistChange?: (checklist: SafetyChecklist) => void;
+    riskProfile?: RiskProfile;
 }
 
-const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection, onToggleCollection, onStartCompare, onEditDiary, difficulty }) => {
-    const { mushroomInfo, sources, imageSrc, mapaDistribucionSrc, personalNotes, findingDate, location, userPhotos } = result;
+const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection, onToggleCollection, onStartCompare, onEditDiary, onRefresh, difficulty, streaming, onConversationChange, onOpenEmergency, onOpenToxin, onChecklistChange, riskProfile }) => {
+    const { mushroomInfo, sources, imageSrc, mapaDistribucionSrc, personalNotes, findingDate, location, userPhotos, validationIssues, chosenCandidate, alternativeCandidates, sourcePhotos, answeredBy, cachedAt, conversation, identificationKey, safety, verification } = result;
+    const recipesHidden = !!safety?.hideRecipes || !!verification?.downgradedFrom;
+    const conditions = mushroomInfo.condicionesConsumo;
+    const showHowToEat = !!conditions && ['Edible', 'Caution'].includes(mushroomInfo.toxicidad.nivelToxicidad);
+    const { allowed: allowedRecipes, refused: refusedRecipes } = partitionRecipes(mushroomInfo.recetas || [], conditions);
+    const recipesUnlocked = isChecklistComplete(result);
+    const riskNotes = riskProfile ? getRiskNotes(mushroomInfo, riskProfile) : [];
+    const completedChecks = getChecklistItems(result).filter(item => item.completedAt !== null);
     const { t } = useLanguage();
     const { theme } = useTheme();
     const resultCardRef = useRef<HTMLDivElement>(null);
@@ -310,6 +673,12 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
 
     const toggleSection = (title: string) => setOpenSections(prev => ({...prev, [title]: !prev[title]}));
 
+    // A field is pending while the profile streams in and the model has not written it yet.
+    const isPending = (field: string) => !!streaming?.receivedFields && !streaming.receivedFields.includes(field);
+
+    // Missing fields are left empty by the validation layer; flag them instead of hiding the gap.
+    const orMissing = (value: string, field?: string) => value || (field && isPending(field) ? <Skeleton /> : <span className="italic text-orange-600 dark:text-orange-400">{t('notProvided')}</span>);
+
     const handleShareRecipe = async (recipe: Recipe) => {
         triggerHapticFeedback();
         const shareText = `${t('appName')} Recipe: ${recipe.nombre}\n\n${t('ingredients')}:\n- ${recipe.ingredientes.join('\n- ')}\n\n${t('instructions')}:\n${recipe.instrucciones}`;
@@ -358,10 +727,13 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
         const allPossibleSections = [
             mushroomInfo.distribucionGeografica ? t('distributionMap') : null,
             mushroomInfo.usosCulinarios?.length > 0 ? t('culinaryUses') : null,
+            showHowToEat ? t('howToEat') : null,
             mushroomInfo.toxicidad ? t('toxicity') : null,
             mushroomInfo.hongosSimilares?.length > 0 ? t('similarMushrooms') : null,
-            mushroomInfo.recetas?.length > 0 ? t('recipes') : null,
+            mushroomInfo.recetas?.length > 0 && !recipesHidden ? t('recipes') : null,
             sources.length > 0 ? t('sources') : null,
+            alternativeCandidates && alternativeCandidates.length > 0 ? t('otherCandidates') : null,
+            identificationKey && identificationKey.length > 0 ? t('keyTrailTitle') : null,
             isInCollection ? t('myFieldDiarySectionTitle') : null,
         ].filter(Boolean) as string[];
 
@@ -448,7 +820,7 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
         return <span className={`px-3 py-1 text-sm font-bold rounded-full ${color}`}>{t(textKey)}</span>;
     };
   
-  const hasDiaryData = personalNotes || findingDate || location || (userPhotos && userPhotos.length > 0);
+  const hasDiaryData = personalNotes || findingDate || location || (userPhotos && userPhotos.length > 0) || completedChecks.length > 0;
 
   return (
     <>
@@ -461,26 +833,56 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
         <div className="p-6 md:p-8">
             <div className="md:flex md:gap-8">
                 <div className="md:w-1/3 mb-6 md:mb-0">
+                    {streaming?.imagePending ? (
+                        <div className="rounded-xl shadow-lg w-full aspect-square bg-stone-100 dark:bg-stone-900/40 flex flex-col items-center justify-center gap-3 text-amber-700 dark:text-amber-400">
+                            <Spinner className="w-10 h-10" />
+                            <p className="text-sm text-gray-500 dark:text-slate-400 px-4 text-center">{t('generatingIllustration')}</p>
+                        </div>
+                    ) : (
                     <img 
                         src={imageSrc} 
                         alt={mushroomInfo.nombreComun} 
                         className="rounded-xl shadow-lg w-full object-cover aspect-square"
                         onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src = getFallbackMushroomIcon(); }}
                     />
+                    )}
+                    {sourcePhotos && sourcePhotos.length > 1 && (
+                        <div className="mt-3">
+                            <h4 className="text-xs font-semibold uppercase text-gray-500 dark:text-slate-400 mb-2">{t('sourcePhotosTitle')}</h4>
+                            <div className="grid grid-cols-3 gap-2">
+                                {sourcePhotos.map((photo, i) => (
+                                    <figure key={i}>
+                                        <img src={photo.src} alt={t(`photoView_${photo.view}`)} className="w-full aspect-square object-cover rounded-md shadow-sm" onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src = createPlaceholderImage('Photo Error'); }} />
+                                        <figcaption className="mt-1 text-[11px] leading-tight text-gray-500 dark:text-slate-400 text-center">{t(`photoView_${photo.view}`)}</figcaption>
+                                    </figure>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
                 <div className="md:w-2/3">
                     <div className="mb-4">
                         <h2 className="text-3xl sm:text-4xl font-extrabold text-stone-800 dark:text-amber-200 break-words">{mushroomInfo.nombreComun}</h2>
                         <p className="text-lg sm:text-xl text-gray-500 dark:text-slate-400 italic mt-1 break-words">{mushroomInfo.nombreCientifico}</p>
                         {difficulty !== 'Beginner' && mushroomInfo.sinonimos?.length > 0 && <p className="text-sm text-gray-600 dark:text-slate-300 mt-2 break-words"><strong>{t('alsoKnownAs')}:</strong> {mushroomInfo.sinonimos.join(', ')}</p>}
+                        {answeredBy && <ModelBadge answeredBy={answeredBy} />}
+                        {cachedAt && <p className="hide-on-export text-xs text-gray-500 dark:text-slate-400 mt-2">{t('cachedResultNotice', { date: new Date(cachedAt).toLocaleDateString() })}</p>}
+                    </div>
+                    {streaming ? (
+                    <div className="flex flex-wrap items-center justify-between gap-2 p-3 bg-amber-50 dark:bg-amber-900/30 rounded-lg text-amber-800 dark:text-amber-300">
+                        <span className="inline-flex items-center gap-2 text-sm font-semibold"><Spinner />{t(streaming.receivedFields ? 'streamingProfile' : streaming.verificationPending ? 'verificationPending' : 'streamingMedia')}</span>
+                        <button onClick={() => { onReset(); triggerHapticFeedback(); }} className="px-3 py-1.5 text-sm font-semibold rounded-lg bg-white text-gray-700 hover:bg-gray-100 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-amber-500">{t('cancel')}</button>
                     </div>
+                    ) : (
                     <div className="flex flex-wrap justify-start sm:justify-end gap-2">
                         <button onClick={handleShareAsImage} disabled={isSharing} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-amber-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 disabled:opacity-50">
                             {isSharing ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="share-up" className="w-4 h-4" />}
                             {isSharing ? t('sharing') : t('share')}
                         </button>
+                        {onOpenEmergency && (<button onClick={() => { onOpenEmergency(); triggerHapticFeedback([100, 50, 100]); }} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 bg-red-600 text-white hover:bg-red-700 focus:ring-red-500"><Icon name="cross" className="w-4 h-4" />{t('emergencyAteThis')}</button>)}
                         {onStartCompare && (<button onClick={() => { onStartCompare(); triggerHapticFeedback(); }} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 bg-amber-100 text-amber-800 hover:bg-amber-200 focus:ring-amber-500 dark:bg-amber-900/50 dark:text-amber-300 dark:hover:bg-amber-900/70"><Icon name="compare" className="w-4 h-4" />{t('compare')}</button>)}
                         <button onClick={() => { onToggleCollection(); triggerHapticFeedback(); }} className={`hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 ${ isInCollection ? 'bg-red-100 text-red-800 hover:bg-red-200 focus:ring-red-500 dark:bg-red-900/50 dark:text-red-300 dark:hover:bg-red-900/70' : 'bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-amber-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600' }`}><Icon name="bookmark" className="w-4 h-4" />{isInCollection ? t('saved') : t('save')}</button>
+                        {onRefresh && (<button onClick={() => { onRefresh(); triggerHapticFeedback(); }} title={t('refreshResultHint')} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-amber-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600"><Icon name="refresh" className="w-4 h-4" />{t('refreshResult')}</button>)}
                         {isInCollection && (<button onClick={() => { onEditDiary(); triggerHapticFeedback(); }} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 bg-blue-100 text-blue-800 hover:bg-blue-200 focus:ring-blue-500 dark:bg-blue-900/50 dark:text-blue-300 dark:hover:bg-blue-900/70"><Icon name="pencil" className="w-4 h-4" />{t('editDiary')}</button>)}
                         <button onClick={handleExportPdf} disabled={isExporting} className="hide-on-export inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm transition-all focus:outline-none focus:ring-2 focus:ring-offset-2 bg-gray-100 text-gray-700 hover:bg-gray-200 focus:ring-amber-500 dark:bg-slate-700 dark:text-slate-300 dark:hover:bg-slate-600 disabled:opacity-50">
                             {isExporting ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="download" className="w-4 h-4" />}
@@ -491,13 +893,17 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                             {isExportingJpg ? t('exporting') : t('exportToJpg')}
                         </button>
                     </div>
+                    )}
+                    {safety && <SafetyRulesBanner safety={safety} level={mushroomInfo.toxicidad.nivelToxicidad} />}
+                    {!isPending('toxicidad.nivelToxicidad') && riskNotes.some(note => note.scope === 'result') && <div className="mt-4"><RiskNotesPanel notes={riskNotes.filter(note => note.scope === 'result')} /></div>}
                     <div className="mt-4">
-                      <ToxicityMeter level={mushroomInfo.toxicidad.nivelToxicidad} />
+                      {isPending('toxicidad.nivelToxicidad') ? <Skeleton className="w-full h-8" /> : <ToxicityMeter level={mushroomInfo.toxicidad.nivelToxicidad} />}
                     </div>
-                    <p className="text-gray-700 dark:text-slate-300 leading-relaxed mt-4 break-words">{mushroomInfo.descripcionGeneral}</p>
+                    {validationIssues && validationIssues.length > 0 && <IncompleteResultBanner issues={validationIssues} />}
+                    <p className="text-gray-700 dark:text-slate-300 leading-relaxed mt-4 break-words">{orMissing(mushroomInfo.descripcionGeneral, 'descripcionGeneral')}</p>
                     <div className="mt-6 grid grid-cols-1 sm:grid-cols-2 gap-4 text-center">
-                        <div className="p-4 bg-stone-50 dark:bg-stone-900/40 rounded-lg"><Icon name="globe" className="w-8 h-8 text-amber-600 dark:text-amber-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-stone-800 dark:text-amber-300">{t('habitat')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{mushroomInfo.habitat}</p></div>
-                        <div className="p-4 bg-stone-50 dark:bg-stone-900/40 rounded-lg"><Icon name="sparkles" className="w-8 h-8 text-amber-600 dark:text-amber-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-stone-800 dark:text-amber-300">{t('season')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{mushroomInfo.temporada}</p></div>
+                        <div className="p-4 bg-stone-50 dark:bg-stone-900/40 rounded-lg"><Icon name="globe" className="w-8 h-8 text-amber-600 dark:text-amber-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-stone-800 dark:text-amber-300">{t('habitat')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{orMissing(mushroomInfo.habitat, 'habitat')}</p></div>
+                        <div className="p-4 bg-stone-50 dark:bg-stone-900/40 rounded-lg"><Icon name="sparkles" className="w-8 h-8 text-amber-600 dark:text-amber-500 mx-auto mb-2" /><h4 className="font-semibold text-sm text-stone-800 dark:text-amber-300">{t('season')}</h4><p className="text-sm text-gray-600 dark:text-slate-400 break-words">{orMissing(mushroomInfo.temporada, 'temporada')}</p></div>
                     </div>
                 </div>
             </div>
@@ -508,6 +914,17 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                         {findingDate && (<div className="flex items-center gap-3"><Icon name="calendar" className="w-5 h-5 text-gray-500 dark:text-slate-400"/><p><strong>{t('fieldDiaryDateLabel')}:</strong> {new Date(findingDate).toLocaleDateString()}</p></div>)}
                         {location && (<div className="flex items-center gap-3"><Icon name="location-pin" className="w-5 h-5 text-gray-500 dark:text-slate-400"/> <p><strong>{t('fieldDiaryLocationLabel')}:</strong> <a href={`https://www.google.com/maps?q=${location.latitude},${location.longitude}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">{location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}</a></p> </div>)}
                         {personalNotes && (<div><h4 className="font-semibold mb-1">{t('fieldDiaryNotesLabel')}:</h4><p className="whitespace-pre-wrap bg-stone-50 dark:bg-stone-900/40 p-3 rounded-md">{personalNotes}</p></div>)}
+                        {completedChecks.length > 0 && (
+                            <div>
+                                <h4 className="font-semibold mb-1">{t('checklistTitle')}:</h4>
+                                <ul className="space-y-1 text-sm">{completedChecks.map(item => (
+                                    <li key={item.key} className="flex items-start gap-2 break-words">
+                                        <Icon name="clipboard-check" className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600 dark:text-green-400" />
+                                        <span>{item.lookalike !== undefined ? t('checklist_lookalike', { name: item.lookalike }) : t(`checklist_${item.check}`)}{item.check === 'expert' && result.safetyChecklist?.expertName ? ` (${result.safetyChecklist.expertName})` : ''} <span className="text-gray-500 dark:text-slate-400">· {new Date(item.completedAt!).toLocaleDateString()}</span></span>
+                                    </li>
+                                ))}</ul>
+                            </div>
+                        )}
                         {userPhotos && userPhotos.length > 0 && (<div><h4 className="font-semibold mb-2">{t('fieldDiaryPhotosLabel')}:</h4><div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-2">{userPhotos.map((photo, i) => <img key={i} src={photo} alt={`${t('userPhoto')} ${i+1}`} className="w-full h-auto object-cover rounded-md shadow-sm" onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src = createPlaceholderImage('Photo Error'); }} />)}</div></div>)}
                     </div>
                 </Section>
@@ -516,10 +933,12 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                 <div className="space-y-4">
                     <div className="flex items-center gap-4">
                         <h4 className="font-semibold text-gray-800 dark:text-slate-200">{t('toxicityLevel')}:</h4>
-                        {getToxicityBadge(mushroomInfo.toxicidad.nivelToxicidad)}
+                        {isPending('toxicidad.nivelToxicidad') ? <Skeleton className="w-24" /> : getToxicityBadge(mushroomInfo.toxicidad.nivelToxicidad)}
                     </div>
-                    <p className="bg-yellow-100 dark:bg-yellow-900/40 border-l-4 border-yellow-500 dark:border-yellow-600 text-yellow-800 dark:text-yellow-300 p-4 rounded-r-lg break-words">{mushroomInfo.toxicidad.descripcion}</p>
-                    {difficulty !== 'Beginner' && mushroomInfo.toxicidad.compuestosToxicos.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('toxicCompounds')}:</h4><ul className="list-disc pl-5 text-sm space-y-1">{mushroomInfo.toxicidad.compuestosToxicos.map((c, i) => <li key={i} className="break-words">{c}</li>)}</ul></div>)}
+                    <RiskNotesPanel notes={riskNotes.filter(note => note.scope === 'toxicity')} />
+                    {(verification || streaming?.verificationPending) && <VerificationPanel verification={verification ?? null} level={mushroomInfo.toxicidad.nivelToxicidad} />}
+                    <p className="bg-yellow-100 dark:bg-yellow-900/40 border-l-4 border-yellow-500 dark:border-yellow-600 text-yellow-800 dark:text-yellow-300 p-4 rounded-r-lg break-words">{orMissing(mushroomInfo.toxicidad.descripcion, 'toxicidad.descripcion')}</p>
+                    {difficulty !== 'Beginner' && mushroomInfo.toxicidad.compuestosToxicos.length > 0 && (<div><h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('toxicCompounds')}:</h4><ToxicCompoundChips compounds={mushroomInfo.toxicidad.compuestosToxicos} onOpenToxin={onOpenToxin} /></div>)}
                     {mushroomInfo.toxicidad.sintomas && (
                         <div>
                             <h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('symptoms')}:</h4>
@@ -528,10 +947,29 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                     )}
                     <div className="p-4 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg">
                         <h4 className="font-bold text-red-800 dark:text-red-200 flex items-center gap-2"><Icon name="cross" className="w-5 h-5" />{t('firstAid')}</h4>
-                        <p className="mt-2 text-red-700 dark:text-red-300 text-sm break-words">{mushroomInfo.toxicidad.primerosAuxilios}</p>
+                        <p className="mt-2 text-red-700 dark:text-red-300 text-sm break-words">{orMissing(mushroomInfo.toxicidad.primerosAuxilios, 'toxicidad.primerosAuxilios')}</p>
                     </div>
                 </div>
               </Section>
+              {showHowToEat && conditions && (
+                <Section title={t('howToEat')} icon="utensils">
+                    <div className="space-y-4">
+                        <p className={`p-3 rounded-md font-semibold ${conditions.comestibleCrudo ? 'bg-green-50 text-green-800 dark:bg-green-900/40 dark:text-green-300' : 'bg-orange-50 text-orange-800 dark:bg-orange-900/40 dark:text-orange-300'}`}>{t(conditions.comestibleCrudo ? 'howToEatRawOk' : 'howToEatNeverRaw')}</p>
+                        {conditions.requisitos.length > 0 && (
+                            <div>
+                                <h4 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('howToEatRequirements')}:</h4>
+                                <ul className="space-y-1">{conditions.requisitos.map((req, i) => <li key={i} className="break-words"><span className="font-semibold">{t(`preparationStep_${req.tipo}`)}:</span> {req.descripcion}</li>)}</ul>
+                            </div>
+                        )}
+                        {conditions.interacciones.length > 0 && (
+                            <div className="p-4 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg">
+                                <h4 className="font-bold text-red-800 dark:text-red-200 flex items-center gap-2"><Icon name="cross" className="w-5 h-5" />{t('howToEatInteractions')}</h4>
+                                <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">{conditions.interacciones.map((interaction, i) => <li key={i} className="break-words"><span className="font-semibold">{t(`interaction_${interaction.tipo}`)}:</span> {interaction.descripcion}</li>)}</ul>
+                            </div>
+                        )}
+                    </div>
+                </Section>
+              )}
               {mushroomInfo.usosCulinarios?.length > 0 && <Section title={t('culinaryUses')} icon="utensils"><ul className="list-disc pl-5 space-y-1">{mushroomInfo.usosCulinarios.map((uso, i) => <li key={i} className="break-words">{uso}</li>)}</ul></Section>}
               {mushroomInfo.hongosSimilares?.length > 0 && (
                 <Section title={t('similarMushrooms')} icon="cross">
@@ -554,19 +992,31 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                     <p className="mt-4 text-sm text-gray-500 dark:text-slate-400"><strong>{t('importantDisclaimerSimilar')}</strong></p>
                 </Section>
               )}
-              {mushroomInfo.distribucionGeografica && (
+              {(mushroomInfo.distribucionGeografica || streaming?.mapPending) && (
                 <Section title={t('distributionMap')} icon="map">
                     <div className="space-y-4">
-                        {mapaDistribucionSrc && (
+                        {streaming?.mapPending ? (
+                            <div className="rounded-lg w-full aspect-video bg-stone-100 dark:bg-stone-900/40 flex flex-col items-center justify-center gap-3 text-amber-700 dark:text-amber-400">
+                                <Spinner className="w-8 h-8" />
+                                <p className="text-sm text-gray-500 dark:text-slate-400">{t('generatingMap')}</p>
+                            </div>
+                        ) : mapaDistribucionSrc && (
                             <img src={mapaDistribucionSrc} alt={`Map of ${mushroomInfo.nombreComun}`} className="rounded-lg shadow-md w-full object-contain" onError={(e) => { e.currentTarget.onerror = null; e.currentTarget.src = createPlaceholderImage('Map Error'); }} />
                         )}
-                        <p className="break-words">{mushroomInfo.distribucionGeografica}</p>
+                        <p className="break-words">{orMissing(mushroomInfo.distribucionGeografica, 'distribucionGeografica')}</p>
                     </div>
                 </Section>
               )}
-              {mushroomInfo.recetas?.length > 0 && (
+              {mushroomInfo.recetas?.length > 0 && !recipesHidden && (
               <Section title={t('recipes')} icon="pot">
-                {mushroomInfo.recetas.map((recipe, i) => (
+                {riskNotes.some(note => note.scope === 'recipes') && <div className="mb-6"><RiskNotesPanel notes={riskNotes.filter(note => note.scope === 'recipes')} /></div>}
+                {!recipesUnlocked && (
+                  <div className="mb-6 space-y-3">
+                    <p className="text-sm font-semibold text-gray-700 dark:text-slate-300">{t('checklistRecipesLocked')}</p>
+                    <SafetyChecklistPanel entry={result} onChange={onChecklistChange} />
+                  </div>
+                )}
+                {recipesUnlocked && allowedRecipes.map((recipe, i) => (
                   <div key={i} className="mb-6 p-4 border border-gray-200 dark:border-slate-700 rounded-lg bg-gray-50 dark:bg-slate-900/50">
                     <div className="flex justify-between items-center mb-2">
                         <h4 className="font-bold text-lg text-stone-800 dark:text-amber-300 break-words">{recipe.nombre}</h4>
@@ -576,12 +1026,48 @@ const ResultCard: React.FC<ResultCardProps> = ({ result, onReset, isInCollection
                     <div className="mb-3"><h5 className="font-semibold text-gray-700 dark:text-slate-300">{t('instructions')}:</h5><p className="text-gray-600 dark:text-slate-400 break-words">{recipe.instrucciones}</p></div>
                   </div>
                 ))}
+                {refusedRecipes.length > 0 && (
+                  <div className="p-4 bg-orange-50 dark:bg-orange-900/40 border-l-4 border-orange-500 dark:border-orange-600 rounded-r-lg" role="note">
+                    <h4 className="font-bold text-orange-800 dark:text-orange-200">{t('recipesRefusedTitle')}</h4>
+                    <ul className="mt-2 space-y-1 text-sm text-orange-800 dark:text-orange-300">
+                      {refusedRecipes.map(({ recipe, violations }, i) => <li key={i} className="break-words"><span className="font-semibold">{recipe.nombre}:</span> {violations.map(violation => t(`recipeViolation_${violation}`)).join(' · ')}</li>)}
+                    </ul>
+                  </div>
+                )}
               </Section>
               )}
+              {alternativeCandidates && alternativeCandidates.length > 0 && (
+                <Section title={t('otherCandidates')} icon="compare">
+                    <div className="space-y-3">
+                        {chosenCandidate && <CandidateCard candidate={chosenCandidate} rank={1} highlight action={<span className="flex-shrink-0 px-2.5 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-300">{t('chosenCandidate')}</span>} />}
+                        {alternativeCandidates.map((candidate, i) => <CandidateCard key={candidate.nombreCientifico} candidate={candidate} rank={i + (chosenCandidate ? 2 : 1)} />)}
+                    </div>
+                </Section>
+              )}
+              {identificationKey && identificationKey.length > 0 && (
+                <Section title={t('keyTrailTitle')} icon="help">
+                    <p className="mb-3 text-sm text-gray-500 dark:text-slate-400">{t('keyTrailDescription')}</p>
+                    <KeyTrail trail={identificationKey} />
+                </Section>
+              )}
               {sources.length > 0 && (<Section title={t('sources')} icon="link"><ul className="space-y-2">{sources.map((source, i) => (<li key={i}><a href={source.uri} target="_blank" rel="noopener noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline hover:text-blue-800 dark:hover:text-blue-300 transition-colors flex items-start gap-2"><span className="flex-shrink-0 pt-1"><Icon name="link" className="w-4 h-4" /></span><span className="truncate">{source.title}</span></a></li>))}</ul></Section>)}
             </div>
+            {/* Kept outside <Section>: sections are re-created on every render, which would drop a question in flight. */}
+            {onConversationChange && !streaming && (
+              <div className="mt-6 border-t border-amber-200 dark:border-stone-800 pt-6">
+                <div className="flex items-center mb-4">
+                    <Icon name="chat" className="w-7 h-7 text-amber-700 dark:text-amber-400 mr-3 flex-shrink-0" />
+                    <h3 className="text-xl font-bold text-stone-900 dark:text-amber-200">{t('followUpTitle')}</h3>
+                </div>
+                <FollowUpChat
+                    context={{ mushroomInfo, sources, difficulty, photos: (sourcePhotos || []).filter(photo => photo.src.startsWith('data:')).map(photo => dataUrlToPhotoInput(photo.src, photo.view)) }}
+                    conversation={conversation || []}
+                    onConversationChange={onConversationChange}
+                />
+              </div>
+            )}
         </div>
-        <div className="p-6 bg-gray-50 dark:bg-slate-900/50 text-center"><button onClick={() => { onReset(); triggerHapticFeedback(); }} className="hide-on-export px-8 py-3 bg-amber-600 text-white font-semibold rounded-lg shadow-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-transform transform hover:scale-105">{t('anotherQuery')}</button></div>
+        {!streaming && <div className="p-6 bg-gray-50 dark:bg-slate-900/50 text-center"><button onClick={() => { onReset(); triggerHapticFeedback(); }} className="hide-on-export px-8 py-3 bg-amber-600 text-white font-semibold rounded-lg shadow-md hover:bg-amber-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-transform transform hover:scale-105">{t('anotherQuery')}</button></div>}
     </div>
     </>
   );
@@ -603,7 +1089,7 @@ const HistoryModal: React.FC<{ isOpen: boolean; onClose: () => void; history: Hi
   );
 };
 
-const CollectionModal: React.FC<{ isOpen: boolean; onClose: () => void; collection: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onRemoveItem: (id: string) => void; onExport: () => void; sortOrder: string; onSortOrderChange: (e: React.ChangeEvent<HTMLSelectElement>) => void; nameFilter: string; onNameFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; onStartCompare: (item: HistoryEntry) => void; }> = ({ isOpen, onClose, collection, onSelectItem, onRemoveItem, onExport, sortOrder, onSortOrderChange, nameFilter, onNameFilterChange, onStartCompare }) => {
+const CollectionModal: React.FC<{ isOpen: boolean; onClose: () => void; collection: HistoryEntry[]; onSelectItem: (item: HistoryEntry) => void; onRemoveItem: (id: string) => void; onExport: () => void; sortOrder: string; onSortOrderChange: (e: React.ChangeEvent<HTMLSelectElement>) => void; nameFilter: string; onNameFilterChange: (e: React.ChangeEvent<HTMLInputElement>) => void; onStartCompare: (item: HistoryEntry) => void; onOpenBackup: () => void; onOpenImport: () => void; onOpenObservationExport: () => void; }> = ({ isOpen, onClose, collection, onSelectItem, onRemoveItem, onExport, sortOrder, onSortOrderChange, nameFilter, onNameFilterChange, onStartCompare, onOpenBackup, onOpenImport, onOpenObservationExport }) => {
   const { t } = useLanguage();
   if (!isOpen) return null;
   return (
@@ -619,7 +1105,12 @@ const CollectionModal: React.FC<{ isOpen: boolean; onClose: () => void; collecti
         <div className="overflow-y-auto p-2 flex-grow">
           {collection.length > 0 ? (<ul>{collection.map((item) => { const title = item.mushroomInfo?.nombreComun || '...'; return (<li key={item.id} className="p-2 flex items-center gap-2 group"><button onClick={() => { onSelectItem(item); triggerHapticFeedback(); }} className="w-full text-left flex items-center gap-4 rounded-lg hover:bg-amber-50 dark:hover:bg-stone-900/50 transition-colors p-2 flex-grow"><img src={item.imageSrc} alt={title} className="w-16 h-16 object-cover rounded-md shadow-sm flex-shrink-0" /><div className="flex-grow"><p className="font-semibold text-stone-800 dark:text-amber-300 flex items-center gap-2"><Icon name="mushroom" className="w-4 h-4 text-gray-400 dark:text-slate-500" /> {title}</p><p className="text-sm text-gray-500 dark:text-slate-400">{new Date(item.timestamp).toLocaleDateString()}</p></div></button><button onClick={(e) => { e.stopPropagation(); onStartCompare(item); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-blue-100 dark:hover:bg-blue-900/50 hover:text-blue-600 dark:hover:text-blue-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('compare')}><Icon name="compare" className="w-5 h-5" /></button><button onClick={(e) => { e.stopPropagation(); onRemoveItem(item.id); triggerHapticFeedback(); }} className="p-2 rounded-full text-gray-400 dark:text-slate-500 hover:bg-red-100 dark:hover:bg-red-900/50 hover:text-red-600 dark:hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100 flex-shrink-0" aria-label={t('removeFromCollection')}><Icon name="trash" className="w-5 h-5" /></button></li>);})}</ul>) : (<div className="text-center p-10"><Icon name="book" className="w-16 h-16 text-gray-300 dark:text-slate-600 mx-auto mb-4" /><p className="text-gray-500 dark:text-slate-400">{t('noCollection')}</p></div>)}
         </div>
-        {collection.length > 0 && (<div className="p-4 border-t border-gray-200 dark:border-slate-700 text-right flex-shrink-0"><button onClick={() => { onExport(); triggerHapticFeedback(); }} className="px-4 py-2 bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/80 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">{t('exportToJson')}</button></div>)}
+        <div className="p-4 border-t border-gray-200 dark:border-slate-700 flex-shrink-0 flex flex-wrap justify-end gap-2">
+          <button onClick={onOpenBackup} className="px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2">{t('backupTitle')}</button>
+          <button onClick={onOpenImport} className="px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-200 dark:hover:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2">{t('importTitle')}</button>
+          {collection.length > 0 && <button onClick={() => { onExport(); triggerHapticFeedback(); }} className="px-4 py-2 bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/80 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">{t('exportToJson')}</button>}
+          {collection.length > 0 && <button onClick={onOpenObservationExport} className="px-4 py-2 bg-blue-50 dark:bg-blue-900/50 text-blue-700 dark:text-blue-300 font-semibold rounded-lg hover:bg-blue-100 dark:hover:bg-blue-900/80 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2">{t('observationExportTitle')}</button>}
+        </div>
       </div>
     </div>
   );
@@ -749,23 +1240,43 @@ const FieldDiaryModal: React.FC<FieldDiaryModalProps> = ({ isOpen, onClose, onSa
 
 function App() {
   const [view, setView] = useState<AppView>('main');
-  const [image, setImage] = useState<{ file: File; src: string; mimeType: string; } | null>(null);
+  const [images, setImages] = useState<StagedPhoto[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // The partial result shown while an identification streams in.
+  const [streamingResult, setStreamingResult] = useState<{ entry: HistoryEntry; streaming: StreamingState } | null>(null);
   const [isTextSearching, setIsTextSearching] = useState(false);
+  // Controller of the identification in flight, so the loader can cancel it.
+  const activeRequestRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentResult, setCurrentResult] = useState<HistoryEntry | null>(null);
+  const [pendingIdentification, setPendingIdentification] = useState<{ photos: PhotoInput[]; sourcePhotos: SourcePhoto[]; imageSrc: string; location: { latitude: number; longitude: number } | null; candidates: IdentificationCandidate[]; keyTrail: KeyAnswer[]; keyQuestion: KeyQuestion | null; keyOpen: boolean; } | null>(null);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [collection, setCollection] = useState<HistoryEntry[]>([]);
+  // The lists as last saved, for updates that must not work from a stale render (e.g. after an await).
+  const historyRef = useRef<HistoryEntry[]>([]);
+  const collectionRef = useRef<HistoryEntry[]>([]);
+  // Nothing is written before the stored lists are loaded, or a save would replace them with what little is in memory.
+  const storageLoadedRef = useRef(false);
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [isCollectionOpen, setIsCollectionOpen] = useState(false);
   const [isManualOpen, setIsManualOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isObservationExportOpen, setIsObservationExportOpen] = useState(false);
+  // Open while set; entryId is the result the emergency was raised from (null from the home screen).
+  const [emergency, setEmergency] = useState<{ entryId: string | null } | null>(null);
+  const [isSymptomCheckerOpen, setIsSymptomCheckerOpen] = useState(false);
+  const [openToxinId, setOpenToxinId] = useState<string | null>(null);
   const [comparisonMushrooms, setComparisonMushrooms] = useState<{ mushroomA: HistoryEntry | null, mushroomB: HistoryEntry | null }>({ mushroomA: null, mushroomB: null });
   const [comparisonResult, setComparisonResult] = useState<ComparisonInfo | null>(null);
   const [notification, setNotification] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null); // error code of the last failed load or save
   const [isFieldDiaryOpen, setIsFieldDiaryOpen] = useState(false);
   const [editingDiaryEntry, setEditingDiaryEntry] = useState<HistoryEntry | null>(null);
   const [difficultyLevel, setDifficultyLevel] = useState<DifficultyLevel>('Intermediate');
   const [imageQuality, setImageQuality] = useState<ImageQuality>('Standard');
+  const [riskProfile, setRiskProfile] = useState<RiskProfile>(loadRiskProfile);
 
   const { t, language, setLanguage } = useLanguage();
   const { theme, toggleTheme } = useTheme();
@@ -776,11 +1287,27 @@ function App() {
   const [hasApiKey, setHasApiKey] = useState(false);
 
   useEffect(() => {
+    // History and collection come from IndexedDB, migrated from localStorage on the first run.
+    loadEntries()
+        .then(stored => {
+            storageLoadedRef.current = true;
+            // Anything saved while the load was running is kept on top of what was stored.
+            const merge = (loaded: HistoryEntry[], pending: HistoryEntry[]) => [...pending.filter(entry => !loaded.some(e => e.id === entry.id)), ...loaded];
+            const loadedHistory = merge(stored.history, historyRef.current);
+            const loadedCollection = merge(stored.collection, collectionRef.current);
+            if (loadedHistory.length > stored.history.length) saveHistory(loadedHistory);
+            else { historyRef.current = loadedHistory; setHistory(loadedHistory); }
+            if (loadedCollection.length > stored.collection.length) saveCollection(loadedCollection);
+            else { collectionRef.current = loadedCollection; setCollection(loadedCollection); }
+            if (stored.quarantined > 0) setNotification(t('storageQuarantined', { count: stored.quarantined }));
+            else if (stored.newer > 0) setNotification(t('storageNewerEntries', { count: stored.newer }));
+        })
+        .catch(e => {
+            // Saves stay off for the session (storageLoadedRef), which the load error message tells the user.
+            console.error("Failed to load the history and collection.", e);
+            setStorageError(e?.message === 'STORAGE_UNAVAILABLE' ? e.message : 'STORAGE_LOAD_FAILED');
+        });
     try {
-        const storedHistory = localStorage.getItem('mushroomHistory');
-        if (storedHistory) setHistory(JSON.parse(storedHistory));
-        const storedCollection = localStorage.getItem('mushroomCollection');
-        if (storedCollection) setCollection(JSON.parse(storedCollection));
         const storedQuality = localStorage.getItem('mushroomImageQuality');
         if (storedQuality === 'Standard' || storedQuality === 'High') setImageQuality(storedQuality);
     } catch (e) {
@@ -792,8 +1319,15 @@ function App() {
     localStorage.setItem('mushroomImageQuality', imageQuality);
   }, [imageQuality]);
 
+  const handleRiskProfileChange = (profile: RiskProfile) => { setRiskProfile(profile); saveRiskProfile(profile); };
+
   useEffect(() => {
       const checkApiKey = async () => {
+          // The offline mock provider never talks to Gemini, so no key is required.
+          if (getActiveProviderId() === 'mock') {
+              setHasApiKey(true);
+              return;
+          }
           const win = window as any;
           // Robust check for AI Studio environment
           if (win.aistudio && typeof win.aistudio.hasSelectedApiKey === 'function') {
@@ -816,12 +1350,26 @@ function App() {
       checkApiKey();
   }, []);
 
-  const saveHistory = (newHistory: HistoryEntry[]) => { const sorted = newHistory.sort((a, b) => b.timestamp - a.timestamp); setHistory(sorted); localStorage.setItem('mushroomHistory', JSON.stringify(sorted)); };
-  const saveCollection = (newCollection: HistoryEntry[]) => { setCollection(newCollection); localStorage.setItem('mushroomCollection', JSON.stringify(newCollection)); };
+  const handleStorageError = (e: any) => { console.error("Failed to save to storage.", e); setStorageError(e?.message || 'STORAGE_WRITE_FAILED'); };
+  const saveHistory = (newHistory: HistoryEntry[]) => { const sorted = newHistory.sort((a, b) => b.timestamp - a.timestamp); historyRef.current = sorted; setHistory(sorted); if (storageLoadedRef.current) saveEntries('history', sorted).catch(handleStorageError); };
+  const saveCollection = (newCollection: HistoryEntry[]) => { collectionRef.current = newCollection; setCollection(newCollection); if (storageLoadedRef.current) saveEntries('collection', newCollection).catch(handleStorageError); };
+
+  // Applies `changes` to an entry wherever it is stored, starting from the latest saved lists.
+  const updateStoredEntry = (id: string, changes: Partial<HistoryEntry>) => {
+      setCurrentResult(prev => prev && prev.id === id ? { ...prev, ...changes } : prev);
+      saveHistory(historyRef.current.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+      if (collectionRef.current.some(entry => entry.id === id)) {
+          saveCollection(collectionRef.current.map(entry => entry.id === id ? { ...entry, ...changes } : entry));
+      }
+  };
   
   const handleReset = useCallback(() => { 
-    setImage(null); 
+    activeRequestRef.current?.abort();
+    activeRequestRef.current = null;
+    setImages([]); 
     setCurrentResult(null); 
+    setStreamingResult(null);
+    setPendingIdentification(null);
     setError(null); 
     setIsLoading(false); 
     setIsTextSearching(false); 
@@ -832,6 +1380,8 @@ function App() {
 
   const processError = useCallback((err: any) => {
     const errorCode = err?.message || 'UNEXPECTED_ERROR';
+    // The user cancelled on purpose; there is nothing to report.
+    if (errorCode === 'CANCELLED') return;
     let displayMessage = '';
 
     switch (errorCode) {
@@ -847,6 +1397,9 @@ function App() {
         case 'NETWORK_ERROR':
             displayMessage = t('error_network');
             break;
+        case 'TIMEOUT':
+            displayMessage = t('error_timeout');
+            break;
         case 'INVALID_RESPONSE':
             displayMessage = t('error_invalidResponse');
             break;
@@ -863,9 +1416,70 @@ function App() {
     setError(displayMessage);
   }, [t]);
   
-  const handleImageSelect = useCallback((file: File) => { handleReset(); const src = URL.createObjectURL(file); setImage({ file, src, mimeType: file.type }); }, [handleReset]);
+  const handleImagesSelect = useCallback((files: File[]) => {
+    setError(null);
+    setImages(prev => {
+      const next = [...prev];
+      for (const file of files.slice(0, MAX_SOURCE_PHOTOS - prev.length)) {
+        next.push({ file, src: URL.createObjectURL(file), mimeType: file.type, view: getNextPhotoView(next.map(p => p.view)) });
+      }
+      return next;
+    });
+  }, []);
+  const handleChangePhotoView = (index: number, view: PhotoView) => setImages(prev => prev.map((p, i) => i === index ? { ...p, view } : p));
+  const handleRemovePhoto = (index: number) => setImages(prev => prev.filter((_, i) => i !== index));
   
-  const handleProcessResult = async (newEntry: HistoryEntry) => {
+  // Starts a cancellable request, aborting any previous one still in flight.
+  const startRequest = () => {
+    activeRequestRef.current?.abort();
+    const controller = new AbortController();
+    activeRequestRef.current = controller;
+    return controller;
+  };
+
+  // Clears the loading state, unless the request was cancelled or superseded (the newer state wins).
+  const finishRequest = (controller: AbortController, onFinish: () => void) => {
+    if (activeRequestRef.current !== controller) return;
+    activeRequestRef.current = null;
+    onFinish();
+  };
+
+  const handleCancelRequest = () => {
+    activeRequestRef.current?.abort();
+    activeRequestRef.current = null;
+    setIsLoading(false);
+    setIsTextSearching(false);
+    // A key question or candidate lookup in flight is one step of a pending identification: abort just that
+    // step and go back to the candidates, keeping them and the answers given so far.
+    if (pendingIdentification) {
+        setStreamingResult(null);
+        setPendingIdentification(prev => prev && { ...prev, keyOpen: false });
+        return;
+    }
+    if (view === 'main') handleReset();
+  };
+
+  // Builds the progress handler of a streaming request: each stage is merged into the partial result on screen.
+  const createProgressHandler = (controller: AbortController, base: Omit<HistoryEntry, 'mushroomInfo' | 'sources'>, initial: StreamingState) => (progress: IdentificationProgress) => {
+    if (activeRequestRef.current !== controller) return;
+    setStreamingResult(prev => {
+        const { entry, streaming } = prev ?? { entry: { ...base, sources: [] } as unknown as HistoryEntry, streaming: initial };
+        switch (progress.stage) {
+            case 'partial':
+                return { entry: { ...entry, mushroomInfo: progress.mushroomInfo, safety: progress.safety }, streaming: { ...streaming, receivedFields: progress.receivedFields } };
+            case 'info':
+                return { entry: { ...entry, mushroomInfo: progress.mushroomInfo, sources: progress.sources, validationIssues: progress.validationIssues, safety: progress.safety }, streaming: { ...streaming, receivedFields: null } };
+            case 'image':
+                return { entry: { ...entry, imageSrc: progress.imageSrc || getFallbackMushroomIcon() }, streaming: { ...streaming, imagePending: false } };
+            case 'map':
+                return { entry: { ...entry, mapaDistribucionSrc: progress.mapaDistribucionSrc ?? undefined }, streaming: { ...streaming, mapPending: false } };
+            case 'verifying':
+                return { entry, streaming: { ...streaming, verificationPending: true } };
+        }
+    });
+  };
+
+  const handleProcessResult = async (newEntry: HistoryEntry, signal?: AbortSignal) => {
     triggerHapticFeedback([100, 30, 100]);
     try {
         // Sanitize all images to prevent CORS issues
@@ -874,44 +1488,137 @@ function App() {
 
         const thumbImageSrc = await createThumbnail(cleanImageSrc);
         const thumbMapSrc = cleanMapSrc ? await createThumbnail(cleanMapSrc) : undefined;
+        const thumbSourcePhotos = newEntry.sourcePhotos ? await Promise.all(newEntry.sourcePhotos.map(async (photo) => ({ ...photo, src: await createThumbnail(photo.src) }))) : undefined;
         
+        // Never write a result to history once the request has been cancelled.
+        if (signal?.aborted) return;
         const finalEntry = { ...newEntry, imageSrc: cleanImageSrc, mapaDistribucionSrc: cleanMapSrc, difficulty: difficultyLevel };
-        const historyEntry = { ...newEntry, imageSrc: thumbImageSrc, mapaDistribucionSrc: thumbMapSrc, difficulty: difficultyLevel };
+        const historyEntry = { ...newEntry, imageSrc: thumbImageSrc, mapaDistribucionSrc: thumbMapSrc, sourcePhotos: thumbSourcePhotos, difficulty: difficultyLevel };
         
         setCurrentResult(finalEntry);
-        saveHistory([historyEntry, ...history].slice(0, 30));
+        // The list as saved now, not as rendered when the request started: the load may have finished since.
+        saveHistory([historyEntry, ...historyRef.current].slice(0, 30));
 
     } catch (error) {
         console.error("Error processing result images:", error);
+        if (signal?.aborted) return;
         setCurrentResult(newEntry);
-        saveHistory([newEntry, ...history].slice(0, 30));
+        saveHistory([newEntry, ...historyRef.current].slice(0, 30));
     }
   };
 
   const getLocation = (): Promise<{ latitude: number; longitude: number } | null> => new Promise((resolve) => { if (!navigator.geolocation) { resolve(null); } navigator.geolocation.getCurrentPosition( (position) => resolve({ latitude: position.coords.latitude, longitude: position.coords.longitude }), () => resolve(null), { timeout: 10000 } ); });
   
   const processImage = async () => {
-    if (!image) return;
-    setIsLoading(true); setIsTextSearching(false); setError(null); setCurrentResult(null);
+    if (images.length === 0) return;
+    const controller = startRequest();
+    setIsLoading(true); setIsTextSearching(false); setError(null); setCurrentResult(null); setPendingIdentification(null);
     try {
-        const base64Image = await fileToBase64(image.file);
-        const imageSrcDataUrl = await blobUrlToDataUrl(image.src);
+        // Downscale before sending: several full-resolution phone photos would exceed the request size limit.
+        const sourcePhotos: SourcePhoto[] = await Promise.all(images.map(async (img) => ({ view: img.view, src: await createThumbnail(await blobUrlToDataUrl(img.src), 1600) })));
+        const photos = sourcePhotos.map(photo => dataUrlToPhotoInput(photo.src, photo.view));
+        const primaryPhoto = sourcePhotos.find(photo => photo.view === 'cap') || sourcePhotos[0];
         const location = await getLocation();
-        const { mushroomInfo, sources, mapaDistribucionSrc, mapGenerationFailed } = await identifyMushroomFromImage(base64Image, image.mimeType, location, language, difficultyLevel, imageQuality);
-        
-        await handleProcessResult({ id: `${Date.now()}-${mushroomInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: imageSrcDataUrl, type: 'mushroom', mushroomInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined, mapGenerationFailed });
+        // First rank the plausible species; the full profile is fetched once the user picks one.
+        let candidates: IdentificationCandidate[];
+        let keyQuestion: KeyQuestion | null = null;
+        try {
+            candidates = await getCandidatesFromImage(photos, location, language, difficultyLevel, { signal: controller.signal });
+        } catch (err: any) {
+            if (err?.message !== 'IDENTIFY_FAILED') throw err;
+            // No species fits the photos well enough to rank: ask about the specimen instead of giving up.
+            ({ candidates, nextQuestion: keyQuestion } = await refineWithKey(photos, location, [], [], language, difficultyLevel, { signal: controller.signal }));
+        }
+        if (controller.signal.aborted) return;
+        setPendingIdentification({ photos, sourcePhotos, imageSrc: primaryPhoto.src, location, candidates, keyTrail: [], keyQuestion, keyOpen: !!keyQuestion });
+        triggerHapticFeedback([100, 30, 100]);
         
     } catch (err: any) {
         processError(err);
-    } finally { setIsLoading(false); setImage(null); }
+    } finally { finishRequest(controller, () => { setIsLoading(false); setImages([]); }); }
 };
 
-  const handleTextSearch = async (query: string) => {
+  // Runs one step of the identification key: the candidates are re-ranked with `trail` and the next question comes back.
+  const handleKeyStep = async (trail: KeyAnswer[]) => {
+    if (!pendingIdentification) return;
+    const { photos, location, candidates } = pendingIdentification;
+    const controller = startRequest();
+    setIsLoading(true); setError(null);
+    try {
+        const step = await refineWithKey(photos, location, candidates, trail, language, difficultyLevel, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+        setPendingIdentification(prev => prev && { ...prev, candidates: step.candidates.length > 0 ? step.candidates : prev.candidates, keyTrail: trail, keyQuestion: step.nextQuestion, keyOpen: true });
+    } catch (err: any) {
+        processError(err);
+    } finally { finishRequest(controller, () => setIsLoading(false)); }
+  };
+
+  const handleKeyAnswer = (answer: string) => {
+    if (!pendingIdentification?.keyQuestion) return;
+    handleKeyStep([...pendingIdentification.keyTrail, { ...pendingIdentification.keyQuestion, respuesta: answer }]);
+  };
+
+  // Stopping keeps the open question, so the key can be resumed from the candidate list without a new request.
+  const handleStopKey = () => setPendingIdentification(prev => prev && { ...prev, keyOpen: false });
+
+  const handleStartKey = () => {
+    if (!pendingIdentification) return;
+    if (pendingIdentification.keyQuestion) setPendingIdentification({ ...pendingIdentification, keyOpen: true });
+    else handleKeyStep(pendingIdentification.keyTrail);
+  };
+
+  const handleSelectCandidate = async (candidate: IdentificationCandidate) => {
+    if (!pendingIdentification) return;
+    const { photos, sourcePhotos, imageSrc, location, candidates, keyTrail } = pendingIdentification;
+    const identificationKey = keyTrail.length > 0 ? keyTrail : undefined;
+    const controller = startRequest();
+    setIsLoading(true); setError(null);
+    const onProgress = createProgressHandler(
+        controller,
+        { id: 'streaming', timestamp: Date.now(), imageSrc, type: 'mushroom', chosenCandidate: candidate, alternativeCandidates: candidates.filter(c => c !== candidate), sourcePhotos, identificationKey },
+        { receivedFields: [], imagePending: false, mapPending: true },
+    );
+    try {
+        const { mushroomInfo, sources, validationIssues, mapaDistribucionSrc, mapGenerationFailed, answeredBy, safety, verification } = await identifyMushroomFromImage(photos, location, language, difficultyLevel, imageQuality, candidate, { signal: controller.signal, onProgress });
+        setPendingIdentification(null);
+        await handleProcessResult({
+            id: `${Date.now()}-${mushroomInfo.nombreCientifico}`,
+            timestamp: Date.now(),
+            imageSrc,
+            type: 'mushroom',
+            mushroomInfo,
+            sources,
+            validationIssues,
+            mapaDistribucionSrc: mapaDistribucionSrc ?? undefined,
+            mapGenerationFailed,
+            chosenCandidate: candidate,
+            alternativeCandidates: candidates.filter(c => c !== candidate),
+            sourcePhotos,
+            answeredBy,
+            identificationKey,
+            safety,
+            verification,
+        }, controller.signal);
+    } catch (err: any) {
+        // A cancelled lookup goes back to the candidates (see handleCancelRequest); only a real failure drops them.
+        if (controller.signal.aborted) return;
+        setPendingIdentification(null);
+        processError(err);
+    } finally { finishRequest(controller, () => { setIsLoading(false); setStreamingResult(null); }); }
+  };
+
+  const handleTextSearch = async (query: string, options: { forceRefresh?: boolean; difficulty?: DifficultyLevel } = {}) => {
     handleReset(); 
+    const controller = startRequest();
     setIsLoading(true); 
     setIsTextSearching(true);
+    const onProgress = createProgressHandler(
+        controller,
+        { id: 'streaming', timestamp: Date.now(), imageSrc: getFallbackMushroomIcon(), type: 'mushroom', textQuery: query, difficulty: options.difficulty },
+        { receivedFields: [], imagePending: true, mapPending: true },
+    );
     try {
-        const { mushroomInfo, sources, imageSrc, mapaDistribucionSrc, mainImageGenerationFailed, mapGenerationFailed } = await identifyMushroomFromText(query, language, difficultyLevel, imageQuality);
+        const { mushroomInfo, sources, validationIssues, imageSrc, mapaDistribucionSrc, mainImageGenerationFailed, mapGenerationFailed, answeredBy, cachedAt, safety } = await identifyMushroomFromText(query, language, options.difficulty || difficultyLevel, imageQuality, { forceRefresh: options.forceRefresh, signal: controller.signal, onProgress });
         
         // Use the fallback mushroom icon if image generation failed
         const finalImageSrc = imageSrc || getFallbackMushroomIcon();
@@ -923,13 +1630,24 @@ function App() {
             type: 'mushroom', 
             mushroomInfo, 
             sources, 
+            validationIssues,
             mapaDistribucionSrc: mapaDistribucionSrc ?? undefined,
             mainImageGenerationFailed,
-            mapGenerationFailed
-        });
+            mapGenerationFailed,
+            answeredBy,
+            textQuery: query,
+            cachedAt,
+            safety
+        }, controller.signal);
     } catch (err: any) {
         processError(err);
-    } finally { setIsLoading(false); setIsTextSearching(false); }
+    } finally { finishRequest(controller, () => { setIsLoading(false); setIsTextSearching(false); setStreamingResult(null); }); }
+  };
+
+  // Re-runs a text lookup bypassing the response cache, with the difficulty it was made with.
+  const handleRefreshResult = () => {
+      if (!currentResult?.textQuery) return;
+      handleTextSearch(currentResult.textQuery, { forceRefresh: true, difficulty: currentResult.difficulty });
   };
   
   const handleViewHistoryItem = (item: HistoryEntry) => { setCurrentResult(item); setIsHistoryOpen(false); setIsCollectionOpen(false); setView('main'); };
@@ -942,12 +1660,13 @@ function App() {
           saveCollection(collection.filter(entry => entry.id !== currentResult.id));
       } else {
            try {
-              const [thumbImageSrc, thumbMapSrc] = await Promise.all([
+              const [thumbImageSrc, thumbMapSrc, thumbSourcePhotos] = await Promise.all([
                   createThumbnail(currentResult.imageSrc),
-                  currentResult.mapaDistribucionSrc ? createThumbnail(currentResult.mapaDistribucionSrc) : Promise.resolve(undefined)
+                  currentResult.mapaDistribucionSrc ? createThumbnail(currentResult.mapaDistribucionSrc) : Promise.resolve(undefined),
+                  currentResult.sourcePhotos ? Promise.all(currentResult.sourcePhotos.map(async (photo) => ({ ...photo, src: await createThumbnail(photo.src, 800) }))) : Promise.resolve(undefined)
               ]);
-              const finalEntry = { ...currentResult, imageSrc: thumbImageSrc, mapaDistribucionSrc: thumbMapSrc };
-              saveCollection([finalEntry, ...collection]);
+              const finalEntry = { ...currentResult, imageSrc: thumbImageSrc, mapaDistribucionSrc: thumbMapSrc, sourcePhotos: thumbSourcePhotos };
+              saveCollection([finalEntry, ...collectionRef.current]);
               setNotification(t('savedToCollection'));
               // Open diary modal right after saving for the first time
               setEditingDiaryEntry(finalEntry);
@@ -955,7 +1674,7 @@ function App() {
 
           } catch (err: any) {
               console.error("Could not create thumbnail for collection:", err);
-              saveCollection([currentResult, ...collection]);
+              saveCollection([currentResult, ...collectionRef.current]);
               setNotification(t('savedToCollection'));
               setEditingDiaryEntry(currentResult);
               setIsFieldDiaryOpen(true);
@@ -963,6 +1682,17 @@ function App() {
       }
   };
 
+    // Follow-up chats are stored on the entry itself, in history and, if saved, in the collection.
+    // FollowUpChat reports the answer after awaiting the model, so this must not use the lists of the render it came from.
+    const handleConversationChange = (conversation: ChatMessage[]) => {
+        if (currentResult) updateStoredEntry(currentResult.id, { conversation });
+    };
+
+    // The pre-consumption checklist is stored the same way.
+    const handleChecklistChange = (safetyChecklist: SafetyChecklist) => {
+        if (currentResult) updateStoredEntry(currentResult.id, { safetyChecklist });
+    };
+
     const handleEditDiary = () => {
         if (currentResult) {
             // Find the latest version from the collection state
@@ -989,6 +1719,23 @@ function App() {
     };
 
 
+  const handleRestoreBackup = (restoredHistory: HistoryEntry[], restoredCollection: HistoryEntry[]) => {
+    saveHistory(restoredHistory);
+    saveCollection(restoredCollection);
+    setNotification(t('backupRestored'));
+  };
+
+  const handleImportCollection = (importedCollection: HistoryEntry[], count: number) => {
+    saveCollection(importedCollection);
+    setNotification(t('importDone', { count }));
+  };
+
+  const handleStorageCleanup = (cleanedHistory: HistoryEntry[], cleanedCollection: HistoryEntry[]) => {
+    saveHistory(cleanedHistory);
+    saveCollection(cleanedCollection);
+    setNotification(t('storageCleanupDone'));
+  };
+
   const handleRemoveFromCollection = (id: string) => saveCollection(collection.filter(entry => entry.id !== id));
   const handleCloseCollection = () => { setIsCollectionOpen(false); setCollectionNameFilter(''); setCollectionSortOrder('date-desc'); };
   const handleStartCompare = (mushroomEntry: HistoryEntry) => { setComparisonMushrooms({ mushroomA: mushroomEntry, mushroomB: null }); setComparisonResult(null); setCurrentResult(null); setError(null); setView('comparator'); setIsCollectionOpen(false); };
@@ -1008,6 +1755,12 @@ function App() {
       });
   }, [collection, collectionSortOrder, collectionNameFilter]);
 
+  // Everything the emergency screen and the symptom checker can point at: the open result, the collection and the history, once each.
+  const knownEntries = useMemo(() => {
+    const all = [...(currentResult ? [currentResult] : []), ...collection, ...history].filter(entry => entry.mushroomInfo);
+    return all.filter((entry, i) => all.findIndex(other => other.id === entry.id) === i);
+  }, [currentResult, collection, history]);
+
   const handleExportCollection = useCallback(() => {
     if (filteredAndSortedCollection.length === 0) { alert("The collection is empty or there are no results for the applied filters."); return; }
     const exportData = filteredAndSortedCollection.map(entry => ({ 
@@ -1020,7 +1773,13 @@ function App() {
             notes: entry.personalNotes,
             date: entry.findingDate,
             location: entry.location,
-            photosCount: entry.userPhotos?.length || 0
+            photosCount: entry.userPhotos?.length || 0,
+            safetyChecklist: getChecklistItems(entry).map(item => ({
+                check: item.check || 'lookalike',
+                lookalike: item.lookalike,
+                completedAt: item.completedAt ? new Date(item.completedAt).toISOString() : null,
+                expertName: item.check === 'expert' ? entry.safetyChecklist?.expertName : undefined,
+            }))
         }
     }));
     const jsonString = JSON.stringify(exportData, null, 2); 
@@ -1036,7 +1795,8 @@ function App() {
   }, [filteredAndSortedCollection]);
 
     const renderMainView = () => {
-        if (isLoading) return <Loader message={t('analyzing')} subMessage={t(isTextSearching ? 'textSearchLoadingSub' : 'loadingMessage')} />;
+        if (isLoading && streamingResult) return <ResultCard result={streamingResult.entry} streaming={streamingResult.streaming} onReset={handleCancelRequest} isInCollection={false} onToggleCollection={() => {}} onEditDiary={() => {}} difficulty={streamingResult.entry.difficulty || difficultyLevel} riskProfile={riskProfile} />;
+        if (isLoading) return <Loader message={t('analyzing')} subMessage={t(isTextSearching ? 'textSearchLoadingSub' : 'loadingMessage')} onCancel={handleCancelRequest} />;
         if (error) return (
         <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md w-full">
             <Icon name="cross" className="w-16 h-16 text-red-500 mx-auto mb-4" /><h3 className="text-xl font-bold text-red-800 dark:text-red-300 mb-2">{t('errorTitle')}</h3><p className="text-red-700 dark:text-red-200 bg-red-100 dark:bg-red-900/50 p-3 rounded-lg">{error}</p>
@@ -1048,19 +1808,26 @@ function App() {
             // Ensure the currentResult has the latest diary data from the collection
             const collectionVersion = collection.find(c => c.id === currentResult.id);
             const displayResult = collectionVersion || currentResult;
-            return <ResultCard result={displayResult} onReset={handleReset} isInCollection={isInCollection} onToggleCollection={handleToggleCollection} onStartCompare={() => handleStartCompare(currentResult)} onEditDiary={handleEditDiary} difficulty={displayResult.difficulty || 'Intermediate'} />;
+            return <ResultCard result={displayResult} onReset={handleReset} isInCollection={isInCollection} onToggleCollection={handleToggleCollection} onStartCompare={() => handleStartCompare(currentResult)} onEditDiary={handleEditDiary} onRefresh={displayResult.textQuery ? handleRefreshResult : undefined} onConversationChange={handleConversationChange} onChecklistChange={handleChecklistChange} onOpenEmergency={() => setEmergency({ entryId: displayResult.id })} onOpenToxin={setOpenToxinId} difficulty={displayResult.difficulty || 'Intermediate'} riskProfile={riskProfile} />;
         }
-        if (image) return (
-        <div className="text-center p-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm rounded-2xl shadow-lg max-w-md">
-            <img src={image.src} alt="Selected Mushroom" className="max-h-64 w-auto mx-auto rounded-lg shadow-md mb-6" /><h3 className="text-xl font-bold text-stone-900 dark:text-amber-200 mb-6">{t('readyToAnalyze')}</h3>
-            <div className="flex justify-center gap-4"><button onClick={() => { setImage(null); triggerHapticFeedback(); }} className="px-6 py-3 bg-white dark:bg-slate-700 text-gray-700 dark:text-slate-300 font-semibold rounded-lg shadow-md border border-gray-300 dark:border-slate-600 hover:bg-gray-100 dark:hover:bg-slate-600">{t('changePhoto')}</button><button onClick={() => { processImage(); triggerHapticFeedback(); }} className="px-6 py-3 bg-amber-600 text-white font-semibold rounded-lg shadow-md hover:bg-amber-700">{t('analyze')}</button></div>
-        </div>
+        if (pendingIdentification?.keyOpen && pendingIdentification.keyQuestion) return <IdentificationKeyPanel question={pendingIdentification.keyQuestion} trail={pendingIdentification.keyTrail} imageSrc={pendingIdentification.imageSrc} onAnswer={handleKeyAnswer} onStop={handleStopKey} />;
+        if (pendingIdentification) return <CandidateList candidates={pendingIdentification.candidates} imageSrc={pendingIdentification.imageSrc} keyTrail={pendingIdentification.keyTrail} hasOpenKeyQuestion={!!pendingIdentification.keyQuestion} onSelect={handleSelectCandidate} onStartKey={handleStartKey} onCancel={handleReset} />;
+        if (images.length > 0) return (
+            <PhotoSetReview
+              photos={images}
+              onAddPhotos={handleImagesSelect}
+              onChangeView={handleChangePhotoView}
+              onRemovePhoto={handleRemovePhoto}
+              onClear={() => setImages([])}
+              onAnalyze={processImage}
+              onError={(errorCode) => processError(new Error(errorCode))}
+            />
         );
         
         return (
         <div className="flex flex-col items-center gap-4">
             <MainInput 
-              onImageSelect={handleImageSelect} 
+              onImagesSelect={handleImagesSelect} 
               isLoading={isLoading} 
               onTextSearch={handleTextSearch} 
               onError={(errorCode) => processError(new Error(errorCode))}
@@ -1070,12 +1837,24 @@ function App() {
               onImageQualityChange={setImageQuality}
             />
             <div className="flex flex-wrap justify-center items-center gap-4 mt-4">
+                <button onClick={() => { setEmergency({ entryId: null }); triggerHapticFeedback([100, 50, 100]); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 bg-red-600 text-white font-semibold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition-colors">
+                    <Icon name="cross" className="w-5 h-5" />
+                    {t('emergencyButton')}
+                </button>
+                <button onClick={() => { setIsSymptomCheckerOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60">
+                    <Icon name="search" className="w-5 h-5" />
+                    {t('symptomCheckerButton')}
+                </button>
                 {history.length > 0 && <button onClick={() => { setIsHistoryOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="history" className="w-5 h-5" />{t('history')}</button>}
                 {collection.length > 0 && <button onClick={() => { setIsCollectionOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60"><Icon name="book" className="w-5 h-5" />{t('myCollection')}</button>}
                 <button onClick={() => { setIsManualOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60">
                     <Icon name="help" className="w-5 h-5" />
                     {t('appManual')}
                 </button>
+                <button onClick={() => { setIsSettingsOpen(true); triggerHapticFeedback(); }} className="inline-flex items-center justify-center gap-2 px-6 py-2 text-gray-700 dark:text-slate-300 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700 focus:outline-none focus:ring-2 focus:ring-amber-500 focus:ring-offset-2 transition-colors bg-white/60 dark:bg-slate-800/60">
+                    <Icon name="cog" className="w-5 h-5" />
+                    {t('settings')}
+                </button>
             </div>
         </div>
         );
@@ -1086,22 +1865,24 @@ function App() {
         if (!mushroomA || !mushroomA.mushroomInfo) return (<div>Error: source mushroom not selected.<button onClick={handleReset}>Go Back</button></div>);
 
         const handleComparisonSearch = async (query: string) => {
+            const controller = startRequest();
             setIsLoading(true); setError(null); setComparisonResult(null);
             try {
-                const { mushroomInfo, sources, imageSrc, mapaDistribucionSrc } = await identifyMushroomFromText(query, language, 'Intermediate', 'Standard');
+                const { mushroomInfo, sources, imageSrc, mapaDistribucionSrc, answeredBy } = await identifyMushroomFromText(query, language, 'Intermediate', 'Standard', { signal: controller.signal });
                 const finalImageSrc = imageSrc || getFallbackMushroomIcon();
-                setComparisonMushrooms(prev => ({ ...prev, mushroomB: { id: `${Date.now()}-${mushroomInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: finalImageSrc, type: 'mushroom', mushroomInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined } }));
-            } catch (err: any) { processError(err); } finally { setIsLoading(false); }
+                setComparisonMushrooms(prev => ({ ...prev, mushroomB: { id: `${Date.now()}-${mushroomInfo.nombreCientifico}`, timestamp: Date.now(), imageSrc: finalImageSrc, type: 'mushroom', mushroomInfo, sources, mapaDistribucionSrc: mapaDistribucionSrc ?? undefined, answeredBy } }));
+            } catch (err: any) { processError(err); } finally { finishRequest(controller, () => setIsLoading(false)); }
         };
 
         const handleGenerateComparison = async () => {
             if (!comparisonMushrooms.mushroomA?.mushroomInfo || !comparisonMushrooms.mushroomB?.mushroomInfo) return;
+            const controller = startRequest();
             setIsLoading(true); setError(null); setComparisonResult(null);
             try {
-                const result = await compareMushrooms(comparisonMushrooms.mushroomA.mushroomInfo, comparisonMushrooms.mushroomB.mushroomInfo, language);
+                const result = await compareMushrooms(comparisonMushrooms.mushroomA.mushroomInfo, comparisonMushrooms.mushroomB.mushroomInfo, language, { signal: controller.signal });
                 setComparisonResult(result);
                 triggerHapticFeedback([100, 30, 100]);
-            } catch (err: any) { processError(err); } finally { setIsLoading(false); }
+            } catch (err: any) { processError(err); } finally { finishRequest(controller, () => setIsLoading(false)); }
         }
 
         const getToxicityBadge = (level: string) => {
@@ -1125,7 +1906,7 @@ function App() {
                     <div className="p-4 border border-gray-200 dark:border-slate-700 rounded-lg">{comparisonMushrooms.mushroomB ? (<div className="text-center"><img src={comparisonMushrooms.mushroomB.imageSrc} alt={comparisonMushrooms.mushroomB.mushroomInfo?.nombreComun} className="w-32 h-32 object-cover rounded-full mx-auto mb-4 shadow-lg" /><h3 className="font-bold text-xl text-stone-800 dark:text-amber-300">{comparisonMushrooms.mushroomB.mushroomInfo?.nombreComun}</h3><p className="text-sm italic text-gray-500 dark:text-slate-400">{comparisonMushrooms.mushroomB.mushroomInfo?.nombreCientifico}</p></div>) : (<div className="text-center"><h3 className="font-bold text-xl mb-4 text-gray-700 dark:text-slate-300">{t('selectMushroomB')}</h3><SearchInput onSearch={handleComparisonSearch} isLoading={isLoading} /></div>)}</div>
                 </div>
                 <div className="text-center mb-8"><button onClick={() => { handleGenerateComparison(); triggerHapticFeedback(); }} disabled={!comparisonMushrooms.mushroomB || isLoading} className="px-8 py-4 bg-amber-600 text-white font-bold text-lg rounded-lg shadow-lg hover:bg-amber-700 disabled:bg-gray-400 disabled:cursor-not-allowed transition-transform transform hover:scale-105"><div className="flex items-center gap-3"><Icon name="compare" className="w-6 h-6" /><span>{isLoading && !comparisonResult ? t('generating') : t('generateComparison')}</span></div></button></div>
-                {isLoading && !comparisonResult && <Loader message={t('generatingComparison')} subMessage="" />}
+                {isLoading && !comparisonResult && <Loader message={t('generatingComparison')} subMessage="" onCancel={handleCancelRequest} />}
                 {error && <p className="text-red-500 text-center p-4 bg-red-100 dark:bg-red-900/50 rounded-lg">{error}</p>}
                 {comparisonResult && (
                     <div className="space-y-6 mt-8 border-t border-gray-200 dark:border-slate-700 pt-8">
@@ -1133,6 +1914,12 @@ function App() {
                             <h3 className="text-2xl font-bold mb-4 text-center">{t('comparativeAnalysis')}</h3>
                             <p className="mb-6 bg-stone-50 dark:bg-stone-900/40 p-4 rounded-lg text-gray-700 dark:text-slate-300">{comparisonResult.resumenComparativo}</p>
                         </div>
+                        {comparisonResult.safety && (
+                            <div className="space-y-2">
+                                <SafetyRulesBanner safety={comparisonResult.safety.mushroomA} level={comparisonResult.toxicidad.nivelHongoA} />
+                                <SafetyRulesBanner safety={comparisonResult.safety.mushroomB} level={comparisonResult.toxicidad.nivelHongoB} />
+                            </div>
+                        )}
                         
                         <div className="p-4 border border-gray-200 dark:border-slate-700 rounded-lg">
                             <h4 className="font-bold text-lg mb-3 flex items-center gap-2"><Icon name="utensils" className="w-5 h-5 text-amber-600 dark:text-amber-500" />{t('culinaryUses')}</h4>
@@ -1203,6 +1990,7 @@ function App() {
   return (
     <main className="min-h-screen w-full bg-gradient-to-br from-stone-200 via-amber-100 to-orange-100 dark:from-slate-900 dark:via-stone-900 dark:to-amber-950 flex flex-col items-center justify-center p-4 overflow-y-auto relative">
       {notification && <Notification message={notification} onClose={() => setNotification(null)} />}
+      {storageError && <StorageErrorBanner code={storageError} onClose={() => setStorageError(null)} />}
       <div className="absolute top-4 right-4 z-10 flex items-center gap-2">
         <div className="flex items-center bg-white/60 dark:bg-slate-800/60 rounded-full shadow-md">
           <button onClick={() => { setLanguage('es'); triggerHapticFeedback(); }} className={`px-3 py-1 text-sm font-semibold rounded-full transition-colors ${language === 'es' ? 'bg-amber-600 text-white' : 'text-gray-700 dark:text-slate-300'}`}>ES</button>
@@ -1217,8 +2005,15 @@ function App() {
         </button>
       </div>
       <HistoryModal isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} history={history} onSelectItem={handleViewHistoryItem} onClearHistory={() => saveHistory([])} />
-      <CollectionModal isOpen={isCollectionOpen} onClose={handleCloseCollection} collection={filteredAndSortedCollection} onSelectItem={handleViewHistoryItem} onRemoveItem={handleRemoveFromCollection} onExport={handleExportCollection} sortOrder={collectionSortOrder} onSortOrderChange={(e) => setCollectionSortOrder(e.target.value)} nameFilter={collectionNameFilter} onNameFilterChange={(e) => setCollectionNameFilter(e.target.value)} onStartCompare={handleStartCompare} />
+      <CollectionModal isOpen={isCollectionOpen} onClose={handleCloseCollection} collection={filteredAndSortedCollection} onSelectItem={handleViewHistoryItem} onRemoveItem={handleRemoveFromCollection} onExport={handleExportCollection} sortOrder={collectionSortOrder} onSortOrderChange={(e) => setCollectionSortOrder(e.target.value)} nameFilter={collectionNameFilter} onNameFilterChange={(e) => setCollectionNameFilter(e.target.value)} onStartCompare={handleStartCompare} onOpenBackup={() => setIsBackupOpen(true)} onOpenImport={() => setIsImportOpen(true)} onOpenObservationExport={() => setIsObservationExportOpen(true)} />
       <ManualModal isOpen={isManualOpen} onClose={() => setIsManualOpen(false)} />
+      <ObservationExportModal isOpen={isObservationExportOpen} onClose={() => setIsObservationExportOpen(false)} entries={filteredAndSortedCollection} />
+      <ImportModal isOpen={isImportOpen} onClose={() => setIsImportOpen(false)} collection={collection} onImport={handleImportCollection} />
+      <BackupModal isOpen={isBackupOpen} onClose={() => setIsBackupOpen(false)} history={history} collection={collection} onRestore={handleRestoreBackup} />
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} riskProfile={riskProfile} onRiskProfileChange={handleRiskProfileChange} history={history} collection={collection} onStorageCleanup={handleStorageCleanup} />
+      <EmergencyModal isOpen={!!emergency} onClose={() => setEmergency(null)} entries={knownEntries} initialEntryId={emergency?.entryId} />
+      <ToxinDetailModal toxinId={openToxinId} onClose={() => setOpenToxinId(null)} collection={collection} onSelectEntry={(entry) => { setOpenToxinId(null); handleViewHistoryItem(entry); }} />
+      <SymptomCheckerModal isOpen={isSymptomCheckerOpen} onClose={() => setIsSymptomCheckerOpen(false)} entries={knownEntries} onSelectEntry={(entry) => { setIsSymptomCheckerOpen(false); handleViewHistoryItem(entry); }} onOpenEmergency={() => { setIsSymptomCheckerOpen(false); setEmergency({ entryId: null }); }} />
       <FieldDiaryModal isOpen={isFieldDiaryOpen} onClose={() => setIsFieldDiaryOpen(false)} onSave={handleSaveDiary} entry={editingDiaryEntry} />
 
       {view === 'main' ? renderMainView() : renderComparatorView()}
@@ -0,0 +1,125 @@
+import React, { useRef, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { HistoryEntry } from '../types.ts';
+import { BackupContents, RestoreMode, createBackup, readBackup, findDuplicates, restoreEntries } from '../services/backup.ts';
+
+interface BackupModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  history: HistoryEntry[];
+  collection: HistoryEntry[];
+  onRestore: (history: HistoryEntry[], collection: HistoryEntry[]) => void;
+}
+
+const RESTORE_MODES: RestoreMode[] = ['mergeKeep', 'mergeOverwrite', 'replace'];
+
+export const BackupModal: React.FC<BackupModalProps> = ({ isOpen, onClose, history, collection, onRestore }) => {
+    const { t } = useLanguage();
+    const [isCreating, setIsCreating] = useState(false);
+    const [backup, setBackup] = useState<BackupContents | null>(null);
+    const [mode, setMode] = useState<RestoreMode>('mergeKeep');
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const handleClose = () => { setBackup(null); setError(null); setMode('mergeKeep'); onClose(); };
+
+    const handleCreate = () => {
+        setIsCreating(true);
+        // Let the spinner paint before the archive is built.
+        setTimeout(() => {
+            try {
+                const url = URL.createObjectURL(createBackup(history, collection));
+                const link = document.createElement('a');
+                link.href = url;
+                link.download = `mushroom_backup_${new Date().toISOString().split('T')[0]}.zip`;
+                document.body.appendChild(link);
+                link.click();
+                document.body.removeChild(link);
+                URL.revokeObjectURL(url);
+            } catch (e) {
+                console.error("Failed to create the backup.", e);
+                setError(t('backupCreateFailed'));
+            } finally {
+                setIsCreating(false);
+            }
+        }, 0);
+    };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        setBackup(null);
+        try {
+            setBackup(await readBackup(file));
+        } catch (e) {
+            console.error("Failed to read the backup.", e);
+            setError(t('backupInvalid'));
+        }
+    };
+
+    const handleRestore = () => {
+        if (!backup) return;
+        if (mode === 'replace' && !window.confirm(t('backupReplaceConfirm'))) return;
+        onRestore(restoreEntries(history, backup.history, mode), restoreEntries(collection, backup.collection, mode));
+        handleClose();
+    };
+
+    const duplicates = backup ? findDuplicates(collection, backup.collection).length + findDuplicates(history, backup.history).length : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={handleClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('backupTitle')}</h2>
+                    <button onClick={handleClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-8 text-slate-800 dark:text-slate-200">
+                    {error && <p className="p-3 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg" role="alert">{error}</p>}
+                    <section>
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('backupCreateTitle')}</h3>
+                        <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('backupCreateDescription', { collection: collection.length, history: history.length })}</p>
+                        <button onClick={handleCreate} disabled={isCreating || (collection.length === 0 && history.length === 0)} className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-amber-700 disabled:opacity-50">
+                            {isCreating ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="download" className="w-4 h-4" />}
+                            {t('backupCreateButton')}
+                        </button>
+                    </section>
+                    <section>
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('backupRestoreTitle')}</h3>
+                        <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('backupRestoreDescription')}</p>
+                        <input type="file" accept=".zip,application/zip" ref={fileInputRef} onChange={handleFile} className="hidden" />
+                        <button onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 text-sm font-semibold rounded-lg shadow-sm hover:bg-gray-200 dark:hover:bg-slate-600">
+                            <Icon name="upload" className="w-4 h-4" />{t('backupChooseFile')}
+                        </button>
+                        {backup && (
+                            <div className="mt-4 p-4 border border-gray-200 dark:border-slate-700 rounded-lg space-y-4">
+                                <div className="text-sm space-y-1">
+                                    {backup.exportedAt && <p>{t('backupExportedAt', { date: new Date(backup.exportedAt).toLocaleString() })}</p>}
+                                    <p>{t('backupContains', { collection: backup.collection.length, history: backup.history.length })}</p>
+                                    {duplicates > 0 && <p className="font-semibold text-amber-800 dark:text-amber-300">{t('backupDuplicates', { count: duplicates })}</p>}
+                                    {backup.skipped > 0 && <p className="text-orange-700 dark:text-orange-300">{t('backupSkipped', { count: backup.skipped })}</p>}
+                                </div>
+                                <fieldset className="space-y-2">
+                                    <legend className="font-semibold text-sm mb-1">{t('backupModeLabel')}</legend>
+                                    {RESTORE_MODES.map(option => (
+                                        <label key={option} className="flex items-start gap-3 text-sm cursor-pointer">
+                                            <input type="radio" name="restoreMode" checked={mode === option} onChange={() => setMode(option)} className="mt-0.5 accent-amber-600" />
+                                            <span><span className="font-semibold">{t(`backupMode_${option}`)}</span><span className="block text-gray-500 dark:text-slate-400">{t(`backupModeHint_${option}`)}</span></span>
+                                        </label>
+                                    ))}
+                                </fieldset>
+                                <button onClick={handleRestore} className={`px-4 py-2 text-white text-sm font-semibold rounded-lg shadow-sm ${mode === 'replace' ? 'bg-red-600 hover:bg-red-700' : 'bg-amber-600 hover:bg-amber-700'}`}>{t('backupRestoreButton')}</button>
+                            </div>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { HistoryEntry, IngestionLog } from '../types.ts';
+import { POISON_CONTROL_CENTRES, POISON_CONTROL_TABLE_VERSION, PoisonControlCentre, getPoisonControlCentre } from '../services/poisonControl.ts';
+import { createIngestionLog, loadIngestionLog, saveIngestionLog, clearIngestionLog, toLocalDateTime } from '../services/emergencyLog.ts';
+import { getSafetyRule } from '../services/safetyRules.ts';
+import { imageToDataUrl } from '../utils.ts';
+
+interface EmergencyModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[]; // history and collection, to pick the mushroom that was eaten
+  initialEntryId?: string | null; // set when opened from a result
+}
+
+type Translate = (key: string, replacements?: Record<string, string | number>) => string;
+
+// The original photo when there is one; a text lookup only has its reference illustration.
+const getEntryPhoto = (entry: HistoryEntry): string | undefined => entry.sourcePhotos?.[0]?.src || entry.userPhotos?.[0] || entry.imageSrc;
+
+const formatDateTime = (value: string) => value ? new Date(value).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' }) : '-';
+
+const formatElapsed = (from: string, t: Translate) => {
+    if (!from) return null;
+    const minutes = Math.floor((Date.now() - new Date(from).getTime()) / 60000);
+    if (Number.isNaN(minutes) || minutes < 0) return null;
+    return t('emergencyElapsed', { hours: Math.floor(minutes / 60), minutes: minutes % 60 });
+};
+
+/** Plain-text report shared with medical staff; the PDF prints the same lines. */
+const buildSummary = (log: IngestionLog, entry: HistoryEntry | undefined, centre: PoisonControlCentre | undefined, t: Translate, language: 'es' | 'en'): string[] => {
+    const lines = [
+        t('emergencyReportTitle'),
+        `${t('emergencyIngestedAt')}: ${formatDateTime(log.ingestedAt)}`,
+        `${t('emergencyAmount')}: ${log.amount || '-'}`,
+        `${t('emergencyWhoAte')}: ${log.whoAte || '-'}`,
+        '',
+    ];
+    if (entry) {
+        const { mushroomInfo, safety } = entry;
+        lines.push(
+            `${t('emergencySpecies')}: ${mushroomInfo.nombreComun} (${mushroomInfo.nombreCientifico})`,
+            `${t('toxicityLevel')}: ${t(`toxicityLevel_${mushroomInfo.toxicidad.nivelToxicidad}`)}`,
+        );
+        if (mushroomInfo.toxicidad.compuestosToxicos.length > 0) lines.push(`${t('toxicCompounds')}: ${mushroomInfo.toxicidad.compuestosToxicos.join(', ')}`);
+        safety?.matches.forEach(match => {
+            const rule = getSafetyRule(match.ruleId);
+            if (rule) lines.push(`${match.name}: ${rule.reason[language]} (${rule.toxins.join(', ')})`);
+        });
+        if (mushroomInfo.toxicidad.sintomas) lines.push(`${t('symptoms')}: ${mushroomInfo.toxicidad.sintomas}`);
+        if (mushroomInfo.toxicidad.primerosAuxilios) lines.push(`${t('firstAid')}: ${mushroomInfo.toxicidad.primerosAuxilios}`);
+        lines.push(t('emergencyIdentifiedBy', { source: entry.sourcePhotos?.length ? t('emergencyIdentifiedByPhoto') : t('emergencyIdentifiedByText') }));
+    } else {
+        lines.push(`${t('emergencySpecies')}: ${t('emergencyUnknownSpecies')}`);
+    }
+    lines.push('', `${t('emergencySymptomTimeline')}:`);
+    if (log.symptoms.length === 0) lines.push(`- ${t('emergencyNoSymptoms')}`);
+    log.symptoms.forEach(symptom => lines.push(`- ${formatDateTime(symptom.time)}: ${symptom.description}`));
+    if (centre) lines.push('', `${t('emergencyPoisonControl')} (${centre.regionName[language]}): ${centre.centre} ${centre.phone} · ${t('emergencyNumber')}: ${centre.emergency}`);
+    lines.push('', t('emergencyReportDisclaimer'));
+    return lines;
+};
+
+// The standard PDF fonts only cover Latin-1.
+const toPdfText = (text: string) => text.replace(/α/g, 'alpha').replace(/[^\x00-\xFF]/g, '');
+
+// The photo travels with the summary when the browser can share files; it is left out if it can't be read.
+const getPhotoFile = async (photo: string | undefined, fileName: string): Promise<File[]> => {
+    if (!photo) return [];
+    try {
+        const blob = await (await fetch(photo)).blob();
+        return [new File([blob], `${fileName}.${blob.type.split('/')[1]?.split('+')[0] || 'png'}`, { type: blob.type })];
+    } catch (e) {
+        console.error("Could not attach the photo to the summary.", e);
+        return [];
+    }
+};
+
+/** A single A4 page: the photo in the top-right corner and the summary text around it, cut off at the bottom margin. */
+const createPdf = async (lines: string[], photo: string | undefined, t: Translate) => {
+    const { jsPDF } = window.jspdf;
+    const doc = new jsPDF({ orientation: 'p', unit: 'pt', format: 'a4' });
+    const margin = 40, pageWidth = 595, bottom = 842 - margin, photoSize = 150;
+    let photoAdded = false;
+    if (photo) {
+        try {
+            const png = await imageToDataUrl(photo);
+            if (png.startsWith('data:image/png')) {
+                doc.addImage(png, 'PNG', pageWidth - margin - photoSize, margin, photoSize, photoSize);
+                photoAdded = true;
+            }
+        } catch (e) {
+            console.error("Could not add the photo to the emergency report.", e);
+        }
+    }
+    const [title, ...body] = lines;
+    let y = margin + 14;
+    doc.setFont('helvetica', 'bold'); doc.setFontSize(16);
+    doc.text(toPdfText(title), margin, y);
+    y += 24;
+    doc.setFont('helvetica', 'normal'); doc.setFontSize(10);
+    for (const line of body) {
+        const width = (photoAdded && y < margin + photoSize + 10 ? pageWidth - 2 * margin - photoSize - 10 : pageWidth - 2 * margin);
+        const wrapped: string[] = line ? doc.splitTextToSize(toPdfText(line), width) : [''];
+        for (const part of wrapped) {
+            if (y > bottom - 24) {
+                doc.text(toPdfText(t('emergencyReportTruncated')), margin, bottom);
+                return doc;
+            }
+            doc.text(part, margin, y);
+            y += line ? 13 : 8;
+        }
+    }
+    doc.setFontSize(8);
+    doc.text(toPdfText(`${new Date().toLocaleString()} · ${t('appName')} · ${t('emergencyTableVersion', { version: POISON_CONTROL_TABLE_VERSION })}`), margin, bottom);
+    return doc;
+};
+
+export const EmergencyModal: React.FC<EmergencyModalProps> = ({ isOpen, onClose, entries, initialEntryId }) => {
+    const { t, language } = useLanguage();
+    const [log, setLog] = useState<IngestionLog | null>(null);
+    const [symptomTime, setSymptomTime] = useState('');
+    const [symptomText, setSymptomText] = useState('');
+    const [isExporting, setIsExporting] = useState(false);
+    const [isSharing, setIsSharing] = useState(false);
+    const [copied, setCopied] = useState(false);
+
+    // An open incident is resumed; opening from a result points it at that result, but an incident
+    // already recorded for another mushroom is only repointed if the user says so.
+    useEffect(() => {
+        if (!isOpen) return;
+        const stored = loadIngestionLog();
+        if (!stored) setLog(createIngestionLog(initialEntryId ?? null, language));
+        else if (!initialEntryId || stored.entryId === initialEntryId) setLog(stored);
+        else {
+            const hasContent = stored.entryId || stored.symptoms.length > 0 || stored.amount || stored.whoAte;
+            const current = entries.find(e => e.id === stored.entryId)?.mushroomInfo.nombreComun || t('emergencyUnknownSpecies');
+            const repoint = !hasContent || window.confirm(t('emergencyRepointConfirm', { current, next: entries.find(e => e.id === initialEntryId)?.mushroomInfo.nombreComun || '' }));
+            setLog(repoint ? { ...stored, entryId: initialEntryId } : stored);
+        }
+        setSymptomTime(toLocalDateTime(new Date()));
+    }, [isOpen, initialEntryId]);
+
+    if (!isOpen || !log) return null;
+
+    // Saved on the first edit, so just opening the screen doesn't leave an incident behind.
+    const update = (changes: Partial<IngestionLog>) => {
+        const next = { ...log, ...changes };
+        saveIngestionLog(next);
+        setLog(next);
+    };
+    const entry = entries.find(e => e.id === log.entryId);
+    const centre = getPoisonControlCentre(log.region);
+    const photo = entry && getEntryPhoto(entry);
+    const elapsed = formatElapsed(log.ingestedAt, t);
+    const fileName = `${t('emergencyFileName')}_${log.ingestedAt.slice(0, 10)}`;
+
+    const handleAddSymptom = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!symptomText.trim()) return;
+        const symptoms = [...log.symptoms, { time: symptomTime || toLocalDateTime(new Date()), description: symptomText.trim() }].sort((a, b) => a.time.localeCompare(b.time));
+        update({ symptoms });
+        setSymptomText('');
+        setSymptomTime(toLocalDateTime(new Date()));
+    };
+
+    const handleRemoveSymptom = (index: number) => update({ symptoms: log.symptoms.filter((_, i) => i !== index) });
+
+    const handleExportPdf = async () => {
+        setIsExporting(true);
+        try {
+            const doc = await createPdf(buildSummary(log, entry, centre, t, language), photo, t);
+            doc.save(`${fileName}.pdf`);
+        } catch (error) {
+            console.error('Failed to export the emergency report:', error);
+            alert(t('emergencyExportError'));
+        } finally {
+            setIsExporting(false);
+        }
+    };
+
+    const handleShare = async () => {
+        setIsSharing(true);
+        const text = buildSummary(log, entry, centre, t, language).join('\n');
+        try {
+            const files = await getPhotoFile(photo, fileName);
+            if (navigator.share && (files.length === 0 || navigator.canShare?.({ files }))) {
+                await navigator.share({ title: t('emergencyReportTitle'), text, files });
+            } else if (navigator.share) {
+                await navigator.share({ title: t('emergencyReportTitle'), text });
+            } else {
+                await navigator.clipboard.writeText(text);
+                setCopied(true); setTimeout(() => setCopied(false), 2500);
+            }
+        } catch (error: any) {
+            if (error?.name === 'AbortError') return;
+            try {
+                await navigator.clipboard.writeText(text);
+                setCopied(true); setTimeout(() => setCopied(false), 2500);
+            } catch (clipErr) { alert(t('emergencyShareError')); }
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const handleCloseIncident = () => {
+        if (!window.confirm(t('emergencyCloseIncidentConfirm'))) return;
+        clearIngestionLog();
+        setLog(null);
+        onClose();
+    };
+
+    const inputClass = "w-full px-3 py-2 bg-white dark:bg-slate-700 border border-gray-300 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 dark:text-slate-200";
+    const labelClass = "block text-sm font-semibold text-gray-700 dark:text-slate-300 mb-1";
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col border-2 border-red-500" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-red-200 dark:border-red-900 bg-red-50 dark:bg-red-900/40 rounded-t-2xl flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-red-800 dark:text-red-200 flex items-center gap-2"><Icon name="cross" className="w-7 h-7" />{t('emergencyTitle')}</h2>
+                    <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-8 text-slate-800 dark:text-slate-200">
+                    <section>
+                        <p className="text-sm font-semibold text-red-800 dark:text-red-200 mb-3">{t('emergencyIntro')}</p>
+                        <div className="flex flex-wrap items-end gap-3">
+                            <div className="flex-grow">
+                                <label htmlFor="emergency-region" className={labelClass}>{t('emergencyRegion')}</label>
+                                <select id="emergency-region" value={log.region} onChange={(e) => update({ region: e.target.value })} className={inputClass}>
+                                    {POISON_CONTROL_CENTRES.map(c => <option key={c.region} value={c.region}>{c.regionName[language]}</option>)}
+                                </select>
+                            </div>
+                            {centre && <a href={`tel:${centre.phone.replace(/[^\d+]/g, '')}`} className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white font-bold rounded-lg shadow-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">{centre.centre}: {centre.phone}</a>}
+                            {centre && <a href={`tel:${centre.emergency}`} className="inline-flex items-center gap-2 px-4 py-2 bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200 font-bold rounded-lg hover:bg-red-200 dark:hover:bg-red-900/80 focus:outline-none focus:ring-2 focus:ring-red-500">{t('emergencyNumber')}: {centre.emergency}</a>}
+                        </div>
+                        <details className="mt-3 text-sm">
+                            <summary className="cursor-pointer text-gray-600 dark:text-slate-400">{t('emergencyAllCentres')}</summary>
+                            <table className="mt-2 w-full text-left">
+                                <thead><tr className="text-xs text-gray-500 dark:text-slate-400"><th className="py-1 pr-2">{t('emergencyRegion')}</th><th className="py-1 pr-2">{t('emergencyPoisonControl')}</th><th className="py-1">{t('emergencyNumber')}</th></tr></thead>
+                                <tbody className="divide-y divide-gray-200 dark:divide-slate-700">
+                                    {POISON_CONTROL_CENTRES.map(c => (
+                                        <tr key={c.region} className={c.region === log.region ? 'font-semibold text-red-800 dark:text-red-200' : ''}>
+                                            <td className="py-1 pr-2">{c.regionName[language]}</td>
+                                            <td className="py-1 pr-2">{c.centre} · <a href={`tel:${c.phone.replace(/[^\d+]/g, '')}`} className="underline">{c.phone}</a></td>
+                                            <td className="py-1"><a href={`tel:${c.emergency}`} className="underline">{c.emergency}</a></td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">{t('emergencyTableVersion', { version: POISON_CONTROL_TABLE_VERSION })}</p>
+                        </details>
+                    </section>
+
+                    <section className="space-y-3">
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300">{t('emergencySpecies')}</h3>
+                        <select value={log.entryId ?? ''} onChange={(e) => update({ entryId: e.target.value || null })} className={inputClass}>
+                            <option value="">{t('emergencyUnknownSpecies')}</option>
+                            {entries.map(e => <option key={e.id} value={e.id}>{e.mushroomInfo.nombreComun} ({e.mushroomInfo.nombreCientifico}) · {new Date(e.timestamp).toLocaleDateString()}</option>)}
+                        </select>
+                        {entry ? (
+                            <div className="flex gap-4 items-start">
+                                {photo && <img src={photo} alt={entry.mushroomInfo.nombreComun} className="w-24 h-24 object-cover rounded-lg shadow-sm flex-shrink-0" />}
+                                <div className="text-sm space-y-2 min-w-0">
+                                    <p><strong>{t('toxicityLevel')}:</strong> {t(`toxicityLevel_${entry.mushroomInfo.toxicidad.nivelToxicidad}`)}</p>
+                                    {entry.mushroomInfo.toxicidad.compuestosToxicos.length > 0 && <p className="break-words"><strong>{t('toxicCompounds')}:</strong> {entry.mushroomInfo.toxicidad.compuestosToxicos.join(', ')}</p>}
+                                    {entry.safety?.matches.map((match, i) => {
+                                        const rule = getSafetyRule(match.ruleId);
+                                        return rule && <p key={i} className="p-2 bg-purple-50 dark:bg-purple-900/40 text-purple-900 dark:text-purple-200 rounded-md break-words"><em>{match.name}</em>: {rule.reason[language]} ({rule.toxins.join(', ')})</p>;
+                                    })}
+                                    {entry.mushroomInfo.toxicidad.sintomas && <p className="whitespace-pre-wrap break-words"><strong>{t('symptoms')}:</strong> {entry.mushroomInfo.toxicidad.sintomas}</p>}
+                                    {entry.mushroomInfo.toxicidad.primerosAuxilios && <p className="p-2 bg-red-50 dark:bg-red-900/40 text-red-800 dark:text-red-200 rounded-md break-words"><strong>{t('firstAid')}:</strong> {entry.mushroomInfo.toxicidad.primerosAuxilios}</p>}
+                                </div>
+                            </div>
+                        ) : (
+                            <p className="text-sm text-gray-600 dark:text-slate-400">{t('emergencyUnknownSpeciesHint')}</p>
+                        )}
+                    </section>
+
+                    <section className="space-y-3">
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300">{t('emergencyIngestion')}</h3>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <div>
+                                <label htmlFor="emergency-ingested-at" className={labelClass}>{t('emergencyIngestedAt')}</label>
+                                <input id="emergency-ingested-at" type="datetime-local" value={log.ingestedAt} onChange={(e) => update({ ingestedAt: e.target.value })} className={inputClass} />
+                                {elapsed && <p className="mt-1 text-xs font-semibold text-red-700 dark:text-red-300">{elapsed}</p>}
+                            </div>
+                            <div>
+                                <label htmlFor="emergency-amount" className={labelClass}>{t('emergencyAmount')}</label>
+                                <input id="emergency-amount" type="text" value={log.amount} onChange={(e) => update({ amount: e.target.value })} placeholder={t('emergencyAmountPlaceholder')} className={inputClass} />
+                            </div>
+                        </div>
+                        <div>
+                            <label htmlFor="emergency-who" className={labelClass}>{t('emergencyWhoAte')}</label>
+                            <textarea id="emergency-who" rows={2} value={log.whoAte} onChange={(e) => update({ whoAte: e.target.value })} placeholder={t('emergencyWhoAtePlaceholder')} className={inputClass} />
+                        </div>
+                    </section>
+
+                    <section className="space-y-3">
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300">{t('emergencySymptomTimeline')}</h3>
+                        {log.symptoms.length > 0 ? (
+                            <ol className="border-l-2 border-red-300 dark:border-red-800 pl-4 space-y-2">
+                                {log.symptoms.map((symptom, i) => (
+                                    <li key={i} className="flex items-start gap-2 text-sm">
+                                        <span className="font-semibold text-red-800 dark:text-red-300 whitespace-nowrap">{formatDateTime(symptom.time)}</span>
+                                        <span className="flex-grow break-words">{symptom.description}</span>
+                                        <button onClick={() => handleRemoveSymptom(i)} title={t('emergencyRemoveSymptom')} aria-label={t('emergencyRemoveSymptom')} className="text-gray-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400 flex-shrink-0"><Icon name="trash" className="w-4 h-4" /></button>
+                                    </li>
+                                ))}
+                            </ol>
+                        ) : (
+                            <p className="text-sm text-gray-500 dark:text-slate-400">{t('emergencyNoSymptoms')}</p>
+                        )}
+                        <form onSubmit={handleAddSymptom} className="flex flex-wrap gap-2">
+                            <input type="datetime-local" value={symptomTime} onChange={(e) => setSymptomTime(e.target.value)} aria-label={t('emergencySymptomTime')} className={`${inputClass} sm:w-auto`} />
+                            <input type="text" value={symptomText} onChange={(e) => setSymptomText(e.target.value)} placeholder={t('emergencySymptomPlaceholder')} className={`${inputClass} flex-1 min-w-[12rem]`} />
+                            <button type="submit" disabled={!symptomText.trim()} className="px-4 py-2 bg-red-600 text-white font-semibold rounded-lg hover:bg-red-700 disabled:bg-gray-300 dark:disabled:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-red-500">{t('emergencyAddSymptom')}</button>
+                        </form>
+                    </section>
+
+                    <section className="flex flex-wrap gap-3 border-t border-gray-200 dark:border-slate-700 pt-6">
+                        <button onClick={handleExportPdf} disabled={isExporting} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm bg-red-600 text-white hover:bg-red-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">
+                            {isExporting ? <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span> : <Icon name="download" className="w-4 h-4" />}
+                            {isExporting ? t('exporting') : t('emergencyDownloadPdf')}
+                        </button>
+                        <button onClick={handleShare} disabled={isSharing} className="inline-flex items-center gap-2 px-4 py-2 text-sm font-semibold rounded-lg shadow-sm bg-red-100 text-red-800 hover:bg-red-200 dark:bg-red-900/50 dark:text-red-200 dark:hover:bg-red-900/80 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2">
+                            <Icon name={copied ? 'clipboard-check' : 'share-up'} className="w-4 h-4" />
+                            {copied ? t('emergencySummaryCopied') : isSharing ? t('sharing') : t('emergencyShareSummary')}
+                        </button>
+                        <button onClick={handleCloseIncident} className="ml-auto px-4 py-2 text-sm text-gray-600 dark:text-slate-400 font-semibold rounded-lg hover:bg-gray-100 dark:hover:bg-slate-700">{t('emergencyCloseIncident')}</button>
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
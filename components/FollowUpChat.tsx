@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { ChatMessage, FollowUpContext } from '../types.ts';
+import { askFollowUpQuestion } from '../services/identificationService.ts';
+
+interface FollowUpChatProps {
+  context: FollowUpContext;
+  conversation: ChatMessage[];
+  // Called with both turns once an answer arrives, so an unanswered question is never persisted.
+  onConversationChange: (conversation: ChatMessage[]) => void;
+}
+
+const ERROR_KEYS: Record<string, string> = {
+    SERVICE_CONFIG_ERROR_API_KEY_MISSING: 'error_service_config_api_key_missing',
+    SERVICE_CONFIG_ERROR: 'error_service_config',
+    API_QUOTA: 'error_api_quota',
+    NETWORK_ERROR: 'error_network',
+    TIMEOUT: 'error_timeout',
+};
+
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ context, conversation, onConversationChange }) => {
+    const { t, language } = useLanguage();
+    const [question, setQuestion] = useState('');
+    const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const requestRef = useRef<AbortController | null>(null);
+
+    // Leaving the result cancels an unanswered question.
+    useEffect(() => () => requestRef.current?.abort(), []);
+
+    const handleAsk = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const text = question.trim();
+        if (!text || pendingQuestion) return;
+        const controller = new AbortController();
+        requestRef.current = controller;
+        setPendingQuestion(text); setQuestion(''); setError(null);
+        const userTurn: ChatMessage = { role: 'user', text, timestamp: Date.now() };
+        try {
+            const answer = await askFollowUpQuestion(context, conversation, text, language, { signal: controller.signal });
+            onConversationChange([...conversation, userTurn, answer]);
+        } catch (err: any) {
+            if (err?.message === 'CANCELLED') return;
+            console.error("Follow-up question failed:", err);
+            setError(t(ERROR_KEYS[err?.message] || 'followUpError'));
+            setQuestion(text);
+        } finally {
+            if (requestRef.current === controller) {
+                requestRef.current = null;
+                setPendingQuestion(null);
+            }
+        }
+    };
+
+    const bubble = (message: Pick<ChatMessage, 'role' | 'text'>, key: React.Key, footer?: React.ReactNode) => (
+        <div key={key} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] px-4 py-2 rounded-2xl break-words whitespace-pre-wrap ${message.role === 'user' ? 'bg-amber-600 text-white rounded-br-sm' : 'bg-stone-100 dark:bg-stone-900/60 text-gray-800 dark:text-slate-200 rounded-bl-sm'}`}>
+                {message.text}
+                {footer}
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            {conversation.length === 0 && !pendingQuestion && <p className="hide-on-export text-sm text-gray-500 dark:text-slate-400">{t('followUpIntro')}</p>}
+            {(conversation.length > 0 || pendingQuestion) && (
+                <div className="space-y-3">
+                    {conversation.map((message, i) => bubble(message, i, message.role === 'model' && message.model && (
+                        <span className="block mt-1 text-[11px] text-gray-400 dark:text-slate-500">{t('answeredBy', { model: message.model })}</span>
+                    )))}
+                    {pendingQuestion && bubble({ role: 'user', text: pendingQuestion }, 'pending')}
+                    {pendingQuestion && (
+                        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-slate-400">
+                            <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin inline-block"></span>
+                            {t('followUpThinking')}
+                        </div>
+                    )}
+                </div>
+            )}
+            {error && <p className="hide-on-export text-sm text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/40 p-2 rounded-md">{error}</p>}
+            <form onSubmit={handleAsk} className="hide-on-export flex gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    disabled={!!pendingQuestion}
+                    placeholder={t('followUpPlaceholder')}
+                    className="flex-grow px-4 py-2 bg-white dark:bg-slate-700 border border-amber-300 dark:border-slate-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-amber-500 dark:text-slate-200"
+                />
+                <button type="submit" disabled={!!pendingQuestion || !question.trim()} aria-label={t('followUpSend')} title={t('followUpSend')} className="px-4 py-2 bg-amber-600 text-white rounded-lg shadow-sm hover:bg-amber-700 disabled:bg-gray-300 dark:disabled:bg-slate-600 focus:outline-none focus:ring-2 focus:ring-amber-500">
+                    <Icon name="send" className="w-5 h-5" />
+                </button>
+            </form>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{t('followUpDisclaimer')}</p>
+        </div>
+    );
+};
@@ -0,0 +1,116 @@
+import React, { useRef, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { HistoryEntry } from '../types.ts';
+import { ImportPreview, ImportResolution, readImportFile, applyImport } from '../services/collectionImport.ts';
+
+interface ImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collection: HistoryEntry[];
+  onImport: (collection: HistoryEntry[], count: number) => void;
+}
+
+export const ImportModal: React.FC<ImportModalProps> = ({ isOpen, onClose, collection, onImport }) => {
+    const { t } = useLanguage();
+    const [preview, setPreview] = useState<ImportPreview | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    if (!isOpen) return null;
+
+    const handleClose = () => { setPreview(null); setError(null); onClose(); };
+
+    const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        setError(null);
+        setPreview(null);
+        try {
+            setPreview(await readImportFile(file, collection));
+        } catch (e) {
+            console.error("Failed to read the import file.", e);
+            setError(t('importInvalid'));
+        }
+    };
+
+    const setResolution = (index: number, resolution: ImportResolution) => {
+        if (!preview) return;
+        setPreview({ ...preview, rows: preview.rows.map((row, i) => i === index ? { ...row, resolution } : row) });
+    };
+
+    const setAll = (resolution: ImportResolution) => {
+        if (!preview) return;
+        setPreview({ ...preview, rows: preview.rows.map(row => ({ ...row, resolution: resolution === 'update' && !row.conflict ? row.resolution : resolution })) });
+    };
+
+    const handleImport = () => {
+        if (!preview) return;
+        onImport(applyImport(collection, preview.rows), preview.rows.filter(row => row.resolution !== 'skip').length);
+        handleClose();
+    };
+
+    const selected = preview ? preview.rows.filter(row => row.resolution !== 'skip').length : 0;
+    const conflicts = preview ? preview.rows.filter(row => row.conflict).length : 0;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={handleClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('importTitle')}</h2>
+                    <button onClick={handleClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-6 text-slate-800 dark:text-slate-200">
+                    {error && <p className="p-3 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg" role="alert">{error}</p>}
+                    <section>
+                        <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('importDescription')}</p>
+                        <input type="file" accept=".json,.csv,application/json,text/csv" ref={fileInputRef} onChange={handleFile} className="hidden" />
+                        <button onClick={() => fileInputRef.current?.click()} className="inline-flex items-center gap-2 px-4 py-2 bg-gray-100 dark:bg-slate-700 text-gray-700 dark:text-slate-300 text-sm font-semibold rounded-lg shadow-sm hover:bg-gray-200 dark:hover:bg-slate-600">
+                            <Icon name="upload" className="w-4 h-4" />{t('importChooseFile')}
+                        </button>
+                    </section>
+                    {preview && (
+                        <section className="space-y-4">
+                            <div className="text-sm space-y-1">
+                                <p>{t('importSummary', { count: preview.rows.length, source: t(`importSource_${preview.source}`) })}</p>
+                                {conflicts > 0 && <p className="font-semibold text-amber-800 dark:text-amber-300">{t('importConflicts', { count: conflicts })}</p>}
+                                {preview.skipped > 0 && <p className="text-orange-700 dark:text-orange-300">{t('importSkipped', { count: preview.skipped })}</p>}
+                            </div>
+                            {preview.rows.length > 0 && (
+                                <>
+                                    <div className="flex flex-wrap gap-2 text-xs">
+                                        <button onClick={() => setAll('import')} className="px-3 py-1 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600">{t('importAll')}</button>
+                                        <button onClick={() => setAll('skip')} className="px-3 py-1 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600">{t('importNone')}</button>
+                                        {conflicts > 0 && <button onClick={() => setAll('update')} className="px-3 py-1 bg-gray-100 dark:bg-slate-700 rounded-full hover:bg-gray-200 dark:hover:bg-slate-600">{t('importUpdateAllConflicts')}</button>}
+                                    </div>
+                                    <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                                        {preview.rows.map(({ entry, conflict, resolution }, index) => (
+                                            <li key={entry.id} className={`p-3 flex flex-col sm:flex-row sm:items-center gap-3 ${conflict ? 'bg-amber-50/60 dark:bg-amber-900/10' : ''}`}>
+                                                <div className="flex-grow min-w-0 text-sm">
+                                                    <p className="font-semibold text-stone-800 dark:text-amber-200 truncate">{entry.mushroomInfo.nombreComun} <span className="font-normal italic text-gray-500 dark:text-slate-400">{entry.mushroomInfo.nombreCientifico}</span></p>
+                                                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                                                        {[entry.findingDate, entry.location && `${entry.location.latitude.toFixed(4)}, ${entry.location.longitude.toFixed(4)}`, entry.personalNotes && t('importHasNotes')].filter(Boolean).join(' · ') || t('importNoDiary')}
+                                                    </p>
+                                                    {conflict && <p className="text-xs text-amber-800 dark:text-amber-300">{t('importConflictWith', { name: conflict.mushroomInfo.nombreComun, date: conflict.findingDate || new Date(conflict.timestamp).toLocaleDateString() })}</p>}
+                                                </div>
+                                                <select value={resolution} onChange={(e) => setResolution(index, e.target.value as ImportResolution)} aria-label={t('importResolutionLabel')} className="p-1.5 text-sm border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700 flex-shrink-0">
+                                                    <option value="import">{t(conflict ? 'importResolution_keepBoth' : 'importResolution_import')}</option>
+                                                    {conflict && <option value="update">{t('importResolution_update')}</option>}
+                                                    <option value="skip">{t('importResolution_skip')}</option>
+                                                </select>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                    <button onClick={handleImport} disabled={selected === 0} className="px-4 py-2 bg-amber-600 text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-amber-700 disabled:opacity-50">{t('importButton', { count: selected })}</button>
+                                </>
+                            )}
+                        </section>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
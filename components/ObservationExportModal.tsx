@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { HistoryEntry } from '../types.ts';
+import { ObservationFormat, checkObservation, createDarwinCoreArchive, createINaturalistExport } from '../services/observationExport.ts';
+import { createGeoExport } from '../services/geoExport.ts';
+
+interface ObservationExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[]; // the collection as currently filtered and sorted
+}
+
+const FORMATS: ObservationFormat[] = ['darwinCore', 'inaturalist', 'geojson', 'kml', 'gpx'];
+
+const FILE_NAMES: Record<ObservationFormat, [string, string]> = {
+    darwinCore: ['mushroom_darwin_core', 'zip'],
+    inaturalist: ['mushroom_inaturalist', 'zip'],
+    geojson: ['mushroom_finds', 'geojson'],
+    kml: ['mushroom_finds', 'kml'],
+    gpx: ['mushroom_finds', 'gpx'],
+};
+
+export const ObservationExportModal: React.FC<ObservationExportModalProps> = ({ isOpen, onClose, entries }) => {
+    const { t } = useLanguage();
+    const [format, setFormat] = useState<ObservationFormat>('darwinCore');
+    const [error, setError] = useState<string | null>(null);
+    const checks = useMemo(() => entries.map(entry => checkObservation(entry, format)), [entries, format]);
+
+    if (!isOpen) return null;
+
+    const ready = checks.filter(check => !check.errors.length).length;
+    const flagged = checks.filter(check => check.errors.length || check.warnings.length);
+
+    const handleExport = () => {
+        setError(null);
+        try {
+            const blob = format === 'darwinCore' ? createDarwinCoreArchive(entries)
+                : format === 'inaturalist' ? createINaturalistExport(entries)
+                : createGeoExport(entries, format);
+            const [name, extension] = FILE_NAMES[format];
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${name}_${new Date().toISOString().split('T')[0]}.${extension}`;
+            document.body.appendChild(link);
+            link.click();
+            document.body.removeChild(link);
+            URL.revokeObjectURL(url);
+        } catch (e) {
+            console.error("Failed to create the observation export.", e);
+            setError(t('observationExportFailed'));
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('observationExportTitle')}</h2>
+                    <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-6 text-slate-800 dark:text-slate-200">
+                    {error && <p className="p-3 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg" role="alert">{error}</p>}
+                    <fieldset className="space-y-2">
+                        <legend className="font-semibold text-sm mb-1">{t('observationExportFormat')}</legend>
+                        {FORMATS.map(option => (
+                            <label key={option} className="flex items-start gap-3 text-sm cursor-pointer">
+                                <input type="radio" name="observationFormat" checked={format === option} onChange={() => setFormat(option)} className="mt-0.5 accent-amber-600" />
+                                <span><span className="font-semibold">{t(`observationFormat_${option}`)}</span><span className="block text-gray-500 dark:text-slate-400">{t(`observationFormatHint_${option}`)}</span></span>
+                            </label>
+                        ))}
+                    </fieldset>
+
+                    <section>
+                        <p className="text-sm mb-2">{t('observationExportReady', { ready, total: checks.length })}</p>
+                        {flagged.length > 0 && (
+                            <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                                {flagged.map(({ entry, errors, warnings }) => (
+                                    <li key={entry.id} className="p-3 text-sm">
+                                        <p className="font-semibold text-stone-800 dark:text-amber-200">{entry.mushroomInfo.nombreComun} <span className="font-normal italic text-gray-500 dark:text-slate-400">{entry.mushroomInfo.nombreCientifico}</span></p>
+                                        <div className="flex flex-wrap gap-1 mt-1">
+                                            {errors.map(issue => <span key={issue} className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-200">{t(`observationIssue_${issue}`)}</span>)}
+                                            {warnings.map(issue => <span key={issue} className="px-2 py-0.5 text-xs font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/50 dark:text-amber-200">{t(`observationIssue_${issue}`)}</span>)}
+                                        </div>
+                                        {errors.length > 0 && <p className="text-xs text-gray-500 dark:text-slate-400 mt-1">{t('observationExcluded')}</p>}
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </section>
+
+                    <button onClick={handleExport} disabled={ready === 0} className="inline-flex items-center gap-2 px-4 py-2 bg-amber-600 text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-amber-700 disabled:opacity-50">
+                        <Icon name="download" className="w-4 h-4" />{t('observationExportButton', { count: ready })}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
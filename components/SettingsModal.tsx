@@ -0,0 +1,222 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { CacheEntry, listCacheEntries, removeCachedLookup, clearResponseCache, getCacheSize } from '../services/responseCache.ts';
+import { RISK_FACTORS } from '../services/mushroomSchema.ts';
+import { HistoryEntry, RiskFactor, RiskProfile } from '../types.ts';
+import { EntryLists, USAGE_CATEGORIES, getStorageUsage, estimateFreedBytes, estimateDownscaleSavings, dropGeneratedMaps, purgeHistoryOlderThan, removeEntriesWithoutDiary, downscaleUserPhotos } from '../services/storageUsage.ts';
+
+interface SettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  riskProfile: RiskProfile;
+  onRiskProfileChange: (profile: RiskProfile) => void;
+  history: HistoryEntry[];
+  collection: HistoryEntry[];
+  onStorageCleanup: (history: HistoryEntry[], collection: HistoryEntry[]) => void;
+}
+
+const formatBytes = (bytes: number) => bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const ResponseCacheSection: React.FC = () => {
+    const { t } = useLanguage();
+    const [entries, setEntries] = useState<CacheEntry[]>([]);
+    const [size, setSize] = useState(0);
+
+    const reload = () => { setEntries(listCacheEntries()); setSize(getCacheSize()); };
+    useEffect(reload, []);
+
+    const handleRemove = (key: string) => { removeCachedLookup(key); reload(); };
+    const handleClear = () => {
+        if (!window.confirm(t('clearCacheConfirm'))) return;
+        clearResponseCache();
+        reload();
+    };
+
+    return (
+        <section>
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300">{t('responseCacheTitle')}</h3>
+                {entries.length > 0 && <button onClick={handleClear} className="px-3 py-1.5 text-sm bg-red-50 dark:bg-red-900/50 text-red-700 dark:text-red-300 font-semibold rounded-lg hover:bg-red-100 dark:hover:bg-red-900/80 focus:outline-none focus:ring-2 focus:ring-red-500">{t('clearCache')}</button>}
+            </div>
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('responseCacheDescription')}</p>
+            {entries.length > 0 ? (
+                <>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 mb-2">{t('cacheSummary', { count: entries.length, size: formatBytes(size) })}</p>
+                    <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                        {entries.map(entry => (
+                            <li key={entry.key} className="p-3 flex items-center gap-3">
+                                {entry.result.imageSrc && <img src={entry.result.imageSrc} alt={entry.result.mushroomInfo.nombreComun} className="w-12 h-12 object-cover rounded-md flex-shrink-0" />}
+                                <div className="flex-grow min-w-0">
+                                    <p className="font-semibold text-stone-800 dark:text-amber-200 truncate">{entry.result.mushroomInfo.nombreComun} <span className="font-normal italic text-gray-500 dark:text-slate-400">{entry.result.mushroomInfo.nombreCientifico}</span></p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400">"{entry.query}" · {entry.language.toUpperCase()} · {t(`difficulty_${entry.difficulty}`)} · {t(`quality_${entry.imageQuality}`)}{entry.provider === 'mock' ? ' · mock' : ''}</p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400">{t('cacheEntryDates', { cached: new Date(entry.createdAt).toLocaleDateString(), expires: new Date(entry.expiresAt).toLocaleDateString() })}</p>
+                                </div>
+                                <button onClick={() => handleRemove(entry.key)} title={t('removeCacheEntry')} aria-label={t('removeCacheEntry')} className="p-2 text-gray-400 hover:text-red-600 dark:text-slate-500 dark:hover:text-red-400 rounded-full hover:bg-red-50 dark:hover:bg-red-900/30 flex-shrink-0"><Icon name="trash" className="w-5 h-5" /></button>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            ) : (
+                <p className="text-sm text-center text-gray-500 dark:text-slate-400 p-6 border border-dashed border-gray-300 dark:border-slate-600 rounded-lg">{t('cacheEmpty')}</p>
+            )}
+        </section>
+    );
+};
+
+type CleanupAction = 'downscalePhotos' | 'dropMaps' | 'purgeHistory' | 'removeWithoutDiary';
+
+const StorageSection: React.FC<{ lists: EntryLists; onCleanup: (history: HistoryEntry[], collection: HistoryEntry[]) => void }> = ({ lists, onCleanup }) => {
+    const { t } = useLanguage();
+    const [purgeDays, setPurgeDays] = useState(90);
+    const [busy, setBusy] = useState<CleanupAction | null>(null);
+    const [deviceEstimate, setDeviceEstimate] = useState<StorageEstimate | null>(null);
+
+    useEffect(() => {
+        navigator.storage?.estimate?.().then(setDeviceEstimate).catch(() => setDeviceEstimate(null));
+    }, [lists]);
+
+    const usage = useMemo(() => getStorageUsage(lists), [lists]);
+    const cleanups = useMemo(() => {
+        const purged = purgeHistoryOlderThan(lists, purgeDays);
+        const withDiary = removeEntriesWithoutDiary(lists);
+        return {
+            downscalePhotos: { freed: estimateDownscaleSavings(lists), removed: 0 },
+            dropMaps: { freed: estimateFreedBytes(lists, dropGeneratedMaps(lists)), removed: 0 },
+            purgeHistory: { freed: estimateFreedBytes(lists, purged), removed: lists.history.length - purged.history.length },
+            removeWithoutDiary: { freed: estimateFreedBytes(lists, withDiary), removed: lists.collection.length - withDiary.collection.length },
+        };
+    }, [lists, purgeDays]);
+
+    const run = async (action: CleanupAction) => {
+        if (!window.confirm(t(`storageConfirm_${action}`, { count: cleanups[action].removed, days: purgeDays }))) return;
+        setBusy(action);
+        try {
+            const result = action === 'downscalePhotos' ? await downscaleUserPhotos(lists)
+                : action === 'dropMaps' ? dropGeneratedMaps(lists)
+                : action === 'purgeHistory' ? purgeHistoryOlderThan(lists, purgeDays)
+                : removeEntriesWithoutDiary(lists);
+            onCleanup(result.history, result.collection);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const actionRow = (action: CleanupAction, extra?: React.ReactNode) => {
+        const { freed, removed } = cleanups[action];
+        const hasEffect = action === 'purgeHistory' || action === 'removeWithoutDiary' ? removed > 0 : freed > 0;
+        return (
+            <li key={action} className="p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+                <div className="flex-grow min-w-0">
+                    <p className="font-semibold text-sm">{t(`storageAction_${action}`)}</p>
+                    {extra}
+                    <p className="text-xs text-gray-500 dark:text-slate-400">
+                        {hasEffect ? t('storageFrees', { size: formatBytes(freed) }) : t('storageNothingToFree')}
+                        {removed > 0 && ` · ${t('storageRemovesEntries', { count: removed })}`}
+                    </p>
+                </div>
+                <button onClick={() => run(action)} disabled={!hasEffect || busy !== null} className="inline-flex items-center justify-center gap-2 px-3 py-1.5 text-sm font-semibold text-red-700 dark:text-red-300 bg-red-50 dark:bg-red-900/30 rounded-lg hover:bg-red-100 dark:hover:bg-red-900/50 disabled:opacity-50 flex-shrink-0">
+                    {busy === action && <span className="w-4 h-4 border-2 border-t-transparent border-current rounded-full animate-spin"></span>}
+                    {t(`storageRun_${action}`)}
+                </button>
+            </li>
+        );
+    };
+
+    return (
+        <section>
+            <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('storageTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('storageDescription')}</p>
+            <p className="text-sm font-semibold mb-1">{t('storageTotal', { size: formatBytes(usage.total) })}</p>
+            {deviceEstimate?.usage !== undefined && deviceEstimate.quota ? (
+                <p className="text-xs text-gray-500 dark:text-slate-400 mb-3">{t('storageDevice', { usage: formatBytes(deviceEstimate.usage), quota: formatBytes(deviceEstimate.quota) })}</p>
+            ) : null}
+            <ul className="space-y-2 mb-6">
+                {USAGE_CATEGORIES.map(category => (
+                    <li key={category} className="text-sm">
+                        <div className="flex justify-between"><span>{t(`storageCategory_${category}`)}</span><span className="text-gray-500 dark:text-slate-400">{formatBytes(usage.byCategory[category])}</span></div>
+                        <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-amber-500" style={{ width: `${usage.total ? (usage.byCategory[category] / usage.total) * 100 : 0}%` }}></div>
+                        </div>
+                    </li>
+                ))}
+            </ul>
+
+            {usage.entries.length > 0 && (
+                <>
+                    <h4 className="font-semibold text-sm mb-2">{t('storageByEntry')}</h4>
+                    <ul className="max-h-64 overflow-y-auto divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg mb-6">
+                        {usage.entries.map(({ entry, inHistory, inCollection, bytes }) => (
+                            <li key={entry.id} className="p-2 flex items-center gap-3 text-sm">
+                                <img src={entry.imageSrc} alt={entry.mushroomInfo.nombreComun} className="w-10 h-10 object-cover rounded-md flex-shrink-0" />
+                                <div className="flex-grow min-w-0">
+                                    <p className="font-semibold text-stone-800 dark:text-amber-200 truncate">{entry.mushroomInfo.nombreComun}</p>
+                                    <p className="text-xs text-gray-500 dark:text-slate-400">{[inCollection && t('myCollection'), inHistory && t('history')].filter(Boolean).join(' · ')} · {new Date(entry.timestamp).toLocaleDateString()}</p>
+                                </div>
+                                <span className="text-xs text-gray-500 dark:text-slate-400 flex-shrink-0">{formatBytes(bytes)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </>
+            )}
+
+            <h4 className="font-semibold text-sm mb-2">{t('storageCleanupTitle')}</h4>
+            <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                {actionRow('downscalePhotos')}
+                {actionRow('dropMaps')}
+                {actionRow('purgeHistory', (
+                    <label className="flex items-center gap-2 text-xs my-1">
+                        {t('storagePurgeDaysLabel')}
+                        <input type="number" min={1} value={purgeDays} onChange={(e) => setPurgeDays(Math.max(1, Number(e.target.value) || 1))} className="w-20 p-1 border border-gray-300 dark:border-slate-600 rounded-md bg-white dark:bg-slate-700" />
+                    </label>
+                ))}
+                {actionRow('removeWithoutDiary')}
+            </ul>
+        </section>
+    );
+};
+
+const RiskProfileSection: React.FC<{ profile: RiskProfile; onChange: (profile: RiskProfile) => void }> = ({ profile, onChange }) => {
+    const { t } = useLanguage();
+    // Kept in RISK_FACTORS order so the notes always list the groups the same way.
+    const toggle = (factor: RiskFactor) => onChange({ factors: RISK_FACTORS.filter(f => f === factor ? !profile.factors.includes(f) : profile.factors.includes(f)) });
+
+    return (
+        <section>
+            <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('riskProfileTitle')}</h3>
+            <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">{t('riskProfileDescription')}</p>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {RISK_FACTORS.map(factor => (
+                    <label key={factor} className="flex items-center gap-3 p-3 border border-gray-200 dark:border-slate-700 rounded-lg text-sm cursor-pointer hover:bg-amber-50 dark:hover:bg-slate-700">
+                        <input type="checkbox" checked={profile.factors.includes(factor)} onChange={() => toggle(factor)} className="w-4 h-4 accent-amber-600" />
+                        {t(`riskFactor_${factor}`)}
+                    </label>
+                ))}
+            </div>
+        </section>
+    );
+};
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, riskProfile, onRiskProfileChange, history, collection, onStorageCleanup }) => {
+    const { t } = useLanguage();
+    const lists = useMemo(() => ({ history, collection }), [history, collection]);
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('settings')}</h2>
+                    <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-8 text-slate-800 dark:text-slate-200">
+                    <RiskProfileSection profile={riskProfile} onChange={onRiskProfileChange} />
+                    <ResponseCacheSection />
+                    <StorageSection lists={lists} onCleanup={onStorageCleanup} />
+                </div>
+            </div>
+        </div>
+    );
+};
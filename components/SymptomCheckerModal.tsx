@@ -0,0 +1,114 @@
+import React, { useMemo, useState } from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { Icon } from './Icons.tsx';
+import { HistoryEntry } from '../types.ts';
+import { LATENCY_BUCKETS, LatencyBucketId, SYMPTOMS, SymptomId, rankSyndromes, findEntriesWithSyndromeToxins, formatLatencyWindow } from '../services/poisoningSyndromes.ts';
+
+interface SymptomCheckerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[]; // history and collection, cross-referenced by toxic compound
+  onSelectEntry: (entry: HistoryEntry) => void;
+  onOpenEmergency: () => void;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+    Caution: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    Poisonous: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    Lethal: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
+};
+
+// Onsets from six hours on point to the syndromes that damage the liver or kidneys.
+const LATE_ONSET: LatencyBucketId[] = ['6hTo24h', '1dTo3d', 'over3d'];
+
+export const SymptomCheckerModal: React.FC<SymptomCheckerModalProps> = ({ isOpen, onClose, entries, onSelectEntry, onOpenEmergency }) => {
+    const { t, language } = useLanguage();
+    const [latency, setLatency] = useState<LatencyBucketId | null>(null);
+    const [symptoms, setSymptoms] = useState<SymptomId[]>([]);
+
+    const matches = useMemo(() => rankSyndromes(latency, symptoms), [latency, symptoms]);
+
+    if (!isOpen) return null;
+
+    const toggleSymptom = (symptom: SymptomId) => setSymptoms(prev => prev.includes(symptom) ? prev.filter(s => s !== symptom) : [...prev, symptom]);
+    const chipClass = (selected: boolean) => `px-3 py-1.5 text-sm rounded-full border transition-colors focus:outline-none focus:ring-2 focus:ring-amber-500 ${selected ? 'bg-amber-600 border-amber-600 text-white' : 'bg-white dark:bg-slate-700 border-gray-300 dark:border-slate-600 text-gray-700 dark:text-slate-300 hover:bg-amber-50 dark:hover:bg-slate-600'}`;
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-center flex-shrink-0">
+                    <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{t('symptomCheckerTitle')}</h2>
+                    <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-6 text-slate-800 dark:text-slate-200">
+                    <div className="p-4 bg-red-50 dark:bg-red-900/40 border border-red-200 dark:border-red-800 rounded-lg flex flex-wrap items-center gap-3">
+                        <p className="flex-1 min-w-[14rem] text-sm text-red-800 dark:text-red-200">{t('symptomCheckerDisclaimer')}</p>
+                        <button onClick={onOpenEmergency} className="inline-flex items-center gap-2 px-4 py-2 bg-red-600 text-white text-sm font-semibold rounded-lg shadow-sm hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"><Icon name="cross" className="w-4 h-4" />{t('emergencyButton')}</button>
+                    </div>
+
+                    <section>
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('symptomCheckerLatency')}</h3>
+                        <div className="flex flex-wrap gap-2">
+                            <button onClick={() => setLatency(null)} className={chipClass(latency === null)}>{t('symptomLatency_unknown')}</button>
+                            {LATENCY_BUCKETS.map(bucket => <button key={bucket.id} onClick={() => setLatency(bucket.id)} className={chipClass(latency === bucket.id)}>{t(`symptomLatency_${bucket.id}`)}</button>)}
+                        </div>
+                        {latency && LATE_ONSET.includes(latency) && <p className="mt-2 text-sm font-semibold text-purple-800 dark:text-purple-200">{t('symptomCheckerLateOnset')}</p>}
+                    </section>
+
+                    <section>
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('symptomCheckerSymptoms')}</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {SYMPTOMS.map(symptom => <button key={symptom} onClick={() => toggleSymptom(symptom)} aria-pressed={symptoms.includes(symptom)} className={chipClass(symptoms.includes(symptom))}>{t(`symptom_${symptom}`)}</button>)}
+                        </div>
+                    </section>
+
+                    <section>
+                        <h3 className="text-lg font-bold text-stone-800 dark:text-amber-300 mb-2">{t('symptomCheckerResults')}</h3>
+                        {matches.length === 0 ? (
+                            <p className="text-sm text-center text-gray-500 dark:text-slate-400 p-6 border border-dashed border-gray-300 dark:border-slate-600 rounded-lg">{t(symptoms.length === 0 && !latency ? 'symptomCheckerEmpty' : 'symptomCheckerNoMatch')}</p>
+                        ) : (
+                            <ul className="space-y-3">
+                                {matches.map(({ syndrome, score, latencyFits, matchedSymptoms }) => {
+                                    const related = findEntriesWithSyndromeToxins(syndrome, entries);
+                                    return (
+                                        <li key={syndrome.id} className="p-4 border border-gray-200 dark:border-slate-700 rounded-lg">
+                                            <div className="flex flex-wrap items-center gap-2">
+                                                <h4 className="font-bold text-stone-800 dark:text-amber-200">{syndrome.name[language]}</h4>
+                                                <span className={`px-2 py-0.5 text-xs font-bold rounded-full ${SEVERITY_COLORS[syndrome.severity] || SEVERITY_COLORS.Caution}`}>{t(`toxicityLevel_${syndrome.severity}`)}</span>
+                                                <span className="ml-auto text-sm font-semibold text-gray-600 dark:text-slate-400">{t('symptomCheckerScore', { score: Math.round(score * 100) })}</span>
+                                            </div>
+                                            <div className="mt-2 h-1.5 bg-gray-200 dark:bg-slate-700 rounded-full overflow-hidden"><div className="h-full bg-amber-500" style={{ width: `${Math.round(score * 100)}%` }}></div></div>
+                                            <p className="mt-2 text-sm text-gray-700 dark:text-slate-300">{syndrome.description[language]}</p>
+                                            <p className="mt-2 text-xs text-gray-500 dark:text-slate-400">
+                                                {t('symptomCheckerWindow', { window: formatLatencyWindow(syndrome.latencyHours) })}
+                                                {latencyFits === false && <span className="ml-1 text-orange-600 dark:text-orange-400">{t('symptomCheckerWindowMismatch')}</span>}
+                                                {' · '}{t('symptomCheckerGenera', { genera: syndrome.genera.join(', ') })}
+                                            </p>
+                                            {matchedSymptoms.length > 0 && <p className="mt-1 text-xs text-gray-500 dark:text-slate-400">{t('symptomCheckerMatched', { symptoms: matchedSymptoms.map(s => t(`symptom_${s}`)).join(', ') })}</p>}
+                                            {related.length > 0 && (
+                                                <div className="mt-3 p-3 bg-amber-50 dark:bg-amber-900/40 rounded-md">
+                                                    <p className="text-sm font-semibold text-amber-900 dark:text-amber-200 mb-2">{t('symptomCheckerRelatedEntries')}</p>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {related.map(entry => (
+                                                            <button key={entry.id} onClick={() => onSelectEntry(entry)} className="inline-flex items-center gap-2 pl-1 pr-3 py-1 bg-white dark:bg-slate-700 border border-amber-300 dark:border-slate-600 rounded-full text-sm hover:bg-amber-100 dark:hover:bg-slate-600">
+                                                                <img src={entry.imageSrc} alt="" className="w-6 h-6 rounded-full object-cover" />
+                                                                <span>{entry.mushroomInfo.nombreComun}</span>
+                                                                <span className="text-xs text-gray-500 dark:text-slate-400">{new Date(entry.timestamp).toLocaleDateString()}</span>
+                                                            </button>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,78 @@
+import React from 'react';
+import { useLanguage } from '../contexts/LanguageContext.tsx';
+import { HistoryEntry } from '../types.ts';
+import { getToxin, entryHasToxin } from '../services/toxinKnowledgeBase.ts';
+import { formatLatencyWindow } from '../services/poisoningSyndromes.ts';
+
+interface ToxinDetailModalProps {
+  toxinId: string | null; // open while set
+  onClose: () => void;
+  collection: HistoryEntry[];
+  onSelectEntry: (entry: HistoryEntry) => void;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+    Caution: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
+    Poisonous: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+    Lethal: 'bg-purple-100 text-purple-800 dark:bg-purple-900/50 dark:text-purple-300',
+};
+
+export const ToxinDetailModal: React.FC<ToxinDetailModalProps> = ({ toxinId, onClose, collection, onSelectEntry }) => {
+    const { t, language } = useLanguage();
+    const toxin = toxinId ? getToxin(toxinId) : undefined;
+    if (!toxin) return null;
+
+    const entries = collection.filter(entry => entryHasToxin(entry, toxin.id));
+
+    return (
+        <div className="fixed inset-0 bg-black/60 dark:bg-black/70 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+                <div className="p-6 border-b border-gray-200 dark:border-slate-700 flex justify-between items-start gap-4 flex-shrink-0">
+                    <div>
+                        <h2 className="text-2xl font-bold text-stone-900 dark:text-amber-200">{toxin.name[language]}</h2>
+                        {toxin.aliases.length > 0 && <p className="text-sm text-gray-500 dark:text-slate-400">{toxin.aliases.join(' · ')}</p>}
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 dark:text-slate-500 hover:text-gray-600 dark:hover:text-slate-300 transition">
+                        <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                    </button>
+                </div>
+                <div className="overflow-y-auto p-4 sm:p-6 space-y-5 text-slate-800 dark:text-slate-200">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className={`px-2 py-0.5 text-xs font-bold rounded-full ${SEVERITY_COLORS[toxin.severity] || SEVERITY_COLORS.Caution}`}>{t(`toxicityLevel_${toxin.severity}`)}</span>
+                        <span className="text-gray-600 dark:text-slate-400">{t('toxinLatency', { window: formatLatencyWindow(toxin.latencyHours) })}</span>
+                    </div>
+                    <section>
+                        <h3 className="font-semibold text-gray-800 dark:text-slate-200 mb-1">{t('toxinMechanism')}</h3>
+                        <p className="text-sm text-gray-700 dark:text-slate-300">{toxin.mechanism[language]}</p>
+                    </section>
+                    <section>
+                        <h3 className="font-semibold text-gray-800 dark:text-slate-200 mb-2">{t('toxinTargetOrgans')}</h3>
+                        <div className="flex flex-wrap gap-2">
+                            {toxin.targetOrgans.map(organ => <span key={organ} className="px-3 py-1 text-sm rounded-full bg-stone-100 dark:bg-stone-900/60 text-stone-800 dark:text-stone-200">{t(`organ_${organ}`)}</span>)}
+                        </div>
+                    </section>
+                    <section>
+                        <h3 className="font-semibold text-gray-800 dark:text-slate-200 mb-2">{t('toxinInCollection')}</h3>
+                        {entries.length > 0 ? (
+                            <ul className="divide-y divide-gray-200 dark:divide-slate-700 border border-gray-200 dark:border-slate-700 rounded-lg">
+                                {entries.map(entry => (
+                                    <li key={entry.id}>
+                                        <button onClick={() => onSelectEntry(entry)} className="w-full p-3 flex items-center gap-3 text-left hover:bg-amber-50 dark:hover:bg-slate-700">
+                                            <img src={entry.imageSrc} alt={entry.mushroomInfo.nombreComun} className="w-10 h-10 object-cover rounded-md flex-shrink-0" />
+                                            <div className="min-w-0">
+                                                <p className="font-semibold text-stone-800 dark:text-amber-200 truncate">{entry.mushroomInfo.nombreComun}</p>
+                                                <p className="text-xs italic text-gray-500 dark:text-slate-400 truncate">{entry.mushroomInfo.nombreCientifico}</p>
+                                            </div>
+                                        </button>
+                                    </li>
+                                ))}
+                            </ul>
+                        ) : (
+                            <p className="text-sm text-center text-gray-500 dark:text-slate-400 p-4 border border-dashed border-gray-300 dark:border-slate-600 rounded-lg">{t('toxinNotInCollection')}</p>
+                        )}
+                    </section>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -116,7 +116,341 @@ const esTranslations = {
   "error_service_config": "Error de configuración: La API Key proporcionada no es válida. Por favor, verifica en Render que no haya espacios extra al copiar la clave.",
   "error_service_config_api_key_missing": "Clave de API no encontrada. En Render, por seguridad, renombra tu variable de entorno a 'VITE_API_KEY' o 'REACT_APP_API_KEY'.",
   "error_identify_failed": "No se pudo identificar el hongo. Inténtalo con una imagen más clara o un nombre más específico.",
-  "toxic": "TÓXICO"
+  "toxic": "TÓXICO",
+  "incompleteResultTitle": "Resultado incompleto",
+  "incompleteResultBody": "El servicio de identificación no proporcionó algunos campos o los devolvió en un formato inesperado. Se marcan como ausentes en lugar de rellenarse con valores inventados:",
+  "notProvided": "No proporcionado",
+  "scientificName": "Nombre científico",
+  "description": "Descripción",
+  "geographicDistribution": "Distribución geográfica",
+  "candidatesTitle": "Especies candidatas",
+  "candidatesSubtitle": "Ordenadas de más a menos probable. Compara los rasgos con tu ejemplar y elige una para ver su ficha completa.",
+  "confidence": "Confianza",
+  "supportingFeatures": "A favor",
+  "opposingFeatures": "En contra",
+  "viewFullProfile": "Ver ficha completa",
+  "lowConfidenceWarning": "Confianza baja: ninguna especie encaja con claridad. Toma más fotos (láminas, pie, base) o consulta a un experto.",
+  "otherCandidates": "Otras especies candidatas",
+  "chosenCandidate": "Elegida",
+  "multiPhotoHint": "Para una identificación más segura añade varias vistas del mismo ejemplar: sombrero, láminas o poros, base del pie (¡busca la volva!) y un corte de la carne. Indica qué muestra cada foto.",
+  "addPhoto": "Añadir foto",
+  "removePhoto": "Quitar foto",
+  "photoViewLabel": "Vista de la foto",
+  "photoView_cap": "Sombrero (arriba)",
+  "photoView_gills": "Láminas / poros",
+  "photoView_stemBase": "Base del pie (volva)",
+  "photoView_crossSection": "Corte de la carne",
+  "photoView_other": "Otra vista",
+  "sourcePhotosTitle": "Fotos analizadas",
+  "answeredBy": "Respondido por {model}",
+  "modelInfo": "Ficha",
+  "modelImage": "Ilustración",
+  "modelMap": "Mapa",
+  "error_timeout": "El servicio de identificación tardó demasiado en responder, incluso con los modelos de respaldo. Inténtalo de nuevo en unos momentos.",
+  "settings": "Ajustes",
+  "responseCacheTitle": "Caché de consultas",
+  "responseCacheDescription": "Las búsquedas por nombre se guardan en este dispositivo para no repetir la consulta ni la generación de imágenes. Las fichas completas caducan a los 30 días; las que tienen alguna imagen fallida, al día siguiente.",
+  "cacheSummary": "{count} consultas guardadas · {size}",
+  "cacheEntryDates": "Guardada el {cached} · caduca el {expires}",
+  "cacheEmpty": "No hay consultas en caché.",
+  "clearCache": "Vaciar caché",
+  "clearCacheConfirm": "¿Seguro que quieres borrar todas las consultas en caché? Tu historial y tu colección no se verán afectados.",
+  "removeCacheEntry": "Quitar de la caché",
+  "cachedResultNotice": "Resultado guardado en caché el {date}.",
+  "refreshResult": "Actualizar",
+  "refreshResultHint": "Vuelve a consultar el servicio ignorando la caché",
+  "cancel": "Cancelar",
+  "streamingProfile": "Recibiendo la ficha del hongo…",
+  "streamingMedia": "Generando la ilustración y el mapa…",
+  "generatingIllustration": "Generando ilustración…",
+  "generatingMap": "Generando mapa de distribución…",
+  "followUpTitle": "Preguntas sobre este hongo",
+  "followUpIntro": "¿Tienes dudas? Pregunta, por ejemplo, si cambia de color al cortarlo o si se puede secar. Las respuestas se basan en esta ficha, tus fotos y sus fuentes.",
+  "followUpPlaceholder": "Escribe tu pregunta…",
+  "followUpSend": "Enviar pregunta",
+  "followUpThinking": "Pensando la respuesta…",
+  "followUpError": "No se pudo obtener una respuesta. Inténtalo de nuevo.",
+  "followUpDisclaimer": "Las respuestas son orientativas. Nunca consumas un hongo sin la verificación de un experto.",
+  "keyTitle": "Clave de identificación",
+  "keyProgress": "Pregunta {current} de {max} como máximo",
+  "keyAmbiguousPrompt": "Las fotos no bastan para distinguir estas especies. Responde unas preguntas sobre el ejemplar para acotarlas.",
+  "keyStart": "Responder preguntas",
+  "keyContinue": "Seguir con las preguntas",
+  "keyStop": "Ver las candidatas",
+  "keyAnswerUnknown": "No lo sé",
+  "keyAnswersSoFar": "Tus respuestas",
+  "keyNarrowedNotice": "Candidatas reordenadas con tus {count} respuestas a la clave de identificación.",
+  "keyTrailTitle": "Clave de identificación",
+  "keyTrailDescription": "Preguntas que respondiste para acotar la identificación.",
+  "keyFeature_sporePrint": "Esporada",
+  "keyFeature_gillAttachment": "Inserción de las láminas",
+  "keyFeature_ringOrVolva": "Anillo o volva",
+  "keyFeature_smell": "Olor",
+  "keyFeature_bruising": "Cambio de color",
+  "keyFeature_other": "Otro rasgo",
+  "safetyBannerSpeciesTitle": "Especie mortal: no la consumas",
+  "safetyBannerLookalikeTitle": "Se parece a una especie mortal",
+  "safetyMatchSpecies": "Especie identificada",
+  "safetyMatchLookalike": "Parecido",
+  "safetyEscalated": "Nivel de toxicidad elevado de «{from}» a «{to}» por las reglas de seguridad de la app.",
+  "safetyRecipesHidden": "Las recetas se han ocultado por seguridad.",
+  "safetyRulesVersion": "Reglas de seguridad locales, versión {version}",
+  "verificationTitle": "Segunda opinión sobre los parecidos tóxicos",
+  "verificationPending": "Verificando los parecidos tóxicos con una segunda opinión...",
+  "verificationFailed": "No se pudo obtener la segunda opinión sobre los parecidos tóxicos. Trata esta identificación como no verificada.",
+  "verificationAgree": "Descartado:",
+  "verificationDisagree": "No descartado:",
+  "verificationDowngraded": "La segunda opinión no pudo descartar todos los parecidos tóxicos: el veredicto pasa de «{from}» a «{to}» y se ocultan las recetas.",
+  "verificationBy": "Verificado por {model}",
+  "emergencyButton": "Emergencia por intoxicación",
+  "emergencyAteThis": "Alguien se lo ha comido",
+  "emergencyTitle": "Emergencia por intoxicación",
+  "emergencyIntro": "Si alguien tiene síntomas graves, pierde el conocimiento o tiene dificultad para respirar, llama al número de emergencias ahora. No esperes a que aparezcan síntomas: algunas toxinas tardan horas en manifestarse.",
+  "emergencyRegion": "Región",
+  "emergencyPoisonControl": "Centro de toxicología",
+  "emergencyNumber": "Emergencias",
+  "emergencyAllCentres": "Ver todos los centros de toxicología",
+  "emergencyTableVersion": "Tabla de centros de toxicología v{version}. Confirma el número local si no estás seguro.",
+  "emergencySpecies": "Hongo ingerido",
+  "emergencyUnknownSpecies": "Desconocido / no identificado",
+  "emergencyUnknownSpeciesHint": "Si es posible, guarda los restos del hongo (crudos o cocinados) y llévalos al hospital: ayudan a identificarlo.",
+  "emergencyIngestion": "Ingesta",
+  "emergencyIngestedAt": "Hora de la ingesta",
+  "emergencyElapsed": "Hace {hours} h {minutes} min",
+  "emergencyAmount": "Cantidad",
+  "emergencyAmountPlaceholder": "Ej.: medio sombrero, un plato cocinado...",
+  "emergencyWhoAte": "Quién lo comió",
+  "emergencyWhoAtePlaceholder": "Ej.: adulto de 40 años, 70 kg; niño de 6 años...",
+  "emergencySymptomTimeline": "Evolución de los síntomas",
+  "emergencyNoSymptoms": "Sin síntomas registrados.",
+  "emergencySymptomTime": "Hora del síntoma",
+  "emergencySymptomPlaceholder": "Ej.: náuseas, vómitos, diarrea...",
+  "emergencyAddSymptom": "Añadir",
+  "emergencyRemoveSymptom": "Eliminar síntoma",
+  "emergencyDownloadPdf": "Descargar informe PDF",
+  "emergencyShareSummary": "Compartir resumen",
+  "emergencySummaryCopied": "Resumen copiado",
+  "emergencyCloseIncident": "Cerrar incidente",
+  "emergencyCloseIncidentConfirm": "¿Cerrar el incidente? Se borrarán la hora de ingesta y los síntomas registrados.",
+  "emergencyReportTitle": "Posible intoxicación por hongos - informe para el personal sanitario",
+  "emergencyIdentifiedBy": "Identificación orientativa de una app ({source}); no es un diagnóstico.",
+  "emergencyIdentifiedByPhoto": "a partir de fotos",
+  "emergencyIdentifiedByText": "búsqueda por nombre",
+  "emergencyReportDisclaimer": "Datos registrados por el paciente o acompañantes. Confirmar la especie con un micólogo y con los restos del hongo.",
+  "emergencyReportTruncated": "(informe recortado: ver el resumen compartido para el texto completo)",
+  "emergencyFileName": "informe_intoxicacion",
+  "emergencyExportError": "No se pudo generar el PDF.",
+  "emergencyShareError": "No se pudo compartir ni copiar el resumen.",
+  "symptomCheckerButton": "Buscar por síntomas",
+  "symptomCheckerTitle": "Buscar por síntomas",
+  "symptomCheckerDisclaimer": "Orientación a partir de una tabla de síndromes conocidos, no un diagnóstico. Ante cualquier síntoma tras comer setas, llama al centro de toxicología.",
+  "symptomCheckerLatency": "¿Cuánto tardaron en aparecer los síntomas?",
+  "symptomCheckerLateOnset": "Los síntomas que aparecen 6 horas o más después de comer son típicos de los síndromes más graves (amatoxinas, orellanina). Acude al hospital aunque los síntomas mejoren.",
+  "symptomCheckerSymptoms": "Síntomas",
+  "symptomCheckerResults": "Síndromes compatibles",
+  "symptomCheckerEmpty": "Indica el tiempo de aparición y los síntomas para ver los síndromes compatibles.",
+  "symptomCheckerNoMatch": "Ningún síndrome de la tabla coincide con estos datos. Consulta igualmente con el centro de toxicología.",
+  "symptomCheckerScore": "{score}% de coincidencia",
+  "symptomCheckerWindow": "Aparición típica: {window}",
+  "symptomCheckerWindowMismatch": "(no coincide con el tiempo indicado)",
+  "symptomCheckerGenera": "Géneros: {genera}",
+  "symptomCheckerMatched": "Síntomas coincidentes: {symptoms}",
+  "symptomCheckerRelatedEntries": "En tu historial o colección, con estas toxinas:",
+  "symptomLatency_unknown": "No lo sé",
+  "symptomLatency_under30m": "Menos de 30 min",
+  "symptomLatency_30mTo2h": "30 min - 2 h",
+  "symptomLatency_2hTo6h": "2 - 6 h",
+  "symptomLatency_6hTo24h": "6 - 24 h",
+  "symptomLatency_1dTo3d": "1 - 3 días",
+  "symptomLatency_over3d": "Más de 3 días",
+  "symptom_nausea": "Náuseas",
+  "symptom_vomiting": "Vómitos",
+  "symptom_diarrhea": "Diarrea",
+  "symptom_abdominalPain": "Dolor abdominal",
+  "symptom_sweating": "Sudoración intensa",
+  "symptom_salivation": "Salivación",
+  "symptom_tearing": "Lagrimeo",
+  "symptom_blurredVision": "Visión borrosa",
+  "symptom_slowHeartbeat": "Pulso lento",
+  "symptom_flushing": "Enrojecimiento facial",
+  "symptom_palpitations": "Palpitaciones",
+  "symptom_headache": "Dolor de cabeza",
+  "symptom_afterAlcohol": "Empezó al beber alcohol",
+  "symptom_confusion": "Confusión",
+  "symptom_agitation": "Agitación o euforia",
+  "symptom_drowsiness": "Somnolencia profunda",
+  "symptom_hallucinations": "Alucinaciones",
+  "symptom_dilatedPupils": "Pupilas dilatadas",
+  "symptom_seizures": "Convulsiones",
+  "symptom_jaundice": "Piel u ojos amarillos",
+  "symptom_apparentRecovery": "Mejoría tras los primeros síntomas",
+  "symptom_thirst": "Sed intensa",
+  "symptom_reducedUrine": "Orina escasa",
+  "symptom_flankPain": "Dolor lumbar",
+  "symptom_fatigue": "Cansancio extremo",
+  "toxinLatency": "Aparición típica: {window}",
+  "toxinMechanism": "Mecanismo",
+  "toxinTargetOrgans": "Órganos afectados",
+  "toxinInCollection": "En tu colección",
+  "toxinNotInCollection": "Ningún hongo de tu colección contiene esta toxina.",
+  "organ_liver": "Hígado",
+  "organ_kidneys": "Riñones",
+  "organ_nervousSystem": "Sistema nervioso",
+  "organ_gut": "Aparato digestivo",
+  "organ_heart": "Corazón y circulación",
+  "organ_blood": "Sangre",
+  "howToEat": "Cómo puede comerse",
+  "howToEatRawOk": "Puede comerse crudo, respetando los requisitos.",
+  "howToEatNeverRaw": "Nunca debe comerse crudo.",
+  "howToEatRequirements": "Requisitos de preparación",
+  "howToEatInteractions": "Interacciones peligrosas",
+  "preparationStep_thoroughCooking": "Cocinar bien",
+  "preparationStep_parboil": "Hervir antes",
+  "preparationStep_discardCookingWater": "Desechar el agua de cocción",
+  "preparationStep_youngSpecimensOnly": "Solo ejemplares jóvenes",
+  "preparationStep_removePart": "Retirar una parte",
+  "preparationStep_smallAmounts": "Cantidades pequeñas",
+  "preparationStep_other": "Otro",
+  "interaction_alcohol": "Alcohol",
+  "interaction_medication": "Medicamentos",
+  "interaction_allergy": "Alergias",
+  "interaction_other": "Otra",
+  "recipesRefusedTitle": "Recetas descartadas por no respetar las condiciones de consumo",
+  "recipeViolation_raw": "sirve la seta cruda",
+  "recipeViolation_parboil": "no la hierve antes desechando el agua",
+  "recipeViolation_alcohol": "lleva alcohol",
+  "checklistTitle": "Comprobaciones antes de consumir",
+  "checklistDescription": "Completa todas las comprobaciones para ver las recetas ({done}/{total}).",
+  "checklistRecipesLocked": "Las recetas están bloqueadas hasta completar las comprobaciones de seguridad de este ejemplar.",
+  "checklist_sporePrint": "La esporada coincide con el color esperado para la especie",
+  "checklist_stemBase": "He desenterrado la base del pie y comprobado si hay volva",
+  "checklist_lookalike": "Diferencia con «{name}» comprobada",
+  "checklist_expert": "Un experto local (sociedad micológica, farmacéutico) ha confirmado la identificación",
+  "checklistExpertPlaceholder": "Nombre del experto o entidad (opcional)",
+  "checklistDoneAt": "Hecho el {date}",
+  "riskProfileTitle": "Perfil de riesgo personal",
+  "riskProfileDescription": "Marca lo que te afecta a ti o a tu hogar para ver avisos adaptados en los resultados, la toxicidad y las recetas. Se guarda solo en este dispositivo y no se envía al modelo.",
+  "riskFactor_pregnancy": "Embarazo o lactancia",
+  "riskFactor_liverDisease": "Enfermedad hepática",
+  "riskFactor_kidneyDisease": "Enfermedad renal",
+  "riskFactor_maoInhibitors": "Tomo inhibidores de la MAO (IMAO)",
+  "riskFactor_drinksAlcohol": "Consumo alcohol",
+  "riskFactor_children": "Niños en casa",
+  "riskFactor_pets": "Mascotas en casa",
+  "riskNotesTitle": "Avisos para tu perfil",
+  "riskNote_children_toxic": "No es comestible: guárdala fuera del alcance de los niños y retira los ejemplares del jardín. Si un niño la ha probado, llama a toxicología aunque no tenga síntomas.",
+  "riskNote_pets_toxic": "Los perros comen setas con frecuencia: retira los ejemplares de jardines y paseos. Si tu mascota la ha comido, llama al veterinario de inmediato.",
+  "riskNote_pregnancy_wild": "Durante el embarazo y la lactancia evita las setas silvestres: una intoxicación leve puede afectar al bebé y muchos tratamientos están limitados.",
+  "riskNote_liverDisease_amatoxins": "Las amatoxinas destruyen el hígado: con una enfermedad hepática previa, incluso una dosis pequeña puede ser mortal.",
+  "riskNote_kidneyDisease_amatoxins": "Las amatoxinas también dañan el riñón: una enfermedad renal previa empeora mucho el pronóstico.",
+  "riskNote_liverDisease_gyromitrin": "La giromitrina daña el hígado: con una enfermedad hepática el riesgo es mucho mayor.",
+  "riskNote_kidneyDisease_orellanine": "La orellanina ataca los riñones: con una enfermedad renal previa el daño puede ser irreversible antes de notar síntomas.",
+  "riskNote_drinksAlcohol_coprine": "Contiene coprina: beber alcohol hasta 72 h antes o después de comerla provoca enrojecimiento, palpitaciones y malestar.",
+  "riskNote_maoInhibitors_psilocybin": "Contiene psilocibina: con IMAO u otros fármacos serotoninérgicos sus efectos pueden ser imprevisibles y más intensos.",
+  "riskNote_drinksAlcohol_recipes": "No bebas alcohol con esta comida ni en los días siguientes, y no uses recetas que lo lleven.",
+  "riskNote_pregnancy_recipes": "Consulta con tu médico antes de comer setas silvestres durante el embarazo o la lactancia.",
+  "riskNote_liverDisease_recipes": "Con una enfermedad hepática, toma raciones pequeñas y consulta con tu médico: incluso las setas comestibles pueden sentar mal.",
+  "riskNote_kidneyDisease_recipes": "Con una enfermedad renal, consulta con tu médico: algunas setas son ricas en potasio y fósforo.",
+  "error_storage_quota": "No queda espacio de almacenamiento en este dispositivo: los últimos cambios no se han guardado. Borra entradas del historial o fotos del diario y vuelve a intentarlo.",
+  "error_storage_write": "No se pudieron guardar los últimos cambios en este dispositivo.",
+  "error_storage_load": "No se pudieron cargar el historial y la colección guardados. Para no sobrescribirlos, los nuevos resultados y los cambios en la colección no se guardarán hasta que recargues la página.",
+  "error_storage_unavailable": "Este navegador no permite guardar datos (¿modo privado?): el historial y la colección se perderán al cerrar la página.",
+  "storageQuarantined": "{count} registros dañados se han apartado al cargar",
+  "backupTitle": "Copia de seguridad",
+  "backupCreateTitle": "Crear copia",
+  "backupCreateDescription": "Descarga un archivo .zip con todo tu contenido: {collection} entradas de la colección y {history} del historial, con la ficha completa, las fuentes, el diario de campo y todas las fotos.",
+  "backupCreateButton": "Descargar copia (.zip)",
+  "backupCreateFailed": "No se pudo crear la copia de seguridad.",
+  "backupRestoreTitle": "Restaurar copia",
+  "backupRestoreDescription": "Elige un archivo creado con «Descargar copia». Antes de aplicar nada verás qué contiene.",
+  "backupChooseFile": "Elegir archivo .zip",
+  "backupInvalid": "El archivo no es una copia de seguridad válida de esta aplicación o está dañado.",
+  "backupExportedAt": "Copia creada el {date}",
+  "backupContains": "Contiene {collection} entradas de la colección y {history} del historial.",
+  "backupDuplicates": "{count} entradas ya existen en este dispositivo (mismo identificador).",
+  "backupSkipped": "{count} registros dañados de la copia se omitirán.",
+  "backupModeLabel": "Cómo restaurar",
+  "backupMode_mergeKeep": "Combinar, conservando lo actual",
+  "backupModeHint_mergeKeep": "Añade las entradas nuevas; las repetidas se quedan como están en este dispositivo.",
+  "backupMode_mergeOverwrite": "Combinar, usando la copia",
+  "backupModeHint_mergeOverwrite": "Añade las entradas nuevas; las repetidas se sustituyen por la versión de la copia.",
+  "backupMode_replace": "Reemplazar todo",
+  "backupModeHint_replace": "Borra la colección y el historial actuales y deja solo el contenido de la copia.",
+  "backupReplaceConfirm": "Se borrarán la colección y el historial actuales y se sustituirán por la copia. ¿Continuar?",
+  "backupRestoreButton": "Restaurar",
+  "backupRestored": "Copia restaurada",
+  "storageTitle": "Almacenamiento",
+  "storageDescription": "Espacio que ocupan en este dispositivo el historial y la colección. Cada imagen se guarda una sola vez aunque la usen varias entradas.",
+  "storageTotal": "Total: {size}",
+  "storageDevice": "El navegador indica {usage} usados de {quota} disponibles para esta app.",
+  "storageCategory_entryData": "Datos de las entradas",
+  "storageCategory_images": "Imágenes de la colección e historial",
+  "storageCategory_sourcePhotos": "Fotos originales del análisis",
+  "storageCategory_userPhotos": "Fotos del diario de campo",
+  "storageCategory_maps": "Mapas generados",
+  "storageByEntry": "Por entrada",
+  "storageCleanupTitle": "Liberar espacio",
+  "storageFrees": "Libera aprox. {size}",
+  "storageNothingToFree": "No hay nada que liberar",
+  "storageRemovesEntries": "elimina {count} entradas",
+  "storagePurgeDaysLabel": "Más antiguas de (días):",
+  "storageAction_downscalePhotos": "Reducir las fotos del diario de campo a 400 px",
+  "storageAction_dropMaps": "Eliminar los mapas de distribución generados",
+  "storageAction_purgeHistory": "Borrar entradas antiguas del historial",
+  "storageAction_removeWithoutDiary": "Quitar de la colección las entradas sin datos de diario",
+  "storageRun_downscalePhotos": "Reducir",
+  "storageRun_dropMaps": "Eliminar mapas",
+  "storageRun_purgeHistory": "Borrar",
+  "storageRun_removeWithoutDiary": "Quitar",
+  "storageConfirm_downscalePhotos": "Las fotos del diario de campo se guardarán con menos resolución. No se puede deshacer. ¿Continuar?",
+  "storageConfirm_dropMaps": "Se eliminarán los mapas generados de todas las entradas. No se puede deshacer. ¿Continuar?",
+  "storageConfirm_purgeHistory": "Se borrarán {count} entradas del historial con más de {days} días. Las de tu colección se conservan. ¿Continuar?",
+  "storageConfirm_removeWithoutDiary": "Se quitarán de tu colección {count} entradas sin notas, fecha, ubicación, fotos ni comprobaciones. ¿Continuar?",
+  "storageCleanupDone": "Espacio liberado",
+  "importTitle": "Importar",
+  "importDescription": "Importa hallazgos desde una exportación JSON de la colección de esta app (mushroom_collection_export_*.json) o desde un CSV de observaciones de iNaturalist. Se importan nombre, nombre científico, fecha, coordenadas y notas; la ficha de cada especie queda incompleta y su toxicidad como «Con Precaución» (o más grave si la especie figura en las reglas de seguridad) hasta que la consultes de nuevo.",
+  "importChooseFile": "Elegir archivo",
+  "importInvalid": "El archivo no es una exportación de la colección ni un CSV de iNaturalist.",
+  "importSource_collectionJson": "exportación de la colección",
+  "importSource_inaturalistCsv": "CSV de iNaturalist",
+  "importSummary": "{count} hallazgos en el archivo ({source}).",
+  "importConflicts": "{count} parecen estar ya en tu colección; por defecto se omiten.",
+  "importSkipped": "{count} filas sin nombre o con datos no válidos se han descartado.",
+  "importAll": "Importar todo",
+  "importNone": "Omitir todo",
+  "importUpdateAllConflicts": "Actualizar todos los duplicados",
+  "importHasNotes": "con notas",
+  "importNoDiary": "Sin fecha, ubicación ni notas",
+  "importConflictWith": "Coincide con «{name}» ({date}) de tu colección",
+  "importResolutionLabel": "Qué hacer con esta fila",
+  "importResolution_import": "Importar",
+  "importResolution_keepBoth": "Importar como nuevo",
+  "importResolution_update": "Actualizar el existente",
+  "importResolution_skip": "Omitir",
+  "importButton": "Importar {count}",
+  "importDone": "{count} hallazgos importados",
+  "observationExportTitle": "Exportar observaciones",
+  "observationExportFormat": "Formato",
+  "observationFormat_darwinCore": "Darwin Core Archive",
+  "observationFormatHint_darwinCore": "ZIP con occurrence.txt, multimedia.txt, meta.xml y las fotos del diario, para GBIF y otros portales de biodiversidad.",
+  "observationFormat_inaturalist": "CSV para iNaturalist",
+  "observationFormatHint_inaturalist": "ZIP con observations.csv en el formato de importación de iNaturalist. Las fotos van en photos/ con el número de fila delante, para subirlas a mano.",
+  "observationExportReady": "{ready} de {total} hallazgos listos para exportar (se respetan el filtro y el orden de la colección).",
+  "observationIssue_missingScientificName": "Falta el nombre científico",
+  "observationIssue_missingDate": "Falta la fecha del hallazgo",
+  "observationIssue_missingLocation": "Sin ubicación",
+  "observationExcluded": "No se incluirá: completa los datos en el diario de campo.",
+  "observationExportButton": "Exportar {count}",
+  "observationExportFailed": "No se pudo crear la exportación.",
+  "observationFormat_geojson": "GeoJSON",
+  "observationFormatHint_geojson": "Puntos para QGIS y otras herramientas SIG, con especie, toxicidad, fecha y notas como propiedades.",
+  "observationFormat_kml": "KML",
+  "observationFormatHint_kml": "Marcadores para Google Earth y Google My Maps.",
+  "observationFormat_gpx": "GPX",
+  "observationFormatHint_gpx": "Puntos de ruta para dispositivos GPS y apps de senderismo.",
+  "emergencyRepointConfirm": "Hay un incidente abierto para «{current}». ¿Cambiar su hongo a «{next}»? La hora de ingesta y los síntomas se mantienen. Si es otro incidente, cancela y ciérralo primero.",
+  "groupRisks": "Riesgos para grupos sensibles",
+  "storageNewerEntries": "{count} entradas guardadas por una versión más reciente de la app no se muestran; se conservan intactas."
 };
 
 const enTranslations = {
@@ -235,7 +569,341 @@ const enTranslations = {
   "error_service_config": "Configuration Error: The provided API Key is invalid. Please check Render configuration for extra spaces.",
   "error_service_config_api_key_missing": "API Key not found. On Render, for security, please rename your environment variable to 'VITE_API_KEY' or 'REACT_APP_API_KEY'.",
   "error_identify_failed": "Could not identify the mushroom. Please try with a clearer image or a more specific name.",
-  "toxic": "TOXIC"
+  "toxic": "TOXIC",
+  "incompleteResultTitle": "Incomplete result",
+  "incompleteResultBody": "The identification service did not provide some fields or returned them in an unexpected format. They are flagged as missing instead of being filled with made-up values:",
+  "notProvided": "Not provided",
+  "scientificName": "Scientific name",
+  "description": "Description",
+  "geographicDistribution": "Geographic distribution",
+  "candidatesTitle": "Candidate species",
+  "candidatesSubtitle": "Ranked from most to least likely. Compare the features with your specimen and pick one to see its full profile.",
+  "confidence": "Confidence",
+  "supportingFeatures": "Supporting",
+  "opposingFeatures": "Against",
+  "viewFullProfile": "View full profile",
+  "lowConfidenceWarning": "Low confidence: no species is a clear match. Take more photos (gills, stem, base) or consult an expert.",
+  "otherCandidates": "Other candidate species",
+  "chosenCandidate": "Chosen",
+  "multiPhotoHint": "For a safer identification add several views of the same specimen: cap, gills or pores, stem base (look for a volva!) and a cut through the flesh. Tag what each photo shows.",
+  "addPhoto": "Add photo",
+  "removePhoto": "Remove photo",
+  "photoViewLabel": "Photo view",
+  "photoView_cap": "Cap (top)",
+  "photoView_gills": "Gills / pores",
+  "photoView_stemBase": "Stem base (volva)",
+  "photoView_crossSection": "Cut flesh",
+  "photoView_other": "Other view",
+  "sourcePhotosTitle": "Analyzed photos",
+  "answeredBy": "Answered by {model}",
+  "modelInfo": "Profile",
+  "modelImage": "Illustration",
+  "modelMap": "Map",
+  "error_timeout": "The identification service took too long to respond, even with the fallback models. Please try again in a few moments.",
+  "settings": "Settings",
+  "responseCacheTitle": "Lookup cache",
+  "responseCacheDescription": "Name searches are stored on this device so the lookup and image generation are not repeated. Complete profiles expire after 30 days; those with a failed image, after one day.",
+  "cacheSummary": "{count} cached lookups · {size}",
+  "cacheEntryDates": "Cached on {cached} · expires on {expires}",
+  "cacheEmpty": "No cached lookups.",
+  "clearCache": "Clear cache",
+  "clearCacheConfirm": "Are you sure you want to delete all cached lookups? Your history and collection will not be affected.",
+  "removeCacheEntry": "Remove from cache",
+  "cachedResultNotice": "Result cached on {date}.",
+  "refreshResult": "Refresh",
+  "refreshResultHint": "Query the service again, ignoring the cache",
+  "cancel": "Cancel",
+  "streamingProfile": "Receiving the mushroom profile…",
+  "streamingMedia": "Generating the illustration and map…",
+  "generatingIllustration": "Generating illustration…",
+  "generatingMap": "Generating distribution map…",
+  "followUpTitle": "Questions about this mushroom",
+  "followUpIntro": "Have a question? Ask, for example, whether it stains blue when cut or whether it can be dried. Answers are based on this profile, your photos and its sources.",
+  "followUpPlaceholder": "Type your question…",
+  "followUpSend": "Send question",
+  "followUpThinking": "Thinking about the answer…",
+  "followUpError": "Could not get an answer. Please try again.",
+  "followUpDisclaimer": "Answers are for guidance only. Never eat a mushroom without an expert's verification.",
+  "keyTitle": "Identification key",
+  "keyProgress": "Question {current} of at most {max}",
+  "keyAmbiguousPrompt": "The photos are not enough to tell these species apart. Answer a few questions about the specimen to narrow them down.",
+  "keyStart": "Answer questions",
+  "keyContinue": "Continue the questions",
+  "keyStop": "Show candidates",
+  "keyAnswerUnknown": "I don't know",
+  "keyAnswersSoFar": "Your answers",
+  "keyNarrowedNotice": "Candidates re-ranked with your {count} answers to the identification key.",
+  "keyTrailTitle": "Identification key",
+  "keyTrailDescription": "Questions you answered to narrow down the identification.",
+  "keyFeature_sporePrint": "Spore print",
+  "keyFeature_gillAttachment": "Gill attachment",
+  "keyFeature_ringOrVolva": "Ring or volva",
+  "keyFeature_smell": "Smell",
+  "keyFeature_bruising": "Bruising",
+  "keyFeature_other": "Other feature",
+  "safetyBannerSpeciesTitle": "Deadly species: do not eat",
+  "safetyBannerLookalikeTitle": "Resembles a deadly species",
+  "safetyMatchSpecies": "Identified species",
+  "safetyMatchLookalike": "Lookalike",
+  "safetyEscalated": "Toxicity level raised from \"{from}\" to \"{to}\" by the app's safety rules.",
+  "safetyRecipesHidden": "Recipes have been hidden for safety.",
+  "safetyRulesVersion": "Local safety rules, version {version}",
+  "verificationTitle": "Second opinion on toxic lookalikes",
+  "verificationPending": "Checking the toxic lookalikes with a second opinion...",
+  "verificationFailed": "The second opinion on the toxic lookalikes could not be obtained. Treat this identification as unverified.",
+  "verificationAgree": "Ruled out:",
+  "verificationDisagree": "Not ruled out:",
+  "verificationDowngraded": "The second opinion could not rule out every toxic lookalike: the verdict changes from \"{from}\" to \"{to}\" and recipes are hidden.",
+  "verificationBy": "Verified by {model}",
+  "emergencyButton": "Poisoning emergency",
+  "emergencyAteThis": "Someone ate this",
+  "emergencyTitle": "Poisoning emergency",
+  "emergencyIntro": "If someone has severe symptoms, loses consciousness or struggles to breathe, call the emergency number now. Do not wait for symptoms: some toxins take hours to show.",
+  "emergencyRegion": "Region",
+  "emergencyPoisonControl": "Poison control",
+  "emergencyNumber": "Emergency",
+  "emergencyAllCentres": "See all poison-control centres",
+  "emergencyTableVersion": "Poison-control table v{version}. Confirm the local number if unsure.",
+  "emergencySpecies": "Mushroom eaten",
+  "emergencyUnknownSpecies": "Unknown / not identified",
+  "emergencyUnknownSpeciesHint": "If possible, keep any leftovers of the mushroom (raw or cooked) and bring them to the hospital: they help identify it.",
+  "emergencyIngestion": "Ingestion",
+  "emergencyIngestedAt": "Time of ingestion",
+  "emergencyElapsed": "{hours} h {minutes} min ago",
+  "emergencyAmount": "Amount",
+  "emergencyAmountPlaceholder": "E.g. half a cap, a cooked dish...",
+  "emergencyWhoAte": "Who ate it",
+  "emergencyWhoAtePlaceholder": "E.g. adult, 40 years, 70 kg; child, 6 years...",
+  "emergencySymptomTimeline": "Symptom timeline",
+  "emergencyNoSymptoms": "No symptoms recorded.",
+  "emergencySymptomTime": "Time of symptom",
+  "emergencySymptomPlaceholder": "E.g. nausea, vomiting, diarrhoea...",
+  "emergencyAddSymptom": "Add",
+  "emergencyRemoveSymptom": "Remove symptom",
+  "emergencyDownloadPdf": "Download PDF report",
+  "emergencyShareSummary": "Share summary",
+  "emergencySummaryCopied": "Summary copied",
+  "emergencyCloseIncident": "Close incident",
+  "emergencyCloseIncidentConfirm": "Close the incident? The ingestion time and recorded symptoms will be deleted.",
+  "emergencyReportTitle": "Suspected mushroom poisoning - report for medical staff",
+  "emergencyIdentifiedBy": "Tentative identification by an app ({source}); not a diagnosis.",
+  "emergencyIdentifiedByPhoto": "from photos",
+  "emergencyIdentifiedByText": "name search",
+  "emergencyReportDisclaimer": "Recorded by the patient or companions. Confirm the species with a mycologist and the mushroom leftovers.",
+  "emergencyReportTruncated": "(report truncated: see the shared summary for the full text)",
+  "emergencyFileName": "poisoning_report",
+  "emergencyExportError": "Could not generate the PDF.",
+  "emergencyShareError": "Could not share or copy the summary.",
+  "symptomCheckerButton": "Symptom checker",
+  "symptomCheckerTitle": "Symptom checker",
+  "symptomCheckerDisclaimer": "Guidance from a table of known syndromes, not a diagnosis. For any symptom after eating wild mushrooms, call poison control.",
+  "symptomCheckerLatency": "How long after eating did symptoms start?",
+  "symptomCheckerLateOnset": "Symptoms starting 6 hours or more after eating are typical of the most severe syndromes (amatoxins, orellanine). Go to hospital even if symptoms improve.",
+  "symptomCheckerSymptoms": "Symptoms",
+  "symptomCheckerResults": "Matching syndromes",
+  "symptomCheckerEmpty": "Pick the onset time and the symptoms to see the matching syndromes.",
+  "symptomCheckerNoMatch": "No syndrome in the table matches. Contact poison control anyway.",
+  "symptomCheckerScore": "{score}% match",
+  "symptomCheckerWindow": "Typical onset: {window}",
+  "symptomCheckerWindowMismatch": "(does not match the onset given)",
+  "symptomCheckerGenera": "Genera: {genera}",
+  "symptomCheckerMatched": "Matching symptoms: {symptoms}",
+  "symptomCheckerRelatedEntries": "In your history or collection, with these toxins:",
+  "symptomLatency_unknown": "I don't know",
+  "symptomLatency_under30m": "Under 30 min",
+  "symptomLatency_30mTo2h": "30 min - 2 h",
+  "symptomLatency_2hTo6h": "2 - 6 h",
+  "symptomLatency_6hTo24h": "6 - 24 h",
+  "symptomLatency_1dTo3d": "1 - 3 days",
+  "symptomLatency_over3d": "Over 3 days",
+  "symptom_nausea": "Nausea",
+  "symptom_vomiting": "Vomiting",
+  "symptom_diarrhea": "Diarrhoea",
+  "symptom_abdominalPain": "Abdominal pain",
+  "symptom_sweating": "Heavy sweating",
+  "symptom_salivation": "Salivation",
+  "symptom_tearing": "Tearing",
+  "symptom_blurredVision": "Blurred vision",
+  "symptom_slowHeartbeat": "Slow pulse",
+  "symptom_flushing": "Facial flushing",
+  "symptom_palpitations": "Palpitations",
+  "symptom_headache": "Headache",
+  "symptom_afterAlcohol": "Started on drinking alcohol",
+  "symptom_confusion": "Confusion",
+  "symptom_agitation": "Agitation or euphoria",
+  "symptom_drowsiness": "Deep drowsiness",
+  "symptom_hallucinations": "Hallucinations",
+  "symptom_dilatedPupils": "Dilated pupils",
+  "symptom_seizures": "Seizures",
+  "symptom_jaundice": "Yellow skin or eyes",
+  "symptom_apparentRecovery": "Improvement after first symptoms",
+  "symptom_thirst": "Intense thirst",
+  "symptom_reducedUrine": "Scanty urine",
+  "symptom_flankPain": "Flank pain",
+  "symptom_fatigue": "Extreme fatigue",
+  "toxinLatency": "Typical onset: {window}",
+  "toxinMechanism": "Mechanism",
+  "toxinTargetOrgans": "Target organs",
+  "toxinInCollection": "In your collection",
+  "toxinNotInCollection": "No mushroom in your collection contains this toxin.",
+  "organ_liver": "Liver",
+  "organ_kidneys": "Kidneys",
+  "organ_nervousSystem": "Nervous system",
+  "organ_gut": "Digestive tract",
+  "organ_heart": "Heart and circulation",
+  "organ_blood": "Blood",
+  "howToEat": "How it may be eaten",
+  "howToEatRawOk": "It can be eaten raw, following the requirements.",
+  "howToEatNeverRaw": "Never eat it raw.",
+  "howToEatRequirements": "Preparation requirements",
+  "howToEatInteractions": "Dangerous interactions",
+  "preparationStep_thoroughCooking": "Cook thoroughly",
+  "preparationStep_parboil": "Parboil first",
+  "preparationStep_discardCookingWater": "Discard the cooking water",
+  "preparationStep_youngSpecimensOnly": "Young specimens only",
+  "preparationStep_removePart": "Remove a part",
+  "preparationStep_smallAmounts": "Small amounts",
+  "preparationStep_other": "Other",
+  "interaction_alcohol": "Alcohol",
+  "interaction_medication": "Medication",
+  "interaction_allergy": "Allergies",
+  "interaction_other": "Other",
+  "recipesRefusedTitle": "Recipes withheld because they break the eating conditions",
+  "recipeViolation_raw": "serves the mushroom raw",
+  "recipeViolation_parboil": "does not parboil it and discard the water",
+  "recipeViolation_alcohol": "contains alcohol",
+  "checklistTitle": "Pre-consumption checks",
+  "checklistDescription": "Complete every check to see the recipes ({done}/{total}).",
+  "checklistRecipesLocked": "Recipes are locked until the safety checks for this specimen are complete.",
+  "checklist_sporePrint": "The spore print matches the colour expected for the species",
+  "checklist_stemBase": "I dug up the stem base and checked it for a volva",
+  "checklist_lookalike": "Difference from “{name}” verified",
+  "checklist_expert": "A local expert (mycological society, pharmacist) confirmed the identification",
+  "checklistExpertPlaceholder": "Expert or organisation name (optional)",
+  "checklistDoneAt": "Done on {date}",
+  "riskProfileTitle": "Personal risk profile",
+  "riskProfileDescription": "Tick what applies to you or your household to get tailored warnings in results, toxicity and recipes. It stays on this device and is never sent to the model.",
+  "riskFactor_pregnancy": "Pregnancy or breastfeeding",
+  "riskFactor_liverDisease": "Liver disease",
+  "riskFactor_kidneyDisease": "Kidney disease",
+  "riskFactor_maoInhibitors": "I take MAO inhibitors (MAOIs)",
+  "riskFactor_drinksAlcohol": "I drink alcohol",
+  "riskFactor_children": "Children in the household",
+  "riskFactor_pets": "Pets in the household",
+  "riskNotesTitle": "Warnings for your profile",
+  "riskNote_children_toxic": "Not edible: keep it out of children's reach and remove any specimens from the garden. If a child has tasted it, call poison control even without symptoms.",
+  "riskNote_pets_toxic": "Dogs often eat mushrooms: remove specimens from gardens and walking routes. If your pet ate it, call a vet at once.",
+  "riskNote_pregnancy_wild": "Avoid wild mushrooms while pregnant or breastfeeding: even a mild poisoning can affect the baby and many treatments are restricted.",
+  "riskNote_liverDisease_amatoxins": "Amatoxins destroy the liver: with an existing liver condition even a small dose can be fatal.",
+  "riskNote_kidneyDisease_amatoxins": "Amatoxins also damage the kidneys: an existing kidney condition makes the outlook much worse.",
+  "riskNote_liverDisease_gyromitrin": "Gyromitrin damages the liver: with liver disease the risk is far higher.",
+  "riskNote_kidneyDisease_orellanine": "Orellanine attacks the kidneys: with existing kidney disease the damage may be irreversible before symptoms show.",
+  "riskNote_drinksAlcohol_coprine": "It contains coprine: drinking alcohol up to 72 h before or after eating it causes flushing, palpitations and sickness.",
+  "riskNote_maoInhibitors_psilocybin": "It contains psilocybin: with MAOIs or other serotonergic drugs its effects can be unpredictable and stronger.",
+  "riskNote_drinksAlcohol_recipes": "Do not drink alcohol with this meal or in the following days, and skip recipes that contain it.",
+  "riskNote_pregnancy_recipes": "Check with your doctor before eating wild mushrooms while pregnant or breastfeeding.",
+  "riskNote_liverDisease_recipes": "With liver disease, keep portions small and check with your doctor: even edible mushrooms can disagree with you.",
+  "riskNote_kidneyDisease_recipes": "With kidney disease, check with your doctor: some mushrooms are rich in potassium and phosphorus.",
+  "error_storage_quota": "This device is out of storage space: your latest changes were not saved. Delete history entries or diary photos and try again.",
+  "error_storage_write": "Your latest changes could not be saved on this device.",
+  "error_storage_load": "The saved history and collection could not be loaded. So as not to overwrite them, new results and collection changes will not be saved until you reload the page.",
+  "error_storage_unavailable": "This browser does not allow saving data (private mode?): history and collection will be lost when the page closes.",
+  "storageQuarantined": "{count} damaged records were set aside while loading",
+  "backupTitle": "Backup",
+  "backupCreateTitle": "Create backup",
+  "backupCreateDescription": "Download a .zip file with everything: {collection} collection entries and {history} history entries, with the full profile, sources, field diary and every photo.",
+  "backupCreateButton": "Download backup (.zip)",
+  "backupCreateFailed": "The backup could not be created.",
+  "backupRestoreTitle": "Restore backup",
+  "backupRestoreDescription": "Choose a file made with “Download backup”. You will see what it contains before anything is applied.",
+  "backupChooseFile": "Choose .zip file",
+  "backupInvalid": "The file is not a valid backup of this app or it is damaged.",
+  "backupExportedAt": "Backup made on {date}",
+  "backupContains": "It contains {collection} collection entries and {history} history entries.",
+  "backupDuplicates": "{count} entries already exist on this device (same id).",
+  "backupSkipped": "{count} damaged records in the backup will be skipped.",
+  "backupModeLabel": "How to restore",
+  "backupMode_mergeKeep": "Merge, keeping current",
+  "backupModeHint_mergeKeep": "Adds the new entries; duplicates stay as they are on this device.",
+  "backupMode_mergeOverwrite": "Merge, using the backup",
+  "backupModeHint_mergeOverwrite": "Adds the new entries; duplicates are replaced by the backup's version.",
+  "backupMode_replace": "Replace everything",
+  "backupModeHint_replace": "Deletes the current collection and history and keeps only the backup's content.",
+  "backupReplaceConfirm": "The current collection and history will be deleted and replaced by the backup. Continue?",
+  "backupRestoreButton": "Restore",
+  "backupRestored": "Backup restored",
+  "storageTitle": "Storage",
+  "storageDescription": "Space the history and collection take on this device. Each image is stored once, however many entries use it.",
+  "storageTotal": "Total: {size}",
+  "storageDevice": "The browser reports {usage} used of {quota} available to this app.",
+  "storageCategory_entryData": "Entry data",
+  "storageCategory_images": "Collection and history images",
+  "storageCategory_sourcePhotos": "Original analysis photos",
+  "storageCategory_userPhotos": "Field diary photos",
+  "storageCategory_maps": "Generated maps",
+  "storageByEntry": "By entry",
+  "storageCleanupTitle": "Free up space",
+  "storageFrees": "Frees about {size}",
+  "storageNothingToFree": "Nothing to free",
+  "storageRemovesEntries": "removes {count} entries",
+  "storagePurgeDaysLabel": "Older than (days):",
+  "storageAction_downscalePhotos": "Downscale field diary photos to 400 px",
+  "storageAction_dropMaps": "Delete generated distribution maps",
+  "storageAction_purgeHistory": "Purge old history entries",
+  "storageAction_removeWithoutDiary": "Remove collection entries without diary data",
+  "storageRun_downscalePhotos": "Downscale",
+  "storageRun_dropMaps": "Delete maps",
+  "storageRun_purgeHistory": "Purge",
+  "storageRun_removeWithoutDiary": "Remove",
+  "storageConfirm_downscalePhotos": "Field diary photos will be saved at a lower resolution. This cannot be undone. Continue?",
+  "storageConfirm_dropMaps": "Generated maps will be deleted from every entry. This cannot be undone. Continue?",
+  "storageConfirm_purgeHistory": "{count} history entries older than {days} days will be deleted. Entries in your collection are kept. Continue?",
+  "storageConfirm_removeWithoutDiary": "{count} entries with no notes, date, location, photos or checks will be removed from your collection. Continue?",
+  "storageCleanupDone": "Space freed",
+  "importTitle": "Import",
+  "importDescription": "Import finds from this app's collection JSON export (mushroom_collection_export_*.json) or an iNaturalist observations CSV. Name, scientific name, date, coordinates and notes are imported; each species sheet stays incomplete, with toxicity shown as Caution (or worse if the species is in the safety rules), until you look it up again.",
+  "importChooseFile": "Choose file",
+  "importInvalid": "The file is neither a collection export nor an iNaturalist CSV.",
+  "importSource_collectionJson": "collection export",
+  "importSource_inaturalistCsv": "iNaturalist CSV",
+  "importSummary": "{count} finds in the file ({source}).",
+  "importConflicts": "{count} look like finds already in your collection; they are skipped by default.",
+  "importSkipped": "{count} rows without a name or with invalid data were discarded.",
+  "importAll": "Import all",
+  "importNone": "Skip all",
+  "importUpdateAllConflicts": "Update all duplicates",
+  "importHasNotes": "with notes",
+  "importNoDiary": "No date, location or notes",
+  "importConflictWith": "Matches “{name}” ({date}) in your collection",
+  "importResolutionLabel": "What to do with this row",
+  "importResolution_import": "Import",
+  "importResolution_keepBoth": "Import as new",
+  "importResolution_update": "Update existing",
+  "importResolution_skip": "Skip",
+  "importButton": "Import {count}",
+  "importDone": "{count} finds imported",
+  "observationExportTitle": "Export observations",
+  "observationExportFormat": "Format",
+  "observationFormat_darwinCore": "Darwin Core Archive",
+  "observationFormatHint_darwinCore": "ZIP with occurrence.txt, multimedia.txt, meta.xml and the field diary photos, for GBIF and other biodiversity portals.",
+  "observationFormat_inaturalist": "iNaturalist CSV",
+  "observationFormatHint_inaturalist": "ZIP with observations.csv in iNaturalist's import layout. Photos are in photos/, prefixed with their row number, for uploading by hand.",
+  "observationExportReady": "{ready} of {total} finds ready to export (the collection's filter and sort apply).",
+  "observationIssue_missingScientificName": "Missing scientific name",
+  "observationIssue_missingDate": "Missing finding date",
+  "observationIssue_missingLocation": "No location",
+  "observationExcluded": "Will be left out: fill in the details in the field diary.",
+  "observationExportButton": "Export {count}",
+  "observationExportFailed": "The export could not be created.",
+  "observationFormat_geojson": "GeoJSON",
+  "observationFormatHint_geojson": "Points for QGIS and other GIS tools, with species, toxicity, date and notes as properties.",
+  "observationFormat_kml": "KML",
+  "observationFormatHint_kml": "Placemarks for Google Earth and Google My Maps.",
+  "observationFormat_gpx": "GPX",
+  "observationFormatHint_gpx": "Waypoints for GPS units and hiking apps.",
+  "emergencyRepointConfirm": "An incident is open for “{current}”. Change its mushroom to “{next}”? The ingestion time and symptoms are kept. If this is a different incident, cancel and close the open one first.",
+  "groupRisks": "Risks for sensitive groups",
+  "storageNewerEntries": "{count} entries saved by a newer version of the app are not shown; they are kept untouched."
 };
 
 type Language = 'es' | 'en';
@@ -0,0 +1,127 @@
+import { HistoryEntry } from '../types.ts';
+import { createZip, readZip, ZipFile } from './zip.ts';
+import { ENTRY_SCHEMA_VERSION, upgradeRecords } from './entrySchema.ts';
+
+// --- BACKUP ---
+// A complete, restorable copy of the history and the collection: backup.json holds every entry
+// as stored, with each image replaced by the path of its file under images/. Restoring runs the
+// entries through the schema migrations, so backups made by older versions still load.
+
+const MANIFEST_NAME = 'backup.json';
+const BACKUP_FORMAT = 'mushroom-identifier-backup';
+const BACKUP_FORMAT_VERSION = 1;
+const FILE_REF_PREFIX = 'zip:';
+
+export const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif', 'image/svg+xml': 'svg' };
+
+export type RestoreMode = 'mergeKeep' | 'mergeOverwrite' | 'replace';
+
+export interface BackupContents {
+    exportedAt: string;
+    history: HistoryEntry[];
+    collection: HistoryEntry[];
+    skipped: number; // records that could not be upgraded or were damaged
+}
+
+const mapEntryImages = (entry: HistoryEntry, map: (src: string) => string): HistoryEntry => ({
+    ...entry,
+    imageSrc: map(entry.imageSrc),
+    mapaDistribucionSrc: entry.mapaDistribucionSrc ? map(entry.mapaDistribucionSrc) : entry.mapaDistribucionSrc,
+    userPhotos: entry.userPhotos?.map(map),
+    sourcePhotos: entry.sourcePhotos?.map(photo => ({ ...photo, src: map(photo.src) })),
+});
+
+export const dataUrlToBytes = (dataUrl: string): { mimeType: string; bytes: Uint8Array } | null => {
+    const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+    if (!match) return null;
+    const payload = match[2] ? atob(match[3]) : decodeURIComponent(match[3]);
+    const bytes = match[2] ? Uint8Array.from(payload, char => char.charCodeAt(0)) : new TextEncoder().encode(payload);
+    return { mimeType: match[1], bytes };
+};
+
+const bytesToDataUrl = (bytes: Uint8Array, mimeType: string): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const createBackup = (history: HistoryEntry[], collection: HistoryEntry[]): Blob => {
+    const files: ZipFile[] = [];
+    const paths = new Map<string, string>(); // data URL -> archive path; shared images are written once
+    const toFile = (src: string): string => {
+        if (!src.startsWith('data:')) return src;
+        let path = paths.get(src);
+        if (!path) {
+            const decoded = dataUrlToBytes(src);
+            if (!decoded) return src;
+            path = `images/${paths.size + 1}.${EXTENSIONS[decoded.mimeType] || 'bin'}`;
+            paths.set(src, path);
+            files.push({ name: path, data: decoded.bytes });
+        }
+        return FILE_REF_PREFIX + path;
+    };
+    const manifest = {
+        format: BACKUP_FORMAT,
+        formatVersion: BACKUP_FORMAT_VERSION,
+        schemaVersion: ENTRY_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        history: history.map(entry => mapEntryImages(entry, toFile)),
+        collection: collection.map(entry => mapEntryImages(entry, toFile)),
+    };
+    return createZip([{ name: MANIFEST_NAME, data: new TextEncoder().encode(JSON.stringify(manifest)) }, ...files]);
+};
+
+/** Reads a backup archive. Throws INVALID_ZIP or INVALID_BACKUP. */
+export const readBackup = async (file: Blob): Promise<BackupContents> => {
+    const files = await readZip(file);
+    const manifestBytes = files.get(MANIFEST_NAME);
+    let manifest: any;
+    try {
+        manifest = manifestBytes ? JSON.parse(new TextDecoder().decode(manifestBytes)) : null;
+    } catch (e) {
+        manifest = null;
+    }
+    if (!manifest || manifest.format !== BACKUP_FORMAT || manifest.formatVersion > BACKUP_FORMAT_VERSION) throw new Error('INVALID_BACKUP');
+
+    const mimeTypes = Object.fromEntries(Object.entries(EXTENSIONS).map(([mimeType, ext]) => [ext, mimeType]));
+    const dataUrls = new Map<string, string>();
+    const fromFile = (src: any): any => {
+        if (typeof src !== 'string' || !src.startsWith(FILE_REF_PREFIX)) return src;
+        const path = src.slice(FILE_REF_PREFIX.length);
+        if (!dataUrls.has(path)) {
+            const bytes = files.get(path);
+            dataUrls.set(path, bytes ? bytesToDataUrl(bytes, mimeTypes[path.split('.').pop() || ''] || 'application/octet-stream') : '');
+        }
+        return dataUrls.get(path);
+    };
+    let skipped = 0;
+    const load = (list: string, records: any): HistoryEntry[] => {
+        const { entries, quarantined, newer } = upgradeRecords(list, (Array.isArray(records) ? records : []).map((record: any) =>
+            record && typeof record === 'object' ? { schemaVersion: manifest.schemaVersion, ...record } : record));
+        skipped += quarantined.length + newer.length;
+        // A photo whose file is missing from the archive is dropped; a missing main image falls back to the icon.
+        return entries.map(entry => {
+            const restored = mapEntryImages(entry, fromFile);
+            return { ...restored, userPhotos: restored.userPhotos?.filter(Boolean), sourcePhotos: restored.sourcePhotos?.filter(photo => photo.src) };
+        });
+    };
+    const history = load('history', manifest.history);
+    const collection = load('collection', manifest.collection);
+    return { exportedAt: typeof manifest.exportedAt === 'string' ? manifest.exportedAt : '', history, collection, skipped };
+};
+
+/** Entries of `incoming` whose id is already in `current`. */
+export const findDuplicates = (current: HistoryEntry[], incoming: HistoryEntry[]): HistoryEntry[] => {
+    const ids = new Set(current.map(entry => entry.id));
+    return incoming.filter(entry => ids.has(entry.id));
+};
+
+/** Combines a list with the restored one. Duplicates within the backup keep their first occurrence. */
+export const restoreEntries = (current: HistoryEntry[], incoming: HistoryEntry[], mode: RestoreMode): HistoryEntry[] => {
+    const unique = incoming.filter((entry, i) => incoming.findIndex(other => other.id === entry.id) === i);
+    if (mode === 'replace') return unique;
+    const incomingById = new Map(unique.map(entry => [entry.id, entry]));
+    const currentIds = new Set(current.map(entry => entry.id));
+    const kept = mode === 'mergeOverwrite' ? current.map(entry => incomingById.get(entry.id) || entry) : current;
+    return [...kept, ...unique.filter(entry => !currentIds.has(entry.id))];
+};
@@ -0,0 +1,182 @@
+import { HistoryEntry } from '../types.ts';
+import { coercePartialMushroomInfo } from './mushroomSchema.ts';
+import { applySafetyRules } from './safetyRules.ts';
+import { ENTRY_SCHEMA_VERSION, upgradeRecords } from './entrySchema.ts';
+import { parseCsvRecords } from './csv.ts';
+
+// --- COLLECTION IMPORT ---
+// Brings finds in from the collection's own JSON export (mushroom_collection_export_*.json) or an
+// iNaturalist observations CSV. Both carry only names, dates, coordinates and notes, so imported
+// entries get a minimal species sheet and the fallback image. A file is no authority on edibility:
+// the level the JSON export records is ignored, every import starts at Caution and then goes
+// through the safety rules like any identification, which can only raise it.
+// Nothing is saved until the preview has been reviewed: each row that looks like a find already
+// in the collection is skipped unless the user chooses otherwise.
+
+export type ImportSource = 'collectionJson' | 'inaturalistCsv';
+export type ImportResolution = 'import' | 'skip' | 'update';
+
+export interface ImportRow {
+    entry: HistoryEntry;
+    conflict?: HistoryEntry; // the collection entry this row seems to duplicate
+    resolution: ImportResolution;
+}
+
+export interface ImportPreview {
+    source: ImportSource;
+    rows: ImportRow[];
+    skipped: number; // rows without a usable name or with malformed data
+}
+
+interface ImportedFind {
+    id?: string;
+    timestamp?: number;
+    name: string;
+    scientificName: string;
+    habitat?: string;
+    findingDate?: string;
+    location?: { latitude: number; longitude: number };
+    notes?: string;
+}
+
+const SAME_FIND_WINDOW_MS = 60 * 1000;
+
+const text = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const field = (value: unknown, key: string): unknown => value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+
+const toDate = (value: unknown): string | undefined => {
+    const date = text(value).slice(0, 10);
+    return /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+};
+
+const toLocation = (latitude: unknown, longitude: unknown) => {
+    if (latitude === '' || longitude === '' || latitude == null || longitude == null) return undefined;
+    const lat = Number(latitude);
+    const lon = Number(longitude);
+    return isFinite(lat) && isFinite(lon) && Math.abs(lat) <= 90 && Math.abs(lon) <= 180 ? { latitude: lat, longitude: lon } : undefined;
+};
+
+// The export keeps the habitat only inside its summary line.
+const fromCollectionJson = (data: unknown): ImportedFind[] => {
+    if (!Array.isArray(data)) throw new Error('INVALID_IMPORT');
+    return data.map((row: unknown): ImportedFind => {
+        const savedAt = Date.parse(text(field(row, 'savedDate')));
+        const diary = field(row, 'diary');
+        const location = field(diary, 'location');
+        return {
+            timestamp: isFinite(savedAt) ? savedAt : undefined,
+            name: text(field(row, 'name')),
+            scientificName: text(field(row, 'scientificName')),
+            habitat: text(field(row, 'summary')).match(/Habitat: (.*)$/s)?.[1].replace(/^undefined$/, ''),
+            findingDate: toDate(field(diary, 'date')),
+            location: toLocation(field(location, 'latitude'), field(location, 'longitude')),
+            notes: text(field(diary, 'notes')) || undefined,
+        };
+    });
+};
+
+const fromINaturalistCsv = (records: Record<string, string>[]): ImportedFind[] => records.map(record => {
+    const observedAt = Date.parse(record.time_observed_at || record.observed_on || '');
+    return {
+        id: record.id ? `inat-${record.id}` : undefined,
+        timestamp: isFinite(observedAt) ? observedAt : undefined,
+        name: record.common_name || record.species_guess || record.scientific_name || '',
+        scientificName: record.scientific_name || '',
+        findingDate: toDate(record.observed_on),
+        location: toLocation(record.latitude, record.longitude),
+        notes: record.description || undefined,
+    };
+});
+
+const toEntry = (find: ImportedFind, now: number): HistoryEntry | null => {
+    const coerced = coercePartialMushroomInfo({
+        nombreComun: find.name,
+        nombreCientifico: find.scientificName,
+        habitat: find.habitat,
+        toxicidad: { nivelToxicidad: 'Caution' },
+    });
+    if (!coerced) return null;
+    const { mushroomInfo, safety } = applySafetyRules(coerced.mushroomInfo);
+    const timestamp = find.timestamp ?? now;
+    const { entries } = upgradeRecords('collection', [{
+        schemaVersion: ENTRY_SCHEMA_VERSION,
+        id: find.id || `${timestamp}-${find.scientificName || find.name}`,
+        timestamp,
+        type: 'mushroom',
+        mushroomInfo,
+        safety,
+        sources: [],
+        difficulty: 'Intermediate',
+        findingDate: find.findingDate,
+        location: find.location,
+        personalNotes: find.notes,
+    }]);
+    return entries[0] || null;
+};
+
+const speciesKey = (entry: HistoryEntry) => (entry.mushroomInfo.nombreCientifico || entry.mushroomInfo.nombreComun).trim().toLowerCase();
+
+/** The collection entry an imported one most likely duplicates: same id, or same species found the same day or saved at the same moment. */
+export const findConflict = (entry: HistoryEntry, collection: HistoryEntry[]): HistoryEntry | undefined =>
+    collection.find(existing => existing.id === entry.id)
+    || collection.find(existing => speciesKey(existing) === speciesKey(entry) && (
+        (!!entry.findingDate && existing.findingDate === entry.findingDate)
+        || Math.abs(existing.timestamp - entry.timestamp) < SAME_FIND_WINDOW_MS));
+
+/** Reads an import file and matches its rows against the collection. Throws INVALID_IMPORT. */
+export const readImportFile = async (file: Blob, collection: HistoryEntry[]): Promise<ImportPreview> => {
+    const content = (await file.text()).trim();
+    let source: ImportSource;
+    let finds: ImportedFind[];
+    if (content.startsWith('[') || content.startsWith('{')) {
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch (e) {
+            throw new Error('INVALID_IMPORT');
+        }
+        source = 'collectionJson';
+        finds = fromCollectionJson(data);
+    } else {
+        const records = parseCsvRecords(content);
+        if (!records.length || !('scientific_name' in records[0] || 'species_guess' in records[0])) throw new Error('INVALID_IMPORT');
+        source = 'inaturalistCsv';
+        finds = fromINaturalistCsv(records);
+    }
+
+    const now = Date.now();
+    const ids = new Set<string>();
+    const rows: ImportRow[] = [];
+    finds.forEach((find, i) => {
+        const entry = toEntry(find, now + i);
+        if (!entry) return;
+        // Two rows of the same file may share an id (same species, same second); keep both.
+        if (ids.has(entry.id)) entry.id = `${entry.id}-${i}`;
+        ids.add(entry.id);
+        const conflict = findConflict(entry, collection);
+        rows.push({ entry, conflict, resolution: conflict ? 'skip' : 'import' });
+    });
+    return { source, rows, skipped: finds.length - rows.length };
+};
+
+/**
+ * The collection after the import: 'import' adds the row as a new entry, 'update' copies the
+ * row's diary fields onto the entry it conflicts with, leaving the rest of that entry as it was.
+ */
+export const applyImport = (collection: HistoryEntry[], rows: ImportRow[]): HistoryEntry[] => {
+    const updates = new Map<string, HistoryEntry>();
+    rows.filter(row => row.resolution === 'update' && row.conflict).forEach(({ entry, conflict }) => {
+        const base = updates.get(conflict!.id) || conflict!;
+        updates.set(conflict!.id, {
+            ...base,
+            findingDate: entry.findingDate || base.findingDate,
+            location: entry.location || base.location,
+            personalNotes: entry.personalNotes || base.personalNotes,
+        });
+    });
+    const ids = new Set(collection.map(entry => entry.id));
+    const added = rows.filter(row => row.resolution === 'import').map(({ entry }, i) =>
+        ids.has(entry.id) ? { ...entry, id: `${entry.id}-import${i}` } : entry);
+    return [...collection.map(entry => updates.get(entry.id) || entry), ...added];
+};
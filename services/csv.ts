@@ -0,0 +1,43 @@
+// --- CSV ---
+// RFC 4180 as spreadsheets, iNaturalist and GBIF tools read and write it: comma-separated,
+// double-quoted fields that may contain commas, quotes ("") and line breaks, CRLF or LF line
+// endings, an optional BOM.
+
+export const parseCsv = (text: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input[i];
+        if (quoted) {
+            if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else field += char;
+        } else if (char === '"') quoted = true;
+        else if (char === ',') { row.push(field); field = ''; }
+        else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            rows.push(row); row = [];
+        } else field += char;
+    }
+    if (field || row.length) { row.push(field); rows.push(row); }
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/** Rows keyed by the header row's column names. */
+export const parseCsvRecords = (text: string): Record<string, string>[] => {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return [];
+    const columns = header.map(name => name.trim());
+    return rows.map(cells => Object.fromEntries(columns.map((name, i) => [name, (cells[i] || '').trim()])));
+};
+
+const escapeField = (value: string) => /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** Rows as CSV text with CRLF line endings, quoting only the fields that need it. */
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+    rows.map(cells => cells.map(cell => escapeField(cell === undefined ? '' : String(cell))).join(',')).join('\r\n') + '\r\n';
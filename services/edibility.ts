@@ -0,0 +1,31 @@
+import { EdibilityConditions, Recipe } from '../types.ts';
+import { hasAlcoholicIngredient } from './mushroomSchema.ts';
+
+// --- CONDITIONAL EDIBILITY ---
+// Checks recipes against the conditions a species may be eaten under. A recipe is refused as soon
+// as one condition is broken; a flag the model did not give counts as broken.
+
+export type RecipeViolation = 'raw' | 'parboil' | 'alcohol';
+
+const PARBOIL_STEPS = ['parboil', 'discardCookingWater'];
+
+export const getRecipeViolations = (recipe: Recipe, conditions: EdibilityConditions | undefined): RecipeViolation[] => {
+    if (!conditions) return [];
+    const violations: RecipeViolation[] = [];
+    if (!conditions.comestibleCrudo && recipe.crudo !== false) violations.push('raw');
+    if (conditions.requisitos.some(req => PARBOIL_STEPS.includes(req.tipo)) && recipe.hervidoPrevio !== true) violations.push('parboil');
+    if (conditions.interacciones.some(interaction => interaction.tipo === 'alcohol') && (recipe.alcohol !== false || hasAlcoholicIngredient(recipe.ingredientes))) violations.push('alcohol');
+    return violations;
+};
+
+/** Splits the recipes into those that respect the conditions and those refused, with the reasons. */
+export const partitionRecipes = (recipes: Recipe[], conditions: EdibilityConditions | undefined) => {
+    const allowed: Recipe[] = [];
+    const refused: { recipe: Recipe; violations: RecipeViolation[] }[] = [];
+    recipes.forEach(recipe => {
+        const violations = getRecipeViolations(recipe, conditions);
+        if (violations.length > 0) refused.push({ recipe, violations });
+        else allowed.push(recipe);
+    });
+    return { allowed, refused };
+};
@@ -0,0 +1,43 @@
+import { IngestionLog } from '../types.ts';
+import { guessRegion } from './poisonControl.ts';
+
+// --- INGESTION LOG ---
+// A single open incident, kept in localStorage so a reload or a closed tab never loses
+// the ingestion time or the symptom timeline the medical staff will ask for.
+
+const LOG_STORAGE_KEY = 'mushroomIngestionLog';
+
+/** Formats a date as a local 'YYYY-MM-DDTHH:mm' string. */
+export const toLocalDateTime = (date: Date): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export const createIngestionLog = (entryId: string | null, language: 'es' | 'en'): IngestionLog => ({
+    entryId,
+    ingestedAt: toLocalDateTime(new Date()),
+    amount: '',
+    whoAte: '',
+    symptoms: [],
+    region: guessRegion(language),
+    startedAt: Date.now(),
+});
+
+export const loadIngestionLog = (): IngestionLog | null => {
+    try {
+        const stored = localStorage.getItem(LOG_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : null;
+        return parsed && typeof parsed === 'object' && Array.isArray(parsed.symptoms) ? parsed : null;
+    } catch (e) {
+        console.error("Failed to read the ingestion log.", e);
+        return null;
+    }
+};
+
+export const saveIngestionLog = (log: IngestionLog) => {
+    localStorage.setItem(LOG_STORAGE_KEY, JSON.stringify(log));
+};
+
+export const clearIngestionLog = () => {
+    localStorage.removeItem(LOG_STORAGE_KEY);
+};
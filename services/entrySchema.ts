@@ -0,0 +1,103 @@
+import { HistoryEntry } from '../types.ts';
+import { TOXICITY_LEVELS } from './mushroomSchema.ts';
+import { getFallbackMushroomIcon } from '../utils.ts';
+
+// --- STORED ENTRY SCHEMA ---
+// Every persisted HistoryEntry carries the schemaVersion it was written with. On load, older
+// records go through the migrations in order and are then validated; a record that cannot be
+// upgraded or is missing what the app relies on is quarantined rather than loaded. Records written
+// by a newer version of the app are neither: they are left as they are and simply not loaded.
+// To change the stored shape: bump ENTRY_SCHEMA_VERSION and add the step that gets there.
+
+export const ENTRY_SCHEMA_VERSION = 3;
+
+export type QuarantineReason = 'notAnObject' | 'migrationFailed' | 'missingId' | 'missingTimestamp' | 'missingMushroomInfo' | 'missingToxicity';
+
+export interface QuarantinedRecord {
+    list: string;
+    record: unknown; // exactly as it was stored
+    reason: QuarantineReason;
+    quarantinedAt: number;
+}
+
+const DIFFICULTY_LEVELS = ['Beginner', 'Intermediate', 'Expert'];
+
+// MIGRATIONS[n] upgrades a record from version n + 1 to n + 2. Records saved before versioning count as version 1.
+const MIGRATIONS: ((record: any) => any)[] = [
+    // 1 → 2: the earliest builds saved neither `type` nor `difficulty`, and sometimes an ISO date as timestamp.
+    record => ({
+        ...record,
+        type: 'mushroom',
+        timestamp: typeof record.timestamp === 'string' ? Date.parse(record.timestamp) : record.timestamp,
+        sources: Array.isArray(record.sources) ? record.sources : [],
+        difficulty: DIFFICULTY_LEVELS.includes(record.difficulty) ? record.difficulty : 'Intermediate',
+    }),
+    // 2 → 3: field diary values typed in by older forms (string coordinates, a single photo, full date-times).
+    record => {
+        const { location, userPhotos, findingDate } = record;
+        const latitude = Number(location?.latitude);
+        const longitude = Number(location?.longitude);
+        return {
+            ...record,
+            location: location && isFinite(latitude) && isFinite(longitude) ? { latitude, longitude } : undefined,
+            userPhotos: typeof userPhotos === 'string' ? [userPhotos] : Array.isArray(userPhotos) ? userPhotos.filter((photo: any) => typeof photo === 'string') : undefined,
+            findingDate: typeof findingDate === 'string' && findingDate ? findingDate.slice(0, 10) : undefined,
+        };
+    },
+];
+
+const asList = (value: any): string[] => Array.isArray(value) ? value.filter(item => typeof item === 'string') : [];
+
+/** Checks what every screen relies on, filling in the lists a partial response may have left out. */
+const validateRecord = (record: any): HistoryEntry | QuarantineReason => {
+    if (typeof record.id !== 'string' || !record.id) return 'missingId';
+    if (typeof record.timestamp !== 'number' || !isFinite(record.timestamp)) return 'missingTimestamp';
+    const info = record.mushroomInfo;
+    if (!info || typeof info !== 'object' || typeof info.nombreComun !== 'string' || !info.nombreComun) return 'missingMushroomInfo';
+    if (!info.toxicidad || typeof info.toxicidad !== 'object' || !TOXICITY_LEVELS.includes(info.toxicidad.nivelToxicidad)) return 'missingToxicity';
+    return {
+        ...record,
+        imageSrc: typeof record.imageSrc === 'string' && record.imageSrc ? record.imageSrc : getFallbackMushroomIcon(),
+        mushroomInfo: {
+            ...info,
+            sinonimos: asList(info.sinonimos),
+            usosCulinarios: asList(info.usosCulinarios),
+            recetas: Array.isArray(info.recetas) ? info.recetas.filter((r: any) => r && typeof r === 'object') : [],
+            hongosSimilares: Array.isArray(info.hongosSimilares) ? info.hongosSimilares.filter((h: any) => h && typeof h === 'object') : [],
+            toxicidad: { ...info.toxicidad, compuestosToxicos: asList(info.toxicidad.compuestosToxicos) },
+        },
+    };
+};
+
+/**
+ * Upgrades stored records to the current version. `changed` lists the entries whose stored form
+ * differs from what was read (they were migrated), so the caller can write them back; `newer`
+ * holds, untouched, the records this version cannot read and must keep.
+ */
+export const upgradeRecords = (list: string, records: unknown[]) => {
+    const entries: HistoryEntry[] = [];
+    const changed: HistoryEntry[] = [];
+    const quarantined: QuarantinedRecord[] = [];
+    const newer: unknown[] = [];
+    const quarantine = (record: unknown, reason: QuarantineReason) => quarantined.push({ list, record, reason, quarantinedAt: Date.now() });
+
+    records.forEach(record => {
+        if (!record || typeof record !== 'object' || Array.isArray(record)) return quarantine(record, 'notAnObject');
+        const { schemaVersion, ...stored } = record as any;
+        // Anything below 1 (or not a whole number) is treated as unversioned, so every migration runs.
+        const version = typeof schemaVersion === 'number' && isFinite(schemaVersion) ? Math.max(1, Math.floor(schemaVersion)) : 1;
+        if (version > ENTRY_SCHEMA_VERSION) { newer.push(record); return; }
+        let upgraded: any = stored;
+        try {
+            MIGRATIONS.slice(version - 1).forEach(migrate => { upgraded = migrate(upgraded); });
+        } catch (e) {
+            console.error("Failed to migrate a stored entry.", e);
+            return quarantine(record, 'migrationFailed');
+        }
+        const entry = validateRecord(upgraded);
+        if (typeof entry === 'string') return quarantine(record, entry);
+        entries.push(entry);
+        if (version < ENTRY_SCHEMA_VERSION) changed.push(entry);
+    });
+    return { entries, changed, quarantined, newer };
+};
@@ -1,5 +1,8 @@
 import { GoogleGenAI, GroundingChunk, Modality } from "@google/genai";
-import { MushroomInfo, GroundingSource, Recipe, SimilarMushroom, ComparisonInfo, ToxicityInfo, ImageQuality } from '../types.ts';
+import { MushroomInfo, GroundingSource, ComparisonInfo, ToxicityInfo, ImageQuality, DifficultyLevel, IdentificationProvider, ImageIdentificationResult, TextIdentificationResult, ValidationIssue, IdentificationCandidate, PhotoInput, PhotoView, RequestOptions, IdentificationProgress, ChatMessage, FollowUpContext, KeyAnswer, KeyStep, LookalikeVerdict, SimilarMushroom } from '../types.ts';
+import { mushroomInfoSchema, comparisonInfoSchema, candidatesSchema, keyStepSchema, verificationSchema, validateMushroomInfo, validateCandidates, validateKeyStep, validateVerdicts, coercePartialMushroomInfo, TOXICITY_LEVELS } from './mushroomSchema.ts';
+import { parsePartialJson } from './partialJson.ts';
+import { runWithPolicy, isQuotaError, throwIfCancelled } from './modelPolicy.ts';
 
 // --- API CLIENT HELPER ---
 // We initialize the client on demand to ensure we always get the latest API key from the environment.
@@ -39,14 +42,10 @@ const getAiClient = () => {
     return new GoogleGenAI({ apiKey: apiKey.trim() });
 };
 
-
-type DifficultyLevel = 'Beginner' | 'Intermediate' | 'Expert';
-
 // --- PROMPTS ---
 
-const getMushroomJsonPrompt = (context: string, language: 'es' | 'en', difficulty: DifficultyLevel) => {
+const getDifficultyInstruction = (language: 'es' | 'en', difficulty: DifficultyLevel) => {
   const isEs = language === 'es';
-
   let difficultyInstruction = '';
   if (isEs) {
       switch (difficulty) {
@@ -75,28 +74,38 @@ const getMushroomJsonPrompt = (context: string, language: 'es' | 'en', difficult
               break;
       }
   }
+  return difficultyInstruction;
+};
+
+const getMushroomJsonPrompt = (context: string, language: 'es' | 'en', difficulty: DifficultyLevel) => {
+  const isEs = language === 'es';
+  const difficultyInstruction = getDifficultyInstruction(language, difficulty);
 
   return isEs ? 
-  `Eres una experta micóloga y bióloga. ${difficultyInstruction} ${context}. Después de identificarlo, proporciona la siguiente información en un objeto JSON con las claves EXACTAS: "nombreComun", "nombreCientifico", "sinonimos", "descripcionGeneral", "habitat", "temporada", "distribucionGeografica", "usosCulinarios", "toxicidad", "recetas", y "hongosSimilares".
+  `Eres una experta micóloga y bióloga. ${difficultyInstruction} ${context}. Después de identificarlo, proporciona la siguiente información en un objeto JSON con las claves EXACTAS y en este orden: "nombreComun", "nombreCientifico", "toxicidad", "hongosSimilares", "riesgosPersonales", "descripcionGeneral", "sinonimos", "habitat", "temporada", "distribucionGeografica", "usosCulinarios", "condicionesConsumo" y "recetas".
 
 - Para "descripcionGeneral", incluye detalles morfológicos clave (sombrero, láminas, pie, esporas).
 - Para "habitat", describe dónde crece (tipo de bosque, suelo, árboles específicos).
 - Para "temporada", indica la estación o meses en que aparece.
 - Para "toxicidad", proporciona un objeto con las claves "descripcion" (explicando la comestibilidad), "nivelToxicidad" (uno de: 'Edible', 'Inedible', 'Caution', 'Poisonous', 'Lethal'), "compuestosToxicos" (lista de strings), "sintomas" (descripción de los síntomas de intoxicación), y "primerosAuxilios".
-- Para "recetas", si es comestible, genera una lista de 1-2 recetas. Cada receta es un objeto con "nombre", "ingredientes", "instrucciones". Si no es comestible, devuelve [].
+- Para "condicionesConsumo", proporciona un objeto con "comestibleCrudo" (booleano: true solo si puede comerse crudo sin riesgo), "requisitos" (lista de objetos con "tipo", uno de: 'thoroughCooking', 'parboil', 'discardCookingWater', 'youngSpecimensOnly', 'removePart', 'smallAmounts', 'other', y "descripcion") e "interacciones" (lista de objetos con "tipo", uno de: 'alcohol', 'medication', 'allergy', 'other', y "descripcion"; por ejemplo, no consumir alcohol). Usa [] si no hay requisitos o interacciones.
+- Para "recetas", si es comestible, genera una lista de 1-2 recetas que respeten "condicionesConsumo". Cada receta es un objeto con "nombre", "ingredientes", "instrucciones" y los booleanos "crudo" (la seta se sirve cruda), "hervidoPrevio" (la seta se hierve antes y se desecha el agua) y "alcohol" (el plato lleva alcohol). Si no es comestible, devuelve [].
 - Para "hongosSimilares", proporciona una lista de 1 a 3 hongos con los que se confunde comúnmente. Para cada uno, incluye "nombreComun", "nombreCientifico", "diferenciaClave" y un booleano "esToxico". Esta sección es CRÍTICA para la seguridad.
+- Para "riesgosPersonales", proporciona una lista de objetos con "grupo" (uno de: 'pregnancy' (embarazo o lactancia), 'liverDisease' (enfermedad hepática), 'kidneyDisease' (enfermedad renal), 'maoInhibitors' (toma de IMAO), 'drinksAlcohol' (consumo de alcohol), 'children' (niños en casa), 'pets' (mascotas en casa)) y "nota" (el riesgo concreto de esta especie para ese grupo y qué precaución tomar). Incluye solo los grupos para los que esta especie supone un riesgo añadido; si no hay ninguno, devuelve [].
 
 Si no puedes identificar el hongo, responde con un JSON: {"error": "No se pudo identificar el hongo."}.
 La respuesta DEBE ser únicamente el objeto JSON. No omitas ninguna clave. Para listas vacías, usa [].`
   : 
-  `You are an expert mycologist and biologist. ${difficultyInstruction} ${context}. After identifying it, provide the following information in a JSON object with the EXACT keys: "nombreComun", "nombreCientifico", "sinonimos", "descripcionGeneral", "habitat", "temporada", "distribucionGeografica", "usosCulinarios", "toxicidad", "recetas", and "hongosSimilares".
+  `You are an expert mycologist and biologist. ${difficultyInstruction} ${context}. After identifying it, provide the following information in a JSON object with the EXACT keys, in this order: "nombreComun", "nombreCientifico", "toxicidad", "hongosSimilares", "riesgosPersonales", "descripcionGeneral", "sinonimos", "habitat", "temporada", "distribucionGeografica", "usosCulinarios", "condicionesConsumo", and "recetas".
 
 - For "descripcionGeneral", include key morphological details (cap, gills, stem, spores).
 - For "habitat", describe where it grows (type of forest, soil, specific trees).
 - For "temporada", indicate the season or months it appears.
 - For "toxicidad", provide an object with keys "descripcion" (explaining edibility), "nivelToxicidad" (one of: 'Edible', 'Inedible', 'Caution', 'Poisonous', 'Lethal'), "compuestosToxicos" (list of strings), "sintomas" (description of poisoning symptoms), and "primerosAuxilios".
-- For "recetas", if edible, generate a list of 1-2 recipes. Each recipe is an object with "nombre", "ingredientes", "instrucciones". If not edible, return [].
+- For "condicionesConsumo", provide an object with "comestibleCrudo" (boolean: true only if it can safely be eaten raw), "requisitos" (list of objects with "tipo", one of: 'thoroughCooking', 'parboil', 'discardCookingWater', 'youngSpecimensOnly', 'removePart', 'smallAmounts', 'other', and "descripcion") and "interacciones" (list of objects with "tipo", one of: 'alcohol', 'medication', 'allergy', 'other', and "descripcion"; e.g. no alcohol). Use [] when there are no requirements or interactions.
+- For "recetas", if edible, generate a list of 1-2 recipes that respect "condicionesConsumo". Each recipe is an object with "nombre", "ingredientes", "instrucciones" and the booleans "crudo" (the mushroom is served raw), "hervidoPrevio" (the mushroom is parboiled and the water discarded) and "alcohol" (the dish contains alcohol). If not edible, return [].
 - For "hongosSimilares", provide a list of 1-3 commonly confused mushrooms. For each, include "nombreComun", "nombreCientifico", "diferenciaClave", and a boolean "esToxico". This section is CRITICAL for safety.
+- For "riesgosPersonales", provide a list of objects with "grupo" (one of: 'pregnancy' (pregnancy or breastfeeding), 'liverDisease' (liver disease), 'kidneyDisease' (kidney disease), 'maoInhibitors' (taking MAO inhibitors), 'drinksAlcohol' (drinks alcohol), 'children' (children in the household), 'pets' (pets in the household)) and "nota" (the specific risk of this species for that group and the precaution to take). Include only the groups for which this species carries an added risk; if there are none, return [].
 
 If you cannot identify the mushroom, respond with JSON: {"error": "Could not identify the mushroom."}.
 The response MUST be only the JSON object. Do not omit any keys. For empty lists, use [].`;
@@ -128,13 +137,133 @@ Mushroom B: ${mushroomB.nombreComun} (${mushroomB.nombreCientifico})
 The response MUST be only the JSON object.`;
 };
 
+const getFollowUpPrompt = ({ mushroomInfo, sources, photos, difficulty }: FollowUpContext, language: 'es' | 'en') => {
+    const isEs = language === 'es';
+    const profile = JSON.stringify(mushroomInfo);
+    const sourceList = sources.length > 0 ? sources.map(source => `- ${source.title}: ${source.uri}`).join('\n') : '-';
+    const photoHint = photos.length > 0
+        ? (isEs ? ' Las fotos del ejemplar van adjuntas al primer mensaje.' : ' The photos of the specimen are attached to the first message.')
+        : '';
+    return isEs ?
+    `Eres una experta micóloga que responde preguntas de seguimiento sobre un hongo ya identificado: ${mushroomInfo.nombreComun} (${mushroomInfo.nombreCientifico}). ${getDifficultyInstruction(language, difficulty)}${photoHint}
+Basa tus respuestas en la ficha y las fuentes siguientes. Si la respuesta no está en ellas, dilo y aclara que respondes con conocimiento general. Nunca confirmes la comestibilidad a partir de una foto: recuerda que un experto debe verificar el ejemplar en persona antes de consumirlo.
+Responde en español, de forma breve y en texto plano, sin encabezados.
+
+Ficha (JSON): ${profile}
+
+Fuentes:
+${sourceList}`
+    :
+    `You are an expert mycologist answering follow-up questions about a mushroom that has already been identified: ${mushroomInfo.nombreComun} (${mushroomInfo.nombreCientifico}). ${getDifficultyInstruction(language, difficulty)}${photoHint}
+Ground your answers in the profile and sources below. If the answer is not in them, say so and make clear you are answering from general knowledge. Never confirm edibility from a photo: remind the user that an expert must check the specimen in person before eating it.
+Answer in English, briefly and in plain text, without headings.
+
+Profile (JSON): ${profile}
+
+Sources:
+${sourceList}`;
+};
+
+const getCandidatesPrompt = (language: 'es' | 'en', location: { latitude: number; longitude: number } | null, difficulty: DifficultyLevel, photoCount: number) => {
+    const isEs = language === 'es';
+    const subject = photoCount > 1
+        ? (isEs ? `las ${photoCount} fotos anteriores, que muestran distintas vistas del mismo ejemplar` : `the ${photoCount} photos above, which show different views of the same specimen`)
+        : (isEs ? 'la imagen' : 'the image');
+    const locationHint = location
+        ? (isEs
+            ? ` El ejemplar fue encontrado cerca de la latitud ${location.latitude} y longitud ${location.longitude}.`
+            : ` The specimen was found near latitude ${location.latitude} and longitude ${location.longitude}.`)
+        : '';
+    const technical = difficulty === 'Expert'
+        ? (isEs ? ' Puedes usar terminología micológica técnica.' : ' You may use technical mycological terminology.')
+        : (isEs ? ' Describe las características en términos sencillos.' : ' Describe the features in plain terms.');
+    return isEs ?
+    `Eres una experta micóloga. Observa el hongo en ${subject} y propone entre 3 y 5 especies candidatas, ordenadas de más a menos probable.${locationHint}${technical}
+
+Devuelve un JSON con la clave "candidatos": una lista de objetos con "nombreComun", "nombreCientifico", "confianza" (número entre 0 y 1; la suma no tiene que ser 1), "caracteristicasAFavor" (rasgos VISIBLES en la foto que apoyan esa especie) y "caracteristicasEnContra" (rasgos visibles, o no visibles pero necesarios, que hablan en contra).
+Sé honesta con la confianza: si la foto no muestra láminas, pie o base, la confianza debe ser baja. Incluye siempre las especies tóxicas plausibles. Si la imagen no contiene un hongo, devuelve {"candidatos": []}.`
+    :
+    `You are an expert mycologist. Look at the mushroom in ${subject} and propose 3 to 5 candidate species, ranked from most to least likely.${locationHint}${technical}
+
+Return a JSON with the key "candidatos": a list of objects with "nombreComun", "nombreCientifico", "confianza" (number between 0 and 1; they do not need to add up to 1), "caracteristicasAFavor" (features VISIBLE in the photo supporting that species) and "caracteristicasEnContra" (visible features, or required features that are not visible, arguing against it).
+Be honest about confidence: if the photo does not show the gills, stem or base, confidence must be low. Always include plausible toxic species. If the image does not contain a mushroom, return {"candidatos": []}.`;
+};
+
+const getKeyStepPrompt = (language: 'es' | 'en', candidates: IdentificationCandidate[], trail: KeyAnswer[], difficulty: DifficultyLevel, photoCount: number) => {
+    const isEs = language === 'es';
+    const candidateList = candidates.length > 0
+        ? candidates.map(c => `- ${c.nombreCientifico} (${c.nombreComun}): ${Math.round(c.confianza * 100)}%`).join('\n')
+        : (isEs ? '- (ninguna todavía)' : '- (none yet)');
+    const answers = trail.length > 0
+        ? trail.map(a => `- [${a.caracteristica}] ${a.pregunta} → ${a.respuesta}`).join('\n')
+        : (isEs ? '- (ninguna todavía)' : '- (none yet)');
+    const plain = difficulty === 'Expert'
+        ? (isEs ? 'Puedes usar terminología micológica técnica.' : 'You may use technical mycological terminology.')
+        : (isEs ? 'Formula la pregunta en términos sencillos, explicando cómo observar el rasgo.' : 'Word the question in plain terms and explain how to observe the feature.');
+    return isEs ?
+    `Eres una experta micóloga que guía a una persona con una clave dicotómica porque ${photoCount > 1 ? 'las fotos anteriores no bastan' : 'la foto anterior no basta'} para identificar el hongo.
+
+Candidatas actuales:
+${candidateList}
+
+Respuestas del usuario hasta ahora:
+${answers}
+
+1. Devuelve "candidatos" reordenadas según las respuestas (mismo formato que antes: "nombreComun", "nombreCientifico", "confianza", "caracteristicasAFavor", "caracteristicasEnContra"). Descarta las especies que contradigan una respuesta, añade las que las respuestas sugieran y conserva siempre las especies tóxicas plausibles. Una respuesta "No lo sé" no aporta información.
+2. Si la candidata principal no supera 0,8 de confianza y queda algún rasgo que las distinga, devuelve "siguientePregunta" con "caracteristica" (uno de: sporePrint, gillAttachment, ringOrVolva, smell, bruising, other), "pregunta" y "opciones" (de 2 a 5 respuestas cortas y excluyentes). Elige el rasgo que mejor separe a las candidatas principales y no repitas rasgos ya preguntados. ${plain} Si no, devuelve "siguientePregunta": null.`
+    :
+    `You are an expert mycologist guiding someone through a dichotomous key because ${photoCount > 1 ? 'the photos above are' : 'the photo above is'} not enough to identify the mushroom.
+
+Current candidates:
+${candidateList}
+
+The user's answers so far:
+${answers}
+
+1. Return "candidatos" re-ranked using the answers (same format as before: "nombreComun", "nombreCientifico", "confianza", "caracteristicasAFavor", "caracteristicasEnContra"). Drop species an answer contradicts, add species the answers point to and always keep plausible toxic species. An "I don't know" answer carries no information.
+2. If the top candidate is not above 0.8 confidence and some feature still separates them, return "siguientePregunta" with "caracteristica" (one of: sporePrint, gillAttachment, ringOrVolva, smell, bruising, other), "pregunta" and "opciones" (2 to 5 short, mutually exclusive answers). Pick the feature that best separates the leading candidates and never repeat a feature already asked. ${plain} Otherwise return "siguientePregunta": null.`;
+};
+
+// Deliberately unlike the identification prompt: the reviewer starts from the lookalikes and has to rule each one out.
+const getVerificationPrompt = (mushroomInfo: MushroomInfo, lookalikes: SimilarMushroom[], language: 'es' | 'en', photoCount: number) => {
+    const isEs = language === 'es';
+    const list = lookalikes.map(l => `- ${l.nombreCientifico} (${l.nombreComun})`).join('\n');
+    const subject = photoCount > 1 ? (isEs ? 'las fotos anteriores' : 'the photos above') : (isEs ? 'la foto anterior' : 'the photo above');
+    return isEs ?
+    `Eres una revisora de seguridad micológica, escéptica e independiente. Un primer análisis identificó el ejemplar de ${subject} como ${mushroomInfo.nombreCientifico} (${mushroomInfo.nombreComun}) y lo calificó como "${mushroomInfo.toxicidad.nivelToxicidad}". No des por buena esa identificación.
+
+Para cada una de estas especies tóxicas parecidas, decide si los rasgos VISIBLES en ${subject} la descartan:
+${list}
+
+Devuelve un JSON con la clave "veredictos": una lista con un objeto por especie, con "nombreCientifico" (tal como aparece arriba), "veredicto" y "razon".
+- "agree": los rasgos visibles descartan claramente esa especie. Cita en "razon" los rasgos concretos.
+- "disagree": no se puede descartar (por ejemplo, no se ve la base del pie para comprobar la volva, o los rasgos encajan). Explica en "razon" qué falta o qué encaja.
+Ante la duda, responde "disagree".`
+    :
+    `You are a sceptical, independent mushroom safety reviewer. A first analysis identified the specimen in ${subject} as ${mushroomInfo.nombreCientifico} (${mushroomInfo.nombreComun}) and rated it "${mushroomInfo.toxicidad.nivelToxicidad}". Do not take that identification for granted.
+
+For each of these toxic lookalikes, decide whether the features VISIBLE in ${subject} rule it out:
+${list}
+
+Return a JSON with the key "veredictos": a list with one object per species, with "nombreCientifico" (exactly as written above), "veredicto" and "razon".
+- "agree": the visible features clearly rule that species out. Cite the specific features in "razon".
+- "disagree": it cannot be ruled out (for example, the stem base is not visible to check for a volva, or the features match). Explain in "razon" what is missing or what matches.
+When in doubt, answer "disagree".`;
+};
 
 // --- UTILITY FUNCTIONS ---
 
-const getJsonFromResponse = (text: string) => {
+/**
+ * Parses the JSON body of a response.
+ * When a response schema was sent the body is guaranteed to be plain JSON; otherwise
+ * (grounded requests on models that can't combine tools with a schema) a ```json fence is tolerated.
+ */
+const getJsonFromResponse = (text: string | undefined, structured: boolean) => {
+    if (!text) throw new Error("INVALID_RESPONSE");
     try {
         return JSON.parse(text);
     } catch (e) {
+        if (structured) throw new Error("INVALID_RESPONSE");
         const match = text.match(/```json\s*([\s\S]*?)\s*```/);
         if (match && match[1]) {
             try { return JSON.parse(match[1]); } catch (parseError) { throw new Error("INVALID_RESPONSE"); }
@@ -143,6 +272,20 @@ const getJsonFromResponse = (text: string) => {
     }
 };
 
+const PHOTO_VIEW_LABELS: Record<'es' | 'en', Record<PhotoView, string>> = {
+    es: { cap: 'sombrero visto desde arriba', gills: 'láminas o poros (parte inferior del sombrero)', stemBase: 'base del pie (buscar volva)', crossSection: 'corte de la carne', other: 'vista general' },
+    en: { cap: 'cap seen from above', gills: 'gills or pores (underside of the cap)', stemBase: 'stem base (look for a volva)', crossSection: 'cut flesh', other: 'general view' },
+};
+
+/**
+ * Builds the request parts for a multi-photo submission: each image is preceded by a
+ * short caption naming its view, so the model can tell the cap from the stem base.
+ */
+const buildPhotoParts = (photos: PhotoInput[], language: 'es' | 'en'): any[] => photos.flatMap((photo, i) => [
+    { text: language === 'es' ? `Foto ${i + 1}: ${PHOTO_VIEW_LABELS.es[photo.view]}.` : `Photo ${i + 1}: ${PHOTO_VIEW_LABELS.en[photo.view]}.` },
+    { inlineData: { data: photo.base64, mimeType: photo.mimeType } },
+]);
+
 const handleApiError = (error: unknown) => {
     console.error("API call error:", error);
     if (error instanceof Error) {
@@ -156,9 +299,12 @@ const handleApiError = (error: unknown) => {
             console.error("DETECTED INVALID API KEY. Please check your Render configuration for extra spaces or typos.");
             throw new Error("SERVICE_CONFIG_ERROR");
         }
-        if (message.includes('429') || message.includes('resource has been exhausted')) {
+        if (isQuotaError(error)) {
             throw new Error("API_QUOTA");
         }
+        if (message === 'TIMEOUT' || message === 'CANCELLED') {
+            throw error;
+        }
         if (message.includes('failed to fetch')) { // For browser-specific network errors
             throw new Error("NETWORK_ERROR");
         }
@@ -167,14 +313,6 @@ const handleApiError = (error: unknown) => {
     throw new Error("UNEXPECTED_ERROR");
 };
 
-const isQuotaError = (error: unknown): boolean => {
-    if (error instanceof Error) {
-        const message = error.message;
-        return message.includes('429') || message.toLowerCase().includes('resource has been exhausted');
-    }
-    return false;
-};
-
 
 // --- SANITIZER FUNCTIONS ---
 
@@ -200,58 +338,10 @@ const formatTextualData = (data: any, fallback: string): string => {
     return String(data);
 };
 
-function sanitizeMushroomInfo(data: any): MushroomInfo | null {
-    if (!data || typeof data !== 'object' || data.error) return null;
-
-    const toxData = data.toxicidad && typeof data.toxicidad === 'object' ? data.toxicidad : {};
-    const sanitizedToxicity: ToxicityInfo = {
-        descripcion: formatTextualData(toxData.descripcion, 'No information available.'),
-        nivelToxicidad: ['Edible', 'Inedible', 'Caution', 'Poisonous', 'Lethal'].includes(toxData.nivelToxicidad) ? toxData.nivelToxicidad : 'Caution',
-        compuestosToxicos: Array.isArray(toxData.compuestosToxicos) ? toxData.compuestosToxicos.filter((c: any) => typeof c === 'string') : [],
-        sintomas: formatTextualData(toxData.sintomas, 'Symptoms not specified.'),
-        primerosAuxilios: formatTextualData(toxData.primerosAuxilios, 'In case of ingestion, seek immediate medical attention.'),
-    };
-
-    const sanitized: MushroomInfo = {
-        nombreComun: formatTextualData(data.nombreComun, 'Name not available'),
-        nombreCientifico: formatTextualData(data.nombreCientifico, 'Scientific name not available'),
-        sinonimos: Array.isArray(data.sinonimos) ? data.sinonimos.filter((s: any) => typeof s === 'string') : [],
-        descripcionGeneral: formatTextualData(data.descripcionGeneral, 'No description available.'),
-        habitat: formatTextualData(data.habitat, 'Habitat not available.'),
-        temporada: formatTextualData(data.temporada, 'Season not available.'),
-        distribucionGeografica: formatTextualData(data.distribucionGeografica, 'Geographic distribution not available.'),
-        usosCulinarios: Array.isArray(data.usosCulinarios) ? data.usosCulinarios.filter((u: any) => typeof u === 'string') : [],
-        toxicidad: sanitizedToxicity,
-        recetas: Array.isArray(data.recetas) ? data.recetas.map((r: any): Recipe | null => {
-            if (!r || typeof r !== 'object') return null;
-            return {
-                nombre: formatTextualData(r.nombre, 'Unnamed Recipe'),
-                ingredientes: Array.isArray(r.ingredientes) ? r.ingredientes.filter((i: any) => typeof i === 'string') : [],
-                instrucciones: formatTextualData(r.instrucciones, 'No instructions.'),
-            };
-        }).filter((r): r is Recipe => r !== null) : [],
-        hongosSimilares: Array.isArray(data.hongosSimilares) ? data.hongosSimilares.map((h: any): SimilarMushroom | null => {
-            if (!h || typeof h !== 'object' || !h.nombreComun || !h.diferenciaClave) return null;
-            return {
-                nombreComun: formatTextualData(h.nombreComun, 'Unknown Mushroom'),
-                nombreCientifico: formatTextualData(h.nombreCientifico, 'N/A'),
-                diferenciaClave: formatTextualData(h.diferenciaClave, 'No key difference provided.'),
-                esToxico: typeof h.esToxico === 'boolean' ? h.esToxico : true,
-            };
-        }).filter((h): h is SimilarMushroom => h !== null) : [],
-    };
-
-    if (sanitized.nombreComun === 'Name not available') return null;
-    return sanitized;
-}
-
 function sanitizeComparisonInfo(data: any): ComparisonInfo | null {
     if (!data || typeof data !== 'object' || data.error) return null;
     const getStringArray = (val: any): string[] => Array.isArray(val) ? val.filter(item => typeof item === 'string') : [];
-    const getToxicityLevel = (val: any): ToxicityInfo['nivelToxicidad'] => {
-        const levels: ToxicityInfo['nivelToxicidad'][] = ['Edible', 'Inedible', 'Caution', 'Poisonous', 'Lethal'];
-        return levels.includes(val) ? val : 'Caution';
-    };
+    const getToxicityLevel = (val: any): ToxicityInfo['nivelToxicidad'] => TOXICITY_LEVELS.includes(val) ? val : 'Caution';
 
     return {
         resumenComparativo: formatTextualData(data.resumenComparativo, 'N/A'),
@@ -271,230 +361,294 @@ function sanitizeComparisonInfo(data: any): ComparisonInfo | null {
 
 // --- CORE API FUNCTIONS ---
 
-const getMushroomInfo = async (parts: any[], useGrounding: boolean, language: 'es' | 'en', difficulty: DifficultyLevel): Promise<{ mushroomInfo: MushroomInfo; sources: GroundingSource[] }> => {
-  const ai = getAiClient();
-  const textPart = { text: getMushroomJsonPrompt(parts.find(p => p.text).text, language, difficulty) };
-  const imagePart = parts.find(p => p.inlineData);
-  const finalParts = imagePart ? [imagePart, textPart] : [textPart];
+// Gemini 3 can combine Google Search grounding with a response schema; older models can't,
+// so grounded requests to them fall back to prompt-only JSON.
+const supportsSchemaWithTools = (model: string) => model.startsWith('gemini-3');
 
+const buildMushroomConfig = (model: string, useGrounding: boolean): { config: any; structured: boolean } => {
   const config: any = {};
   if (useGrounding) {
     config.tools = [{ googleSearch: {} }];
-  } else {
-   config.responseMimeType = 'application/json';
   }
+  const structured = !useGrounding || supportsSchemaWithTools(model);
+  if (structured) {
+    config.responseMimeType = 'application/json';
+    config.responseSchema = mushroomInfoSchema;
+  }
+  return { config, structured };
+};
 
-  // FALLBACK STRATEGY:
-  // 1. Try with the powerful model (Gemini 3 Pro)
-  // 2. If it hits a quota error (429), fallback to the faster, lighter model (Gemini 2.5 Flash)
-  
-  try {
-    // Attempt 1: Gemini 3 Pro
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-preview',
-      contents: { parts: finalParts },
-      config: config,
-    });
-    
-    const data = getJsonFromResponse(response.text);
+const parseMushroomResponse = (text: string, groundingChunks: GroundingChunk[], structured: boolean): { mushroomInfo: MushroomInfo; sources: GroundingSource[]; validationIssues: ValidationIssue[] } => {
+    const data = getJsonFromResponse(text, structured);
     if (!data) throw new Error("INVALID_RESPONSE");
     if (data.error) throw new Error("IDENTIFY_FAILED");
 
-    const sanitizedData = sanitizeMushroomInfo(data);
-    if (!sanitizedData) throw new Error("IDENTIFY_FAILED");
-    
-    const sources: GroundingSource[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: GroundingChunk) => ({
+    const validated = validateMushroomInfo(data);
+    if (!validated) throw new Error("IDENTIFY_FAILED");
+
+    const sources: GroundingSource[] = groundingChunks.map((chunk: GroundingChunk) => ({
             uri: chunk.web?.uri || '',
             title: chunk.web?.title || 'Untitled Source'
-        })).filter(source => source.uri) || [];
+        })).filter(source => source.uri);
+
+    if (validated.issues.length > 0) {
+        console.warn("Mushroom response was incomplete:", validated.issues);
+    }
+    return { mushroomInfo: validated.mushroomInfo, sources, validationIssues: validated.issues };
+};
 
-    return { mushroomInfo: sanitizedData, sources };
+type MushroomInfoResult = { mushroomInfo: MushroomInfo; sources: GroundingSource[]; validationIssues: ValidationIssue[]; model: string };
 
-  } catch (error) {
-    // Check if it is a quota error
-    if (isQuotaError(error)) {
-        console.warn("Gemini 3 Pro quota exceeded. Falling back to Gemini 2.5 Flash.");
-        try {
-             // Attempt 2: Gemini 2.5 Flash
-             const response = await ai.models.generateContent({
-                model: 'gemini-2.5-flash',
-                contents: { parts: finalParts },
-                config: config,
-              });
-
-              const data = getJsonFromResponse(response.text);
-              if (!data) throw new Error("INVALID_RESPONSE");
-              if (data.error) throw new Error("IDENTIFY_FAILED");
-          
-              const sanitizedData = sanitizeMushroomInfo(data);
-              if (!sanitizedData) throw new Error("IDENTIFY_FAILED");
-              
-              const sources: GroundingSource[] = response.candidates?.[0]?.groundingMetadata?.groundingChunks?.map((chunk: GroundingChunk) => ({
-                      uri: chunk.web?.uri || '',
-                      title: chunk.web?.title || 'Untitled Source'
-                  })).filter(source => source.uri) || [];
-          
-              return { mushroomInfo: sanitizedData, sources };
-
-        } catch (fallbackError) {
-             // If fallback also fails, then handle as a real error
-             handleApiError(fallbackError);
-             throw new Error("UNEXPECTED_ERROR");
+// Prompt-only JSON may come wrapped in a ```json fence; drop it so the partial parser sees bare JSON.
+const stripJsonFence = (text: string) => text.replace(/^\s*```(?:json)?\s*/, '').replace(/\s*`{1,3}\s*$/, '');
+
+/**
+ * Requests the profile as a stream. Each chunk is parsed as partial JSON and reported through
+ * `onProgress`, so the UI can render the name and toxicity while the rest is still being written.
+ */
+const getMushroomInfo = async (context: string, imageParts: any[], useGrounding: boolean, language: 'es' | 'en', difficulty: DifficultyLevel, options: RequestOptions = {}): Promise<MushroomInfoResult> => {
+  const ai = getAiClient();
+  const textPart = { text: getMushroomJsonPrompt(context, language, difficulty) };
+  const finalParts = [...imageParts, textPart];
+  const { signal, onProgress } = options;
+
+  try {
+    const { result, model } = await runWithPolicy('identify', async (model, abortSignal) => {
+      const { config, structured } = buildMushroomConfig(model, useGrounding);
+      const stream = await ai.models.generateContentStream({
+        model,
+        contents: { parts: finalParts },
+        config: { ...config, abortSignal },
+      });
+
+      let text = '';
+      let groundingChunks: GroundingChunk[] = [];
+      let lastReported = '';
+      for await (const chunk of stream) {
+        text += chunk.text || '';
+        groundingChunks = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || groundingChunks;
+        if (!onProgress) continue;
+        const partial = coercePartialMushroomInfo(parsePartialJson(stripJsonFence(text)));
+        const serialized = partial ? JSON.stringify(partial) : '';
+        if (partial && serialized !== lastReported) {
+          lastReported = serialized;
+          onProgress({ stage: 'partial', ...partial });
         }
-    } else {
-        // If it was not a quota error (e.g. network), handle immediately
-        handleApiError(error);
-        throw new Error("UNEXPECTED_ERROR");
-    }
+      }
+      return parseMushroomResponse(text, groundingChunks, structured);
+    }, signal);
+    onProgress?.({ stage: 'info', ...result });
+    return { ...result, model };
+  } catch (error) {
+    handleApiError(error);
+    throw new Error("UNEXPECTED_ERROR");
   }
 };
 
-async function generateDistributionMap(mushroomInfo: MushroomInfo, language: 'es' | 'en', imageQuality: ImageQuality): Promise<{ data: string | null; isQuotaError: boolean; }> {
-    if (!mushroomInfo.distribucionGeografica || mushroomInfo.distribucionGeografica.includes('no disponible') || mushroomInfo.distribucionGeografica.includes('not available')) {
-        return { data: null, isQuotaError: false };
-    }
+// Gemini 3 image models accept an output size; the 2.5 image model only takes an aspect ratio.
+const buildImageConfig = (model: string, imageQuality: ImageQuality, abortSignal: AbortSignal) => ({
+    responseModalities: [Modality.IMAGE],
+    imageConfig: model.startsWith('gemini-3')
+        ? { imageSize: imageQuality === 'High' ? '2K' : '1K', aspectRatio: '1:1' }
+        : { aspectRatio: '1:1' },
+    abortSignal,
+});
+
+/**
+ * Runs an image generation prompt through the 'image' policy.
+ * Only throws on cancellation: failures are reported through `isQuotaError` so the caller can fall back to a placeholder.
+ */
+const generateImage = async (prompt: string, imageQuality: ImageQuality, signal?: AbortSignal): Promise<{ data: string | null; isQuotaError: boolean; model: string | null }> => {
     try {
         const ai = getAiClient();
-
-        const highQualityPromptEs = `Tarea: Generar un mapa de distribución geográfica. Sujeto: El hongo *${mushroomInfo.nombreCientifico}*. Datos de origen para la distribución: "${mushroomInfo.distribucionGeografica}". Requisitos: Estilo de mapa de atlas, limpio y profesional. Resalta claramente las regiones geográficas mencionadas en los datos de origen. Incluye etiquetas para continentes y océanos. El mapa debe ser visualmente claro y priorizar la precisión informativa sobre el estilo artístico.`;
-        const standardQualityPromptEs = `Tarea: Generar un mapa de distribución geográfica claro y legible del hongo *${mushroomInfo.nombreCientifico}*, basado en esta descripción: "${mushroomInfo.distribucionGeografica}".`;
-        
-        const highQualityPromptEn = `Task: Generate a geographic distribution map. Subject: The mushroom *${mushroomInfo.nombreCientifico}*. Source data for distribution: "${mushroomInfo.distribucionGeografica}". Requirements: Clean, professional atlas map style. Clearly highlight the geographic regions mentioned in the source data. Include labels for continents and oceans. The map must be visually clear and prioritize informational accuracy over artistic style.`;
-        const standardQualityPromptEn = `Task: Generate a clear and legible geographic distribution map for the mushroom *${mushroomInfo.nombreCientifico}*, based on this description: "${mushroomInfo.distribucionGeografica}".`;
-
-        const prompt_text = language === 'es'
-            ? (imageQuality === 'High' ? highQualityPromptEs : standardQualityPromptEs)
-            : (imageQuality === 'High' ? highQualityPromptEn : standardQualityPromptEn);
-        
-        const imageSize = imageQuality === 'High' ? '2K' : '1K';
-
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: { parts: [{ text: prompt_text }] },
-            config: {
-                responseModalities: [Modality.IMAGE],
-                imageConfig: {
-                     imageSize: imageSize,
-                     aspectRatio: '1:1'
+        const { result, model } = await runWithPolicy('image', async (model, abortSignal) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents: { parts: [{ text: prompt }] },
+                config: buildImageConfig(model, imageQuality, abortSignal),
+            });
+            for (const part of response.candidates?.[0]?.content?.parts || []) {
+                if (part.inlineData) {
+                    const base64ImageBytes: string = part.inlineData.data;
+                    return `data:image/jpeg;base64,${base64ImageBytes}`;
                 }
-            },
-        });
-
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return { data: `data:image/jpeg;base64,${base64ImageBytes}`, isQuotaError: false };
             }
-        }
-        return { data: null, isQuotaError: false };
-
+            return null;
+        }, signal);
+        return { data: result, isQuotaError: false, model: result ? model : null };
     } catch (error) {
-        console.warn("Error generating distribution map:", error);
-        let message = '';
-        if (error instanceof Error) {
-            message = error.message;
-        } else if (typeof error === 'object' && error !== null) {
-            message = (error as any).message || JSON.stringify(error);
-        } else {
-            message = String(error);
-        }
-        const isQuotaError = message.includes('429') || message.toLowerCase().includes('resource has been exhausted');
-        return { data: null, isQuotaError: isQuotaError };
+        throwIfCancelled(signal);
+        console.warn("Graceful: Could not generate image. Falling back to placeholder.", error);
+        return { data: null, isQuotaError: isQuotaError(error), model: null };
+    }
+};
+
+async function generateDistributionMap(mushroomInfo: MushroomInfo, language: 'es' | 'en', imageQuality: ImageQuality, signal?: AbortSignal): Promise<{ data: string | null; isQuotaError: boolean; model: string | null }> {
+    if (!mushroomInfo.distribucionGeografica || mushroomInfo.distribucionGeografica.includes('no disponible') || mushroomInfo.distribucionGeografica.includes('not available')) {
+        return { data: null, isQuotaError: false, model: null };
     }
+    const highQualityPromptEs = `Tarea: Generar un mapa de distribución geográfica. Sujeto: El hongo *${mushroomInfo.nombreCientifico}*. Datos de origen para la distribución: "${mushroomInfo.distribucionGeografica}". Requisitos: Estilo de mapa de atlas, limpio y profesional. Resalta claramente las regiones geográficas mencionadas en los datos de origen. Incluye etiquetas para continentes y océanos. El mapa debe ser visualmente claro y priorizar la precisión informativa sobre el estilo artístico.`;
+    const standardQualityPromptEs = `Tarea: Generar un mapa de distribución geográfica claro y legible del hongo *${mushroomInfo.nombreCientifico}*, basado en esta descripción: "${mushroomInfo.distribucionGeografica}".`;
+    
+    const highQualityPromptEn = `Task: Generate a geographic distribution map. Subject: The mushroom *${mushroomInfo.nombreCientifico}*. Source data for distribution: "${mushroomInfo.distribucionGeografica}". Requirements: Clean, professional atlas map style. Clearly highlight the geographic regions mentioned in the source data. Include labels for continents and oceans. The map must be visually clear and prioritize informational accuracy over artistic style.`;
+    const standardQualityPromptEn = `Task: Generate a clear and legible geographic distribution map for the mushroom *${mushroomInfo.nombreCientifico}*, based on this description: "${mushroomInfo.distribucionGeografica}".`;
+
+    const prompt_text = language === 'es'
+        ? (imageQuality === 'High' ? highQualityPromptEs : standardQualityPromptEs)
+        : (imageQuality === 'High' ? highQualityPromptEn : standardQualityPromptEn);
+    
+    return generateImage(prompt_text, imageQuality, signal);
 }
 
-async function generateMushroomImage(mushroomInfo: MushroomInfo, language: 'es' | 'en', imageQuality: ImageQuality): Promise<{ data: string | null; isQuotaError: boolean; }> {
-    try {
-        const ai = getAiClient();
+async function generateMushroomImage(mushroomInfo: MushroomInfo, language: 'es' | 'en', imageQuality: ImageQuality, signal?: AbortSignal): Promise<{ data: string | null; isQuotaError: boolean; model: string | null }> {
+    const highQualityPromptEs = `Una fotografía de calidad de estudio, ultradetallada, 8k y fotorrealista del hongo *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}). La imagen debe ser micológicamente precisa, mostrando los detalles morfológicos correctos de la especie, sobre un fondo de estudio blanco y neutro.`;
+    const standardQualityPromptEs = `Una fotografía clara y micológicamente precisa del hongo *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}) sobre un fondo neutro.`;
 
-        const highQualityPromptEs = `Una fotografía de calidad de estudio, ultradetallada, 8k y fotorrealista del hongo *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}). La imagen debe ser micológicamente precisa, mostrando los detalles morfológicos correctos de la especie, sobre un fondo de estudio blanco y neutro.`;
-        const standardQualityPromptEs = `Una fotografía clara y micológicamente precisa del hongo *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}) sobre un fondo neutro.`;
+    const highQualityPromptEn = `An ultra-detailed, 8k, photorealistic studio quality photograph of the mushroom *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}). The image must be mycologically accurate, showing the correct morphological details of the species, on a neutral white studio background.`;
+    const standardQualityPromptEn = `A clear, mycologically accurate photograph of the mushroom *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}) on a neutral background.`;
 
-        const highQualityPromptEn = `An ultra-detailed, 8k, photorealistic studio quality photograph of the mushroom *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}). The image must be mycologically accurate, showing the correct morphological details of the species, on a neutral white studio background.`;
-        const standardQualityPromptEn = `A clear, mycologically accurate photograph of the mushroom *${mushroomInfo.nombreCientifico}* (${mushroomInfo.nombreComun}) on a neutral background.`;
+    const prompt_text = language === 'es'
+        ? (imageQuality === 'High' ? highQualityPromptEs : standardQualityPromptEs)
+        : (imageQuality === 'High' ? highQualityPromptEn : standardQualityPromptEn);
 
-        const prompt_text = language === 'es'
-            ? (imageQuality === 'High' ? highQualityPromptEs : standardQualityPromptEs)
-            : (imageQuality === 'High' ? highQualityPromptEn : standardQualityPromptEn);
+    return generateImage(prompt_text, imageQuality, signal);
+}
 
-        const imageSize = imageQuality === 'High' ? '2K' : '1K';
 
-        const response = await ai.models.generateContent({
-            model: 'gemini-3-pro-image-preview',
-            contents: { parts: [{ text: prompt_text }] },
-            config: {
-                responseModalities: [Modality.IMAGE],
-                imageConfig: {
-                    imageSize: imageSize,
-                    aspectRatio: '1:1'
-                }
-            },
-        });
+const getCandidatesFromImage = async (
+  photos: PhotoInput[],
+  location: { latitude: number; longitude: number } | null,
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  options: RequestOptions = {}
+): Promise<IdentificationCandidate[]> => {
+  const ai = getAiClient();
+  const parts = [...buildPhotoParts(photos, language), { text: getCandidatesPrompt(language, location, difficulty, photos.length) }];
+  const config = { responseMimeType: 'application/json', responseSchema: candidatesSchema };
 
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                const base64ImageBytes: string = part.inlineData.data;
-                return { data: `data:image/jpeg;base64,${base64ImageBytes}`, isQuotaError: false };
-            }
-        }
-        return { data: null, isQuotaError: false };
-        
-    } catch (error) {
-        console.warn("Graceful: Could not generate mushroom image. Falling back to placeholder.", error);
-        let message = '';
-        if (error instanceof Error) {
-            message = error.message;
-        } else if (typeof error === 'object' && error !== null) {
-            message = (error as any).message || JSON.stringify(error);
-        } else {
-            message = String(error);
-        }
-        const isQuotaError = message.includes('429') || message.toLowerCase().includes('resource has been exhausted');
-        return { data: null, isQuotaError: isQuotaError };
-    }
-}
+  try {
+    const { result } = await runWithPolicy('candidates', async (model, abortSignal) => {
+      const response = await ai.models.generateContent({ model, contents: { parts }, config: { ...config, abortSignal } });
+      const candidates = validateCandidates(getJsonFromResponse(response.text, true));
+      if (candidates.length === 0) throw new Error("IDENTIFY_FAILED");
+      return candidates;
+    }, options.signal);
+    return result;
+  } catch (error) {
+    handleApiError(error);
+    throw new Error("UNEXPECTED_ERROR");
+  }
+};
 
+const refineWithKey = async (
+  photos: PhotoInput[],
+  _location: { latitude: number; longitude: number } | null,
+  candidates: IdentificationCandidate[],
+  trail: KeyAnswer[],
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  options: RequestOptions = {}
+): Promise<KeyStep> => {
+  const ai = getAiClient();
+  const parts = [...buildPhotoParts(photos, language), { text: getKeyStepPrompt(language, candidates, trail, difficulty, photos.length) }];
+  const config = { responseMimeType: 'application/json', responseSchema: keyStepSchema };
+
+  try {
+    const { result } = await runWithPolicy('candidates', async (model, abortSignal) => {
+      const response = await ai.models.generateContent({ model, contents: { parts }, config: { ...config, abortSignal } });
+      const step = validateKeyStep(getJsonFromResponse(response.text, true));
+      // Nothing left to rank and nothing left to ask: the key cannot help with these photos.
+      if (step.candidates.length === 0 && !step.nextQuestion) throw new Error("IDENTIFY_FAILED");
+      return step;
+    }, options.signal);
+    return result;
+  } catch (error) {
+    handleApiError(error);
+    throw new Error("UNEXPECTED_ERROR");
+  }
+};
+
+const verifyLookalikes = async (
+  photos: PhotoInput[],
+  mushroomInfo: MushroomInfo,
+  lookalikes: SimilarMushroom[],
+  language: 'es' | 'en',
+  avoidModel: string | null,
+  options: RequestOptions = {}
+): Promise<{ verdicts: LookalikeVerdict[]; model: string }> => {
+  const ai = getAiClient();
+  const parts = [...buildPhotoParts(photos, language), { text: getVerificationPrompt(mushroomInfo, lookalikes, language, photos.length) }];
+  const config = { responseMimeType: 'application/json', responseSchema: verificationSchema };
+
+  try {
+    const { result, model } = await runWithPolicy('verify', async (model, abortSignal) => {
+      const response = await ai.models.generateContent({ model, contents: { parts }, config: { ...config, abortSignal } });
+      return validateVerdicts(getJsonFromResponse(response.text, true), lookalikes);
+    }, options.signal, avoidModel);
+    return { verdicts: result, model };
+  } catch (error) {
+    handleApiError(error);
+    throw new Error("UNEXPECTED_ERROR");
+  }
+};
 
-export const identifyMushroomFromImage = async (
-  base64Image: string,
-  mimeType: string,
+const identifyMushroomFromImage = async (
+  photos: PhotoInput[],
   location: { latitude: number; longitude: number } | null,
   language: 'es' | 'en',
   difficulty: DifficultyLevel,
-  imageQuality: ImageQuality
-): Promise<{ mushroomInfo: MushroomInfo; sources: GroundingSource[], mapaDistribucionSrc: string | null; mapGenerationFailed: boolean; }> => {
-  const imagePart = { inlineData: { data: base64Image, mimeType } };
-  let context: string = language === 'es' ? "Identifica el hongo en la siguiente imagen" : "Identify the mushroom in the following image";
+  imageQuality: ImageQuality,
+  candidate?: IdentificationCandidate | null,
+  options: RequestOptions = {}
+): Promise<ImageIdentificationResult> => {
+  let context: string = photos.length > 1
+      ? (language === 'es' ? `Identifica el hongo a partir de las ${photos.length} fotos anteriores, que muestran distintas vistas del mismo ejemplar,` : `Identify the mushroom from the ${photos.length} photos above, which show different views of the same specimen,`)
+      : (language === 'es' ? "Identifica el hongo en la siguiente imagen" : "Identify the mushroom in the following image");
   if (location) {
       context += language === 'es' 
           ? ` y considera que fue encontrado cerca de la latitud ${location.latitude} y longitud ${location.longitude}.`
           : ` and consider it was found near latitude ${location.latitude} and longitude ${location.longitude}.`;
   }
-  const textPart = { text: context };
-  const { mushroomInfo, sources } = await getMushroomInfo([imagePart, textPart], true, language, difficulty);
-  const { data: mapaDistribucionSrc, isQuotaError } = await generateDistributionMap(mushroomInfo, language, imageQuality);
+  if (candidate) {
+      // The user picked this species from the ranked list; describe it, but keep the photo as the reference.
+      context += language === 'es'
+          ? ` El usuario ha seleccionado la especie candidata "${candidate.nombreComun}" (${candidate.nombreCientifico}). Proporciona la información de esa especie, teniendo en cuenta la imagen.`
+          : ` The user has selected the candidate species "${candidate.nombreComun}" (${candidate.nombreCientifico}). Provide the information for that species, taking the image into account.`;
+  }
+  const { mushroomInfo, sources, validationIssues, model } = await getMushroomInfo(context, buildPhotoParts(photos, language), true, language, difficulty, options);
+  const { data: mapaDistribucionSrc, isQuotaError: mapQuotaError, model: mapModel } = await generateDistributionMap(mushroomInfo, language, imageQuality, options.signal);
+  options.onProgress?.({ stage: 'map', mapaDistribucionSrc });
+  const answeredBy = { info: model, map: mapModel };
   
-  if (isQuotaError) {
+  if (mapQuotaError) {
       // Don't block the user, just proceed without the map.
       console.warn("Map generation failed due to quota. Proceeding without it.");
-      return { mushroomInfo, sources, mapaDistribucionSrc: null, mapGenerationFailed: true };
+      return { mushroomInfo, sources, validationIssues, mapaDistribucionSrc: null, mapGenerationFailed: true, answeredBy };
   }
 
-  return { mushroomInfo, sources, mapaDistribucionSrc, mapGenerationFailed: mapaDistribucionSrc === null };
+  return { mushroomInfo, sources, validationIssues, mapaDistribucionSrc, mapGenerationFailed: mapaDistribucionSrc === null, answeredBy };
 };
 
-export const identifyMushroomFromText = async (
+const identifyMushroomFromText = async (
   mushroomName: string,
   language: 'es' | 'en',
   difficulty: DifficultyLevel,
-  imageQuality: ImageQuality
-): Promise<{ mushroomInfo: MushroomInfo; sources: GroundingSource[]; imageSrc: string | null; mapaDistribucionSrc: string | null; mainImageGenerationFailed: boolean; mapGenerationFailed: boolean; }> => {
+  imageQuality: ImageQuality,
+  options: RequestOptions = {}
+): Promise<TextIdentificationResult> => {
     const context = language === 'es' ? `Busca información sobre el hongo llamado "${mushroomName}"` : `Find information about the mushroom named "${mushroomName}"`;
-    const textPart = { text: context };
-    const { mushroomInfo, sources } = await getMushroomInfo([textPart], false, language, difficulty);
-
-    const { data: imageSrc, isQuotaError: mainImageQuotaError } = await generateMushroomImage(mushroomInfo, language, imageQuality);
-    const { data: mapaDistribucionSrc, isQuotaError: mapQuotaError } = await generateDistributionMap(mushroomInfo, language, imageQuality);
+    const { mushroomInfo, sources, validationIssues, model } = await getMushroomInfo(context, [], false, language, difficulty, options);
+
+    // The illustration and the map are independent, so they are generated side by side and reported as each one lands.
+    const report = <T>(promise: Promise<T>, toProgress: (value: T) => IdentificationProgress) =>
+        promise.then(value => { options.onProgress?.(toProgress(value)); return value; });
+    const [
+        { data: imageSrc, isQuotaError: mainImageQuotaError, model: imageModel },
+        { data: mapaDistribucionSrc, isQuotaError: mapQuotaError, model: mapModel },
+    ] = await Promise.all([
+        report(generateMushroomImage(mushroomInfo, language, imageQuality, options.signal), image => ({ stage: 'image', imageSrc: image.data })),
+        report(generateDistributionMap(mushroomInfo, language, imageQuality, options.signal), map => ({ stage: 'map', mapaDistribucionSrc: map.data })),
+    ]);
     
     // Gracefully handle quota errors instead of throwing.
     // The UI will show placeholders for failed images.
@@ -505,61 +659,101 @@ export const identifyMushroomFromText = async (
     return { 
         mushroomInfo, 
         sources, 
+        validationIssues,
         imageSrc, 
         mapaDistribucionSrc, 
         mainImageGenerationFailed: imageSrc === null,
         mapGenerationFailed: mapaDistribucionSrc === null,
+        answeredBy: { info: model, image: imageModel, map: mapModel },
     };
 };
 
 
-export const compareMushrooms = async (
+const compareMushrooms = async (
     mushroomA: MushroomInfo,
     mushroomB: MushroomInfo,
-    language: 'es' | 'en'
+    language: 'es' | 'en',
+    options: RequestOptions = {}
 ): Promise<ComparisonInfo> => {
     try {
         const ai = getAiClient();
 
         const textPart = { text: getCompareMushroomPrompt(mushroomA, mushroomB, language) };
 
-        // Fallback for Comparison logic as well
-        try {
-             // Attempt 1: Pro
+        const { result } = await runWithPolicy('compare', async (model, abortSignal) => {
             const response = await ai.models.generateContent({
-                model: 'gemini-3-pro-preview',
+                model,
                 contents: { parts: [textPart] },
-                config: { responseMimeType: 'application/json' },
+                config: { responseMimeType: 'application/json', responseSchema: comparisonInfoSchema, abortSignal },
             });
-             const data = getJsonFromResponse(response.text);
+            const data = getJsonFromResponse(response.text, true);
             if (!data) throw new Error("INVALID_RESPONSE");
             if (data.error) throw new Error("IDENTIFY_FAILED");
-            
+
             const sanitizedData = sanitizeComparisonInfo(data);
             if (!sanitizedData) throw new Error("INVALID_RESPONSE");
             return sanitizedData;
-        } catch (error) {
-             if (isQuotaError(error)) {
-                console.warn("Gemini 3 Pro quota exceeded during comparison. Falling back to Flash.");
-                // Attempt 2: Flash
-                const response = await ai.models.generateContent({
-                    model: 'gemini-2.5-flash',
-                    contents: { parts: [textPart] },
-                    config: { responseMimeType: 'application/json' },
-                });
-                const data = getJsonFromResponse(response.text);
-                if (!data) throw new Error("INVALID_RESPONSE");
-                if (data.error) throw new Error("IDENTIFY_FAILED");
-                
-                const sanitizedData = sanitizeComparisonInfo(data);
-                if (!sanitizedData) throw new Error("INVALID_RESPONSE");
-                return sanitizedData;
-             }
-             throw error;
-        }
+        }, options.signal);
+        return result;
 
     } catch (error) {
         handleApiError(error);
         throw new Error("UNEXPECTED_ERROR");
     }
-};
\ No newline at end of file
+};
+
+// Only the latest turns are sent back; older ones rarely matter and would inflate every request.
+const MAX_FOLLOW_UP_TURNS = 20;
+
+/**
+ * Answers a follow-up question about a result. The profile, sources and difficulty go in the
+ * system instruction; the specimen photos are attached to the first user turn sent.
+ */
+const askFollowUpQuestion = async (
+    context: FollowUpContext,
+    conversation: ChatMessage[],
+    question: string,
+    language: 'es' | 'en',
+    options: RequestOptions = {}
+): Promise<ChatMessage> => {
+    try {
+        const ai = getAiClient();
+        // The trimmed history must open on a user turn, which is also where the photos go.
+        const recent = conversation.slice(-MAX_FOLLOW_UP_TURNS);
+        const firstUserTurn = recent.findIndex(turn => turn.role === 'user');
+        const turns = [...(firstUserTurn < 0 ? [] : recent.slice(firstUserTurn)), { role: 'user' as const, text: question }];
+        const photoParts = buildPhotoParts(context.photos, language);
+        const photoTurn = turns.findIndex(turn => turn.role === 'user');
+        const contents = turns.map((turn, i) => ({
+            role: turn.role,
+            parts: i === photoTurn ? [...photoParts, { text: turn.text }] : [{ text: turn.text }],
+        }));
+
+        const { result, model } = await runWithPolicy('followUp', async (model, abortSignal) => {
+            const response = await ai.models.generateContent({
+                model,
+                contents,
+                config: { systemInstruction: getFollowUpPrompt(context, language), abortSignal },
+            });
+            const text = response.text?.trim();
+            if (!text) throw new Error("INVALID_RESPONSE");
+            return text;
+        }, options.signal);
+        return { role: 'model', text: result, timestamp: Date.now(), model };
+
+    } catch (error) {
+        handleApiError(error);
+        throw new Error("UNEXPECTED_ERROR");
+    }
+};
+
+export const geminiProvider: IdentificationProvider = {
+    id: 'gemini',
+    getCandidatesFromImage,
+    identifyFromImage: identifyMushroomFromImage,
+    identifyFromText: identifyMushroomFromText,
+    refineWithKey,
+    verifyLookalikes,
+    compare: compareMushrooms,
+    askFollowUp: askFollowUpQuestion,
+};
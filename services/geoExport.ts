@@ -0,0 +1,90 @@
+import { HistoryEntry } from '../types.ts';
+
+// --- GEO EXPORT ---
+// Finds with a field diary location as map points: GeoJSON for GIS tools, KML for Google Earth
+// and GPX waypoints for GPS units. Each point carries the species, toxicity level, finding date
+// and notes; entries without a location are skipped. Toxicity is written as the level code
+// (Edible, Poisonous…) so files read the same whatever the interface language.
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+const GEO_MIME_TYPES: Record<GeoFormat, string> = {
+    geojson: 'application/geo+json',
+    kml: 'application/vnd.google-earth.kml+xml',
+    gpx: 'application/gpx+xml',
+};
+
+interface GeoPoint {
+    id: string;
+    latitude: number;
+    longitude: number;
+    name: string;
+    scientificName: string;
+    toxicity: string;
+    findingDate?: string;
+    notes?: string;
+}
+
+const toPoints = (entries: HistoryEntry[]): GeoPoint[] => entries.flatMap(entry => entry.location ? [{
+    id: entry.id,
+    latitude: entry.location.latitude,
+    longitude: entry.location.longitude,
+    name: entry.mushroomInfo.nombreComun,
+    scientificName: entry.mushroomInfo.nombreCientifico,
+    toxicity: entry.mushroomInfo.toxicidad.nivelToxicidad,
+    findingDate: entry.findingDate,
+    notes: entry.personalNotes,
+}] : []);
+
+const escapeXml = (value: string) => value.replace(/[<>&"']/g, char => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '"': '&quot;', "'": '&apos;' }[char]!));
+
+// One line per property, for the description fields of KML and GPX.
+const describe = (point: GeoPoint) => [
+    point.scientificName,
+    `Toxicity: ${point.toxicity}`,
+    point.findingDate && `Found: ${point.findingDate}`,
+    point.notes,
+].filter(Boolean).join('\n');
+
+const toGeoJson = (points: GeoPoint[]) => JSON.stringify({
+    type: 'FeatureCollection',
+    features: points.map(({ latitude, longitude, ...properties }) => ({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [longitude, latitude] },
+        properties,
+    })),
+}, null, 2);
+
+const toKml = (points: GeoPoint[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>Mushroom finds</name>
+${points.map(point => `    <Placemark>
+      <name>${escapeXml(point.name)}</name>
+      <description>${escapeXml(describe(point))}</description>
+      <ExtendedData>
+${([['scientificName', point.scientificName], ['toxicity', point.toxicity], ['findingDate', point.findingDate], ['notes', point.notes]] as [string, string | undefined][])
+    .filter(([, value]) => value).map(([name, value]) => `        <Data name="${name}"><value>${escapeXml(value!)}</value></Data>`).join('\n')}
+      </ExtendedData>
+      <Point><coordinates>${point.longitude},${point.latitude}</coordinates></Point>
+    </Placemark>`).join('\n')}
+  </Document>
+</kml>
+`;
+
+const toGpx = (points: GeoPoint[]) => `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Mushroom Identifier" xmlns="http://www.topografix.com/GPX/1/1">
+${points.map(point => `  <wpt lat="${point.latitude}" lon="${point.longitude}">
+    <name>${escapeXml(point.name)}</name>
+    <desc>${escapeXml(describe(point))}</desc>
+    <type>${escapeXml(point.toxicity)}</type>
+  </wpt>`).join('\n')}
+</gpx>
+`;
+
+/** The entries with a location, in the order given, as a file of the chosen format. */
+export const createGeoExport = (entries: HistoryEntry[], format: GeoFormat): Blob => {
+    const points = toPoints(entries);
+    const content = format === 'geojson' ? toGeoJson(points) : format === 'kml' ? toKml(points) : toGpx(points);
+    return new Blob([content], { type: GEO_MIME_TYPES[format] });
+};
@@ -0,0 +1,193 @@
+import { MushroomInfo, ComparisonInfo, ImageQuality, DifficultyLevel, IdentificationProvider, ImageIdentificationResult, TextIdentificationResult, ProviderId, IdentificationCandidate, PhotoInput, RequestOptions, ChatMessage, FollowUpContext, KeyAnswer, KeyStep, SafetyAssessment, ToxicityInfo, VerificationResult } from '../types.ts';
+import { geminiProvider } from './geminiService.ts';
+import { mockProvider } from './mockProvider.ts';
+import { buildCacheKey, getCachedLookup, putCachedLookup } from './responseCache.ts';
+import { applySafetyRules, applyComparisonSafetyRules } from './safetyRules.ts';
+
+type ToxicityLevel = ToxicityInfo['nivelToxicidad'];
+
+const PROVIDERS: Record<ProviderId, IdentificationProvider> = {
+    gemini: geminiProvider,
+    mock: mockProvider,
+};
+
+// --- PROVIDER SELECTION ---
+// The provider is chosen by configuration, mirroring how the API key is resolved:
+// VITE_IDENTIFICATION_PROVIDER (Vite) first, then IDENTIFICATION_PROVIDER (process.env).
+// Anything other than 'mock' falls back to Gemini.
+export const getActiveProviderId = (): ProviderId => {
+    let configured: string | undefined;
+
+    try {
+        // @ts-ignore
+        if (typeof import.meta !== 'undefined' && import.meta.env) {
+            // @ts-ignore
+            configured = import.meta.env.VITE_IDENTIFICATION_PROVIDER;
+        }
+    } catch (e) {
+        // Ignore errors accessing import.meta
+    }
+
+    if (!configured) {
+        try {
+            if (typeof process !== 'undefined' && process.env) {
+                configured = process.env.IDENTIFICATION_PROVIDER;
+            }
+        } catch (e) {
+            // Ignore errors accessing process
+        }
+    }
+
+    return configured?.trim().toLowerCase() === 'mock' ? 'mock' : 'gemini';
+};
+
+const getProvider = (): IdentificationProvider => PROVIDERS[getActiveProviderId()];
+
+// Every profile leaving this module has been through the safety rules, whichever provider wrote it.
+const withSafetyRules = <T extends { mushroomInfo: MushroomInfo }>(result: T): T & { safety: SafetyAssessment } => ({ ...result, ...applySafetyRules(result.mushroomInfo) });
+
+// Streamed profiles are checked too, so an escalated level shows up as soon as the species name arrives.
+const withSafetyProgress = (options: RequestOptions = {}): RequestOptions => ({
+  signal: options.signal,
+  onProgress: options.onProgress && (progress => {
+    if (progress.stage !== 'partial' && progress.stage !== 'info') return options.onProgress!(progress);
+    // The scientific name may still be mid-word ("Amanita" before "muscaria") until the next key has started.
+    if (progress.stage === 'partial' && !progress.receivedFields.includes('toxicidad')) return options.onProgress!(progress);
+    const checked = withSafetyRules(progress);
+    const speciesMatched = checked.safety.matches.some(match => match.subject === 'species');
+    options.onProgress!(checked.stage === 'partial' && speciesMatched
+      ? { ...checked, receivedFields: [...checked.receivedFields, 'toxicidad.nivelToxicidad'] }
+      : checked);
+  }),
+});
+
+// A disagreement lowers the verdict one step: "Edible" becomes "Caution", and "Caution" becomes "Poisonous".
+const DOWNGRADES: Partial<Record<ToxicityLevel, ToxicityLevel>> = { Edible: 'Caution', Caution: 'Poisonous' };
+
+/**
+ * Second opinion for a photo identification that says the mushroom may be eaten while it has toxic lookalikes:
+ * another model checks whether the photos rule each lookalike out. Any lookalike it cannot rule out lowers the level.
+ * @returns undefined when no verification was needed. A failed verification is reported, never thrown, except cancellation.
+ */
+const verifyEdibleVerdict = async (
+  provider: IdentificationProvider,
+  photos: PhotoInput[],
+  result: ImageIdentificationResult,
+  language: 'es' | 'en',
+  options: RequestOptions = {}
+): Promise<{ mushroomInfo: MushroomInfo; verification: VerificationResult } | undefined> => {
+  const level = result.mushroomInfo.toxicidad.nivelToxicidad;
+  const lookalikes = result.mushroomInfo.hongosSimilares.filter(similar => similar.esToxico);
+  if (!DOWNGRADES[level] || lookalikes.length === 0) return undefined;
+
+  options.onProgress?.({ stage: 'verifying' });
+  try {
+    const { verdicts, model } = await provider.verifyLookalikes(photos, result.mushroomInfo, lookalikes, language, result.answeredBy.info, { signal: options.signal });
+    if (!verdicts.some(verdict => verdict.veredicto === 'disagree')) return { mushroomInfo: result.mushroomInfo, verification: { verdicts, model } };
+    const mushroomInfo = { ...result.mushroomInfo, toxicidad: { ...result.mushroomInfo.toxicidad, nivelToxicidad: DOWNGRADES[level]! } };
+    return { mushroomInfo, verification: { verdicts, model, downgradedFrom: level } };
+  } catch (error: any) {
+    if (error?.message === 'CANCELLED') throw error;
+    console.error("Second-opinion verification failed:", error);
+    return { mushroomInfo: result.mushroomInfo, verification: { verdicts: [], model: null, failed: true } };
+  }
+};
+
+// --- PUBLIC API ---
+
+export const getCandidatesFromImage = (
+  photos: PhotoInput[],
+  location: { latitude: number; longitude: number } | null,
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  options?: RequestOptions
+): Promise<IdentificationCandidate[]> => getProvider().getCandidatesFromImage(photos, location, language, difficulty, options);
+
+export const identifyMushroomFromImage = async (
+  photos: PhotoInput[],
+  location: { latitude: number; longitude: number } | null,
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  imageQuality: ImageQuality,
+  candidate?: IdentificationCandidate | null,
+  options?: RequestOptions
+): Promise<ImageIdentificationResult> => {
+  const provider = getProvider();
+  const result = withSafetyRules(await provider.identifyFromImage(photos, location, language, difficulty, imageQuality, candidate, withSafetyProgress(options)));
+  const verification = await verifyEdibleVerdict(provider, photos, result, language, options);
+  return verification ? { ...result, mushroomInfo: verification.mushroomInfo, verification: verification.verification } : result;
+};
+
+/**
+ * Text lookups are served from the response cache when possible. The cache keeps the provider's answer
+ * and the safety rules are applied on the way out, so a rules update also covers cached results.
+ * Pass `forceRefresh` to skip the cached copy and replace it with a fresh answer, `signal` to cancel the lookup
+ * and `onProgress` to receive the profile as it streams in (a cached result arrives at once, without progress).
+ */
+export const identifyMushroomFromText = async (
+  mushroomName: string,
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  imageQuality: ImageQuality,
+  options: RequestOptions & { forceRefresh?: boolean } = {}
+): Promise<TextIdentificationResult> => {
+  const provider = getActiveProviderId();
+  const key = buildCacheKey(provider, mushroomName, language, difficulty, imageQuality);
+  if (!options.forceRefresh) {
+    const cached = getCachedLookup(key);
+    if (cached) return withSafetyRules({ ...cached.result, cachedAt: cached.createdAt });
+  }
+
+  const result = await PROVIDERS[provider].identifyFromText(mushroomName, language, difficulty, imageQuality, withSafetyProgress(options));
+  try {
+    await putCachedLookup({ key, query: mushroomName.trim(), provider, language, difficulty, imageQuality, result });
+  } catch (e) {
+    // A cache failure must never cost the user their result.
+    console.error("Failed to cache the lookup result.", e);
+  }
+  return withSafetyRules(result);
+};
+
+// The identification key stops after this many answers, whatever the model would still ask.
+export const MAX_KEY_QUESTIONS = 6;
+
+/**
+ * True when a ranking is too uncertain to pick from: no candidate, a weak leader,
+ * or two leaders the photos cannot tell apart.
+ */
+export const needsIdentificationKey = (candidates: IdentificationCandidate[]): boolean => {
+  const [first, second] = candidates;
+  if (!first || first.confianza < 0.5) return true;
+  return !!second && first.confianza - second.confianza < 0.15;
+};
+
+export const refineWithKey = async (
+  photos: PhotoInput[],
+  location: { latitude: number; longitude: number } | null,
+  candidates: IdentificationCandidate[],
+  trail: KeyAnswer[],
+  language: 'es' | 'en',
+  difficulty: DifficultyLevel,
+  options?: RequestOptions
+): Promise<KeyStep> => {
+  const step = await getProvider().refineWithKey(photos, location, candidates, trail, language, difficulty, options);
+  return trail.length >= MAX_KEY_QUESTIONS ? { ...step, nextQuestion: null } : step;
+};
+
+export const compareMushrooms = async (
+    mushroomA: MushroomInfo,
+    mushroomB: MushroomInfo,
+    language: 'es' | 'en',
+    options?: RequestOptions
+): Promise<ComparisonInfo> => {
+    const comparison = await getProvider().compare(mushroomA, mushroomB, language, options);
+    return applyComparisonSafetyRules(comparison, mushroomA, mushroomB);
+};
+
+export const askFollowUpQuestion = (
+    context: FollowUpContext,
+    conversation: ChatMessage[],
+    question: string,
+    language: 'es' | 'en',
+    options?: RequestOptions
+): Promise<ChatMessage> => getProvider().askFollowUp(context, conversation, question, language, options);
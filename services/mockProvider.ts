@@ -0,0 +1,341 @@
+import { MushroomInfo, ComparisonInfo, IdentificationProvider, ImageIdentificationResult, TextIdentificationResult, IdentificationCandidate, DifficultyLevel, ImageQuality, PhotoInput, RequestOptions, ChatMessage, FollowUpContext, KeyAnswer, KeyQuestion, KeyStep, LookalikeVerdict, SimilarMushroom } from '../types.ts';
+import { createPlaceholderImage } from '../utils.ts';
+
+// --- FIXTURES ---
+// Canned, hand-written profiles used to run the app without a Gemini key (demos, offline
+// development, tests). Content is intentionally short and only available in English.
+
+const MOCK_FIXTURES: MushroomInfo[] = [
+    {
+        nombreComun: 'Porcini',
+        nombreCientifico: 'Boletus edulis',
+        sinonimos: ['King Bolete', 'Penny Bun', 'Cep'],
+        descripcionGeneral: 'Large bolete with a brown, bun-shaped cap, white to olive pores instead of gills and a swollen stem covered with a fine white net (reticulation). Spore print olive-brown.',
+        habitat: 'Mycorrhizal with pine, spruce, oak and beech, in acidic soils.',
+        temporada: 'Late summer to autumn.',
+        distribucionGeografica: 'Widespread across Europe, North America and Asia.',
+        usosCulinarios: ['Sautéed', 'Dried for stocks and risotto', 'Raw in thin carpaccio when very fresh'],
+        toxicidad: {
+            descripcion: 'Choice edible. Discard specimens infested by larvae and always cook well.',
+            nivelToxicidad: 'Edible',
+            compuestosToxicos: [],
+            sintomas: 'None expected. Large raw portions may cause digestive upset.',
+            primerosAuxilios: 'In case of discomfort after ingestion, seek medical advice and keep a sample of the mushroom.',
+        },
+        condicionesConsumo: {
+            comestibleCrudo: true,
+            requisitos: [
+                { tipo: 'youngSpecimensOnly', descripcion: 'Eat raw only firm, young specimens free of larvae.' },
+                { tipo: 'smallAmounts', descripcion: 'Keep raw portions small; cook it when serving larger amounts.' },
+            ],
+            interacciones: [],
+        },
+        recetas: [
+            {
+                nombre: 'Porcini risotto',
+                ingredientes: ['300 g fresh porcini', '320 g arborio rice', '1 shallot', '1 l vegetable stock', '50 g parmesan', 'Butter'],
+                instrucciones: 'Brown the sliced porcini in butter and set aside. Sweat the shallot, toast the rice, then add stock ladle by ladle. Fold in the mushrooms and parmesan at the end.',
+                crudo: false,
+                hervidoPrevio: false,
+                alcohol: false,
+            },
+        ],
+        hongosSimilares: [
+            {
+                nombreComun: 'Bitter Bolete',
+                nombreCientifico: 'Tylopilus felleus',
+                diferenciaClave: 'Pores turn pink with age and the stem net is dark brown; extremely bitter taste.',
+                esToxico: false,
+            },
+            {
+                nombreComun: "Satan's Bolete",
+                nombreCientifico: 'Rubroboletus satanas',
+                diferenciaClave: 'Red pores, red stem net and flesh that bruises blue.',
+                esToxico: true,
+            },
+        ],
+    },
+    {
+        nombreComun: 'Death Cap',
+        nombreCientifico: 'Amanita phalloides',
+        sinonimos: [],
+        descripcionGeneral: 'Olive-green to yellowish cap, free white gills, white stem with a skirt-like ring and a large sac-like volva at the base. Spore print white.',
+        habitat: 'Mycorrhizal with oak, beech, chestnut and other hardwoods.',
+        temporada: 'Summer to late autumn.',
+        distribucionGeografica: 'Native to Europe; introduced to North America, Australia and South Africa.',
+        usosCulinarios: [],
+        toxicidad: {
+            descripcion: 'Deadly poisonous. Responsible for the majority of fatal mushroom poisonings worldwide.',
+            nivelToxicidad: 'Lethal',
+            compuestosToxicos: ['Alpha-amanitin', 'Phalloidin'],
+            sintomas: 'Latency of 6-24 hours, then severe vomiting and diarrhoea, an apparent remission and finally liver and kidney failure.',
+            primerosAuxilios: 'Medical emergency. Go to the hospital immediately, even without symptoms, and bring any leftover mushroom.',
+        },
+        condicionesConsumo: { comestibleCrudo: false, requisitos: [], interacciones: [] },
+        riesgosPersonales: [
+            { grupo: 'children', nota: 'A single cap can kill a child. Treat any suspected tasting as an emergency.' },
+            { grupo: 'pets', nota: 'Also lethal to dogs; the symptoms start hours later, so see a vet straight away.' },
+            { grupo: 'liverDisease', nota: 'Amatoxins destroy the liver; pre-existing liver disease lowers the lethal dose.' },
+        ],
+        recetas: [],
+        hongosSimilares: [
+            {
+                nombreComun: 'Caesar\'s Mushroom',
+                nombreCientifico: 'Amanita caesarea',
+                diferenciaClave: 'Orange-red cap, yellow gills and stem; the death cap has white gills.',
+                esToxico: false,
+            },
+            {
+                nombreComun: 'Green Brittlegill',
+                nombreCientifico: 'Russula virescens',
+                diferenciaClave: 'No ring and no volva; brittle flesh that snaps like chalk.',
+                esToxico: false,
+            },
+        ],
+    },
+    {
+        nombreComun: 'Chanterelle',
+        nombreCientifico: 'Cantharellus cibarius',
+        sinonimos: ['Girolle'],
+        descripcionGeneral: 'Egg-yolk yellow, funnel-shaped fruit body with blunt, forked false gills running down the stem. Fruity, apricot-like smell.',
+        habitat: 'Mossy coniferous and broadleaf woods.',
+        temporada: 'Summer to autumn.',
+        distribucionGeografica: 'Europe and parts of Asia.',
+        usosCulinarios: ['Sautéed in butter', 'Omelettes', 'Cream sauces'],
+        toxicidad: {
+            descripcion: 'Excellent edible once the lookalikes are ruled out.',
+            nivelToxicidad: 'Edible',
+            compuestosToxicos: [],
+            sintomas: 'None expected.',
+            primerosAuxilios: 'In case of discomfort after ingestion, seek medical advice and keep a sample of the mushroom.',
+        },
+        condicionesConsumo: {
+            comestibleCrudo: false,
+            requisitos: [{ tipo: 'thoroughCooking', descripcion: 'Always cook it; raw chanterelles are hard to digest.' }],
+            interacciones: [],
+        },
+        recetas: [
+            {
+                nombre: 'Chanterelles on toast',
+                ingredientes: ['200 g chanterelles', '2 slices sourdough', '1 garlic clove', 'Butter', 'Parsley'],
+                instrucciones: 'Dry-fry the chanterelles to release their water, add butter and garlic and cook until golden. Serve on toasted bread with parsley.',
+                crudo: false,
+                hervidoPrevio: false,
+                alcohol: false,
+            },
+        ],
+        hongosSimilares: [
+            {
+                nombreComun: 'Jack-o\'-lantern',
+                nombreCientifico: 'Omphalotus olearius',
+                diferenciaClave: 'True, sharp gills and grows in clusters on wood.',
+                esToxico: true,
+            },
+        ],
+    },
+];
+
+// --- HELPERS ---
+
+// Simple string hash so the same input always maps to the same fixture.
+const hashString = (value: string): number => {
+    let hash = 0;
+    for (let i = 0; i < value.length; i++) {
+        hash = (hash * 31 + value.charCodeAt(i)) | 0;
+    }
+    return Math.abs(hash);
+};
+
+const pickFixture = (seed: string): MushroomInfo => {
+    const normalized = seed.trim().toLowerCase();
+    const byName = MOCK_FIXTURES.find(f =>
+        f.nombreComun.toLowerCase() === normalized ||
+        f.nombreCientifico.toLowerCase() === normalized ||
+        f.sinonimos.some(s => s.toLowerCase() === normalized)
+    );
+    const fixture = byName || MOCK_FIXTURES[hashString(normalized) % MOCK_FIXTURES.length];
+    // Return a deep copy so callers can't mutate the shared fixture.
+    return JSON.parse(JSON.stringify(fixture));
+};
+
+// Reported as the answering model so mock results are easy to spot in the UI.
+const MOCK_MODEL = 'mock-fixtures';
+
+// A short, fixed delay keeps the loading states visible during demos. It honours cancellation like a real request.
+const simulateLatency = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error('CANCELLED'));
+    const onAbort = () => { clearTimeout(timer); reject(new Error('CANCELLED')); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, 600);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// --- MOCK PROVIDER ---
+
+// Confidence values assigned to the fixtures in ranked order.
+const MOCK_CONFIDENCES = [0.72, 0.18, 0.06];
+
+// Only the first photo drives the fixture choice, so re-tagging or adding views keeps the result stable.
+const getPhotoSeed = (photos: PhotoInput[]) => (photos[0]?.base64 || '').slice(0, 256);
+
+const getCandidatesFromImage = async (
+    photos: PhotoInput[],
+    _location: { latitude: number; longitude: number } | null,
+    _language: 'es' | 'en',
+    _difficulty: DifficultyLevel,
+    options: RequestOptions = {}
+): Promise<IdentificationCandidate[]> => {
+    await simulateLatency(options.signal);
+    const top = pickFixture(getPhotoSeed(photos));
+    const ranked = [top, ...MOCK_FIXTURES.filter(f => f.nombreCientifico !== top.nombreCientifico)];
+    return ranked.map((fixture, i): IdentificationCandidate => ({
+        nombreComun: fixture.nombreComun,
+        nombreCientifico: fixture.nombreCientifico,
+        confianza: MOCK_CONFIDENCES[i] ?? 0.02,
+        caracteristicasAFavor: [fixture.descripcionGeneral.split('.')[0]],
+        caracteristicasEnContra: i === 0 ? [] : ['Mock: shape and colour only partially match the photo'],
+    }));
+};
+
+const MOCK_KEY_QUESTIONS: KeyQuestion[] = [
+    { caracteristica: 'ringOrVolva', pregunta: 'Dig out the base of the stem. Is there a sac-like cup (volva) or a ring on the stem?', opciones: ['Volva at the base', 'Ring on the stem', 'Both', 'Neither'] },
+    { caracteristica: 'sporePrint', pregunta: 'Leave the cap gills-down on paper for a few hours. What colour is the spore print?', opciones: ['White', 'Pink', 'Brown', 'Black'] },
+    { caracteristica: 'bruising', pregunta: 'Cut or press the flesh. Does it change colour?', opciones: ['Turns blue', 'Turns red or brown', 'No change'] },
+];
+
+// Every answer makes the leading fixture a little more certain, until the questions run out.
+const refineWithKey = async (
+    photos: PhotoInput[],
+    location: { latitude: number; longitude: number } | null,
+    candidates: IdentificationCandidate[],
+    trail: KeyAnswer[],
+    language: 'es' | 'en',
+    difficulty: DifficultyLevel,
+    options: RequestOptions = {}
+): Promise<KeyStep> => {
+    const ranked = candidates.length > 0 ? candidates : await getCandidatesFromImage(photos, location, language, difficulty, options);
+    await simulateLatency(options.signal);
+    const boost = 0.08 * trail.length;
+    return {
+        candidates: ranked.map((candidate, i) => ({ ...candidate, confianza: Math.max(0.01, Math.min(0.95, candidate.confianza + (i === 0 ? boost : -boost / 2))) })),
+        nextQuestion: MOCK_KEY_QUESTIONS[trail.length] ?? null,
+    };
+};
+
+const verifyLookalikes = async (_photos: PhotoInput[], _mushroomInfo: MushroomInfo, lookalikes: SimilarMushroom[], _language: 'es' | 'en', _avoidModel: string | null, options: RequestOptions = {}): Promise<{ verdicts: LookalikeVerdict[]; model: string }> => {
+    await simulateLatency(options.signal);
+    return {
+        verdicts: lookalikes.map(lookalike => ({ nombreComun: lookalike.nombreComun, nombreCientifico: lookalike.nombreCientifico, veredicto: 'agree', razon: 'Mock: second opinion generated locally.' })),
+        model: MOCK_MODEL,
+    };
+};
+
+// Replays the streaming stages of the Gemini provider: the header fields first, then the full profile.
+const streamFixture = async (mushroomInfo: MushroomInfo, options: RequestOptions) => {
+    const { toxicidad } = mushroomInfo;
+    options.onProgress?.({
+        stage: 'partial',
+        mushroomInfo: { ...mushroomInfo, sinonimos: [], descripcionGeneral: '', habitat: '', temporada: '', distribucionGeografica: '', usosCulinarios: [], recetas: [], hongosSimilares: [] },
+        receivedFields: ['nombreComun', 'nombreCientifico', 'toxicidad', ...Object.keys(toxicidad).map(key => `toxicidad.${key}`)],
+    });
+    await simulateLatency(options.signal);
+    options.onProgress?.({ stage: 'info', mushroomInfo, sources: [], validationIssues: [] });
+};
+
+const identifyMushroomFromImage = async (
+    photos: PhotoInput[],
+    _location: { latitude: number; longitude: number } | null,
+    _language: 'es' | 'en',
+    _difficulty: DifficultyLevel,
+    _imageQuality: ImageQuality,
+    candidate?: IdentificationCandidate | null,
+    options: RequestOptions = {}
+): Promise<ImageIdentificationResult> => {
+    await simulateLatency(options.signal);
+    const mushroomInfo = pickFixture(candidate ? candidate.nombreCientifico : getPhotoSeed(photos));
+    await streamFixture(mushroomInfo, options);
+    await simulateLatency(options.signal);
+    const mapaDistribucionSrc = createPlaceholderImage('Mock map');
+    options.onProgress?.({ stage: 'map', mapaDistribucionSrc });
+    return {
+        mushroomInfo,
+        sources: [],
+        validationIssues: [],
+        mapaDistribucionSrc,
+        mapGenerationFailed: false,
+        answeredBy: { info: MOCK_MODEL, map: MOCK_MODEL },
+    };
+};
+
+const identifyMushroomFromText = async (
+    mushroomName: string,
+    _language: 'es' | 'en',
+    _difficulty: DifficultyLevel,
+    _imageQuality: ImageQuality,
+    options: RequestOptions = {}
+): Promise<TextIdentificationResult> => {
+    await simulateLatency(options.signal);
+    const mushroomInfo = pickFixture(mushroomName);
+    await streamFixture(mushroomInfo, options);
+    await simulateLatency(options.signal);
+    const imageSrc = createPlaceholderImage(mushroomInfo.nombreCientifico);
+    options.onProgress?.({ stage: 'image', imageSrc });
+    await simulateLatency(options.signal);
+    const mapaDistribucionSrc = createPlaceholderImage('Mock map');
+    options.onProgress?.({ stage: 'map', mapaDistribucionSrc });
+    return {
+        mushroomInfo,
+        sources: [],
+        validationIssues: [],
+        imageSrc,
+        mapaDistribucionSrc,
+        mainImageGenerationFailed: false,
+        mapGenerationFailed: false,
+        answeredBy: { info: MOCK_MODEL, image: MOCK_MODEL, map: MOCK_MODEL },
+    };
+};
+
+const compareMushrooms = async (mushroomA: MushroomInfo, mushroomB: MushroomInfo, _language: 'es' | 'en', options: RequestOptions = {}): Promise<ComparisonInfo> => {
+    await simulateLatency(options.signal);
+    const sharedUses = mushroomA.usosCulinarios.filter(u => mushroomB.usosCulinarios.includes(u));
+    return {
+        resumenComparativo: `${mushroomA.nombreComun} (${mushroomA.nombreCientifico}) vs ${mushroomB.nombreComun} (${mushroomB.nombreCientifico}). Mock comparison generated locally.`,
+        usosCulinarios: {
+            similitudes: sharedUses,
+            diferencias: [
+                ...mushroomA.usosCulinarios.filter(u => !sharedUses.includes(u)).map(u => `${mushroomA.nombreComun}: ${u}`),
+                ...mushroomB.usosCulinarios.filter(u => !sharedUses.includes(u)).map(u => `${mushroomB.nombreComun}: ${u}`),
+            ],
+        },
+        toxicidad: {
+            comparacion: `${mushroomA.toxicidad.descripcion} / ${mushroomB.toxicidad.descripcion}`,
+            nivelHongoA: mushroomA.toxicidad.nivelToxicidad,
+            nivelHongoB: mushroomB.toxicidad.nivelToxicidad,
+        },
+        diferenciasMorfologicas: {
+            habitat: `${mushroomA.habitat} / ${mushroomB.habitat}`,
+            apariencia: `${mushroomA.descripcionGeneral} / ${mushroomB.descripcionGeneral}`,
+        },
+    };
+};
+
+const askFollowUpQuestion = async ({ mushroomInfo, sources }: FollowUpContext, conversation: ChatMessage[], question: string, _language: 'es' | 'en', options: RequestOptions = {}): Promise<ChatMessage> => {
+    await simulateLatency(options.signal);
+    const sourceNote = sources.length > 0 ? ` See ${sources[0].title}.` : '';
+    return {
+        role: 'model',
+        text: `Mock answer #${conversation.filter(turn => turn.role === 'model').length + 1} to "${question.trim()}". ${mushroomInfo.nombreComun} (${mushroomInfo.nombreCientifico}): ${mushroomInfo.descripcionGeneral.split('.')[0]}.${sourceNote} Always have an expert check the specimen before eating it.`,
+        timestamp: Date.now(),
+        model: MOCK_MODEL,
+    };
+};
+
+export const mockProvider: IdentificationProvider = {
+    id: 'mock',
+    getCandidatesFromImage,
+    identifyFromImage: identifyMushroomFromImage,
+    identifyFromText: identifyMushroomFromText,
+    refineWithKey,
+    verifyLookalikes,
+    compare: compareMushrooms,
+    askFollowUp: askFollowUpQuestion,
+};
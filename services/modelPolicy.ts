@@ -0,0 +1,160 @@
+// --- MODEL EXECUTION POLICY ---
+// Every Gemini call goes through runWithPolicy: the task's models are tried in order,
+// transient failures are retried with exponential backoff and each attempt has its own timeout.
+
+export type ModelTask = 'identify' | 'candidates' | 'compare' | 'followUp' | 'verify' | 'image';
+
+export interface ExecutionPolicy {
+    models: string[]; // tried in order; the first one that answers wins
+    maxRetries: number; // extra attempts per model on transient errors
+    baseDelayMs: number; // backoff before retry n is baseDelayMs * 2^n
+    timeoutMs: number; // per attempt
+}
+
+const DEFAULT_POLICIES: Record<ModelTask, ExecutionPolicy> = {
+    identify: { models: ['gemini-3-pro-preview', 'gemini-2.5-flash'], maxRetries: 2, baseDelayMs: 1000, timeoutMs: 90000 },
+    candidates: { models: ['gemini-3-pro-preview', 'gemini-2.5-flash'], maxRetries: 2, baseDelayMs: 1000, timeoutMs: 60000 },
+    compare: { models: ['gemini-3-pro-preview', 'gemini-2.5-flash'], maxRetries: 1, baseDelayMs: 1000, timeoutMs: 60000 },
+    // Chat answers favour a quick reply over depth, so the fast model goes first.
+    followUp: { models: ['gemini-2.5-flash', 'gemini-3-pro-preview'], maxRetries: 1, baseDelayMs: 1000, timeoutMs: 60000 },
+    verify: { models: ['gemini-2.5-pro', 'gemini-3-pro-preview', 'gemini-2.5-flash'], maxRetries: 1, baseDelayMs: 1000, timeoutMs: 60000 },
+    image: { models: ['gemini-3-pro-image-preview', 'gemini-2.5-flash-image'], maxRetries: 1, baseDelayMs: 2000, timeoutMs: 120000 },
+};
+
+const ENV_MODEL_KEYS: Record<ModelTask, string> = {
+    identify: 'VITE_MODELS_IDENTIFY',
+    candidates: 'VITE_MODELS_CANDIDATES',
+    compare: 'VITE_MODELS_COMPARE',
+    followUp: 'VITE_MODELS_FOLLOWUP',
+    verify: 'VITE_MODELS_VERIFY',
+    image: 'VITE_MODELS_IMAGE',
+};
+
+/**
+ * Returns the policy for a task. The model list can be overridden with a comma-separated
+ * VITE_MODELS_<TASK> variable, e.g. VITE_MODELS_IDENTIFY=gemini-2.5-flash,gemini-2.5-flash-lite.
+ */
+export const getExecutionPolicy = (task: ModelTask): ExecutionPolicy => {
+    const policy = DEFAULT_POLICIES[task];
+    let configured: string | undefined;
+    try {
+        // @ts-ignore
+        if (typeof import.meta !== 'undefined' && import.meta.env) {
+            // @ts-ignore
+            configured = import.meta.env[ENV_MODEL_KEYS[task]];
+        }
+    } catch (e) {
+        // Ignore errors accessing import.meta
+    }
+    const models = (configured || '').split(',').map(m => m.trim()).filter(Boolean);
+    return models.length > 0 ? { ...policy, models } : policy;
+};
+
+const getErrorMessage = (error: unknown): string => {
+    if (error instanceof Error) return error.message;
+    if (typeof error === 'object' && error !== null) return (error as any).message || JSON.stringify(error);
+    return String(error);
+};
+
+export const isQuotaError = (error: unknown): boolean => {
+    const message = getErrorMessage(error).toLowerCase();
+    return message.includes('429') || message.includes('resource has been exhausted') || message.includes('resource_exhausted');
+};
+
+// Worth retrying on the same model: timeouts, overloaded or unavailable servers and dropped connections.
+const isTransientError = (error: unknown): boolean => {
+    const message = getErrorMessage(error).toLowerCase();
+    return message === 'timeout'
+        || /\b(500|502|503|504)\b/.test(message)
+        || message.includes('unavailable')
+        || message.includes('overloaded')
+        || message.includes('internal error')
+        || message.includes('failed to fetch');
+};
+
+// The next model may still answer: quota is per model and a weaker model may return valid JSON.
+const shouldTryNextModel = (error: unknown): boolean => {
+    const message = getErrorMessage(error);
+    return isQuotaError(error) || isTransientError(error) || message === 'INVALID_RESPONSE' || message.includes('404');
+};
+
+/** Throws the "CANCELLED" error code when the caller has aborted the operation. */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw new Error('CANCELLED');
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const onAbort = () => { clearTimeout(timer); reject(new Error('CANCELLED')); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs one attempt. The request is aborted, and the attempt rejected, with "TIMEOUT" once
+ * timeoutMs has elapsed or with "CANCELLED" as soon as the caller's signal fires.
+ */
+const runAttempt = async <T>(attempt: (model: string, signal: AbortSignal) => Promise<T>, model: string, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+    throwIfCancelled(signal);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let onAbort: (() => void) | undefined;
+    const interruption = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new Error('TIMEOUT'));
+        }, timeoutMs);
+        onAbort = () => {
+            controller.abort();
+            reject(new Error('CANCELLED'));
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+    try {
+        return await Promise.race([attempt(model, controller.signal), interruption]);
+    } finally {
+        clearTimeout(timer);
+        if (onAbort) signal?.removeEventListener('abort', onAbort);
+    }
+};
+
+/**
+ * Executes `attempt` following the task's policy. Models equal to `avoidModel` are moved to the end
+ * of the list, so an independent check is answered by another model whenever one is available.
+ * @returns the first successful result together with the model that produced it.
+ * @throws the last error once every model has been exhausted, or immediately for errors
+ * no other model can fix (missing key, unidentifiable mushroom...) and for cancellation.
+ */
+export const runWithPolicy = async <T>(
+    task: ModelTask,
+    attempt: (model: string, signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    avoidModel?: string | null
+): Promise<{ result: T; model: string }> => {
+    const configured = getExecutionPolicy(task);
+    const policy = avoidModel
+        ? { ...configured, models: [...configured.models.filter(m => m !== avoidModel), ...configured.models.filter(m => m === avoidModel)] }
+        : configured;
+    let lastError: unknown = new Error('UNEXPECTED_ERROR');
+
+    for (const [index, model] of policy.models.entries()) {
+        for (let retry = 0; retry <= policy.maxRetries; retry++) {
+            try {
+                const result = await runAttempt(attempt, model, policy.timeoutMs, signal);
+                return { result, model };
+            } catch (error) {
+                throwIfCancelled(signal);
+                lastError = error;
+                if (!shouldTryNextModel(error)) throw error;
+                // Quota won't recover within a backoff window, so move straight to the next model.
+                if (!isTransientError(error) || retry === policy.maxRetries) break;
+                const delay = policy.baseDelayMs * 2 ** retry;
+                console.warn(`${model} failed (${getErrorMessage(error)}). Retrying in ${delay}ms.`);
+                await wait(delay, signal);
+            }
+        }
+        if (index < policy.models.length - 1) {
+            console.warn(`${model} could not complete the "${task}" task. Falling back to ${policy.models[index + 1]}.`);
+        }
+    }
+    throw lastError;
+};
@@ -0,0 +1,522 @@
+import { Schema, Type } from "@google/genai";
+import { MushroomInfo, Recipe, EdibilityConditions, PreparationStep, InteractionType, RiskFactor, GroupRisk, SimilarMushroom, ToxicityInfo, ValidationIssue, KeyFeature, KeyQuestion, KeyStep, LookalikeVerdict, IdentificationCandidate } from '../types.ts';
+
+export const TOXICITY_LEVELS: ToxicityInfo['nivelToxicidad'][] = ['Edible', 'Inedible', 'Caution', 'Poisonous', 'Lethal'];
+export const PREPARATION_STEPS: PreparationStep[] = ['thoroughCooking', 'parboil', 'discardCookingWater', 'youngSpecimensOnly', 'removePart', 'smallAmounts', 'other'];
+export const INTERACTION_TYPES: InteractionType[] = ['alcohol', 'medication', 'allergy', 'other'];
+export const RISK_FACTORS: RiskFactor[] = ['pregnancy', 'liverDisease', 'kidneyDisease', 'maoInhibitors', 'drinksAlcohol', 'children', 'pets'];
+
+// Keys in the order the model is asked to write them (see mushroomInfoSchema).
+const MUSHROOM_FIELD_ORDER = ['error', 'nombreComun', 'nombreCientifico', 'toxicidad', 'hongosSimilares', 'riesgosPersonales', 'descripcionGeneral', 'sinonimos', 'habitat', 'temporada', 'distribucionGeografica', 'usosCulinarios', 'condicionesConsumo', 'recetas'];
+
+// --- RESPONSE SCHEMAS ---
+// These mirror the interfaces in types.ts one to one. Keep them in sync when a field is added.
+
+const stringList: Schema = { type: Type.ARRAY, items: { type: Type.STRING } };
+
+const toxicityInfoSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        descripcion: { type: Type.STRING },
+        nivelToxicidad: { type: Type.STRING, enum: TOXICITY_LEVELS },
+        compuestosToxicos: stringList,
+        sintomas: { type: Type.STRING },
+        primerosAuxilios: { type: Type.STRING },
+    },
+    required: ['descripcion', 'nivelToxicidad', 'compuestosToxicos', 'sintomas', 'primerosAuxilios'],
+};
+
+const recipeSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        nombre: { type: Type.STRING },
+        ingredientes: stringList,
+        instrucciones: { type: Type.STRING },
+        crudo: { type: Type.BOOLEAN },
+        hervidoPrevio: { type: Type.BOOLEAN },
+        alcohol: { type: Type.BOOLEAN },
+    },
+    required: ['nombre', 'ingredientes', 'instrucciones', 'crudo', 'hervidoPrevio', 'alcohol'],
+};
+
+const edibilityConditionsSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        comestibleCrudo: { type: Type.BOOLEAN },
+        requisitos: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { tipo: { type: Type.STRING, enum: PREPARATION_STEPS }, descripcion: { type: Type.STRING } },
+                required: ['tipo', 'descripcion'],
+            },
+        },
+        interacciones: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { tipo: { type: Type.STRING, enum: INTERACTION_TYPES }, descripcion: { type: Type.STRING } },
+                required: ['tipo', 'descripcion'],
+            },
+        },
+    },
+    required: ['comestibleCrudo', 'requisitos', 'interacciones'],
+};
+
+const similarMushroomSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        nombreComun: { type: Type.STRING },
+        nombreCientifico: { type: Type.STRING },
+        diferenciaClave: { type: Type.STRING },
+        esToxico: { type: Type.BOOLEAN },
+    },
+    required: ['nombreComun', 'nombreCientifico', 'diferenciaClave', 'esToxico'],
+};
+
+// Top-level keys are not marked as required so the model can answer with only
+// {"error": "..."} when it cannot identify the mushroom. The ordering is the streaming order:
+// name and toxicity first, then lookalikes, so the safety information renders before the rest.
+export const mushroomInfoSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        error: { type: Type.STRING, nullable: true },
+        nombreComun: { type: Type.STRING },
+        nombreCientifico: { type: Type.STRING },
+        sinonimos: stringList,
+        descripcionGeneral: { type: Type.STRING },
+        habitat: { type: Type.STRING },
+        temporada: { type: Type.STRING },
+        distribucionGeografica: { type: Type.STRING },
+        usosCulinarios: stringList,
+        toxicidad: toxicityInfoSchema,
+        condicionesConsumo: edibilityConditionsSchema,
+        riesgosPersonales: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: { grupo: { type: Type.STRING, enum: RISK_FACTORS }, nota: { type: Type.STRING } },
+                required: ['grupo', 'nota'],
+            },
+        },
+        recetas: { type: Type.ARRAY, items: recipeSchema },
+        hongosSimilares: { type: Type.ARRAY, items: similarMushroomSchema },
+    },
+    propertyOrdering: MUSHROOM_FIELD_ORDER,
+};
+
+export const comparisonInfoSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        resumenComparativo: { type: Type.STRING },
+        usosCulinarios: {
+            type: Type.OBJECT,
+            properties: { similitudes: stringList, diferencias: stringList },
+            required: ['similitudes', 'diferencias'],
+        },
+        toxicidad: {
+            type: Type.OBJECT,
+            properties: {
+                comparacion: { type: Type.STRING },
+                nivelHongoA: { type: Type.STRING, enum: TOXICITY_LEVELS },
+                nivelHongoB: { type: Type.STRING, enum: TOXICITY_LEVELS },
+            },
+            required: ['comparacion', 'nivelHongoA', 'nivelHongoB'],
+        },
+        diferenciasMorfologicas: {
+            type: Type.OBJECT,
+            properties: { habitat: { type: Type.STRING }, apariencia: { type: Type.STRING } },
+            required: ['habitat', 'apariencia'],
+        },
+    },
+    required: ['resumenComparativo', 'usosCulinarios', 'toxicidad', 'diferenciasMorfologicas'],
+};
+
+export const MAX_CANDIDATES = 5;
+
+export const candidatesSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        candidatos: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    nombreComun: { type: Type.STRING },
+                    nombreCientifico: { type: Type.STRING },
+                    confianza: { type: Type.NUMBER },
+                    caracteristicasAFavor: stringList,
+                    caracteristicasEnContra: stringList,
+                },
+                required: ['nombreComun', 'nombreCientifico', 'confianza', 'caracteristicasAFavor', 'caracteristicasEnContra'],
+            },
+        },
+    },
+    required: ['candidatos'],
+};
+
+export const KEY_FEATURES: KeyFeature[] = ['sporePrint', 'gillAttachment', 'ringOrVolva', 'smell', 'bruising', 'other'];
+
+export const keyStepSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        candidatos: candidatesSchema.properties!.candidatos,
+        siguientePregunta: {
+            type: Type.OBJECT,
+            nullable: true,
+            properties: {
+                caracteristica: { type: Type.STRING, enum: KEY_FEATURES },
+                pregunta: { type: Type.STRING },
+                opciones: stringList,
+            },
+            required: ['caracteristica', 'pregunta', 'opciones'],
+        },
+    },
+    required: ['candidatos'],
+};
+
+export const verificationSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        veredictos: {
+            type: Type.ARRAY,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    nombreCientifico: { type: Type.STRING },
+                    veredicto: { type: Type.STRING, enum: ['agree', 'disagree'] },
+                    razon: { type: Type.STRING },
+                },
+                required: ['nombreCientifico', 'veredicto', 'razon'],
+            },
+        },
+    },
+    required: ['veredictos'],
+};
+
+// --- VALIDATION ---
+
+/**
+ * Collects the fields that had to be filled in or converted while validating a response.
+ * Missing text is left empty (never replaced by invented defaults) so the UI can flag it.
+ */
+const createIssueCollector = () => {
+    const issues: ValidationIssue[] = [];
+
+    const text = (data: any, field: string): string => {
+        if (data === null || data === undefined || data === '') {
+            issues.push({ field, kind: 'missing' });
+            return '';
+        }
+        if (typeof data === 'string') return data;
+        issues.push({ field, kind: 'coerced' });
+        if (typeof data === 'object') {
+            try {
+                return JSON.stringify(data, null, 2);
+            } catch (e) {
+                return '';
+            }
+        }
+        return String(data);
+    };
+
+    const list = (data: any, field: string): string[] => {
+        if (data === null || data === undefined) {
+            issues.push({ field, kind: 'missing' });
+            return [];
+        }
+        if (!Array.isArray(data)) {
+            issues.push({ field, kind: 'coerced' });
+            return typeof data === 'string' && data ? [data] : [];
+        }
+        const strings = data.filter((item: any) => typeof item === 'string');
+        if (strings.length !== data.length) issues.push({ field, kind: 'coerced' });
+        return strings;
+    };
+
+    return { issues, text, list };
+};
+
+// Ingredients that put alcohol in the dish even when the model forgets to flag it.
+// Whole words only: \b stops at accented letters, so the boundaries are Unicode-aware, and short words
+// that also occur in other contexts ("port") are only matched as the drink's full name.
+const ALCOHOL_INGREDIENTS = /(?<!\p{L})(vino|wine|cerveza|beer|brandy|co[ñn]ac|cognac|jerez|sherry|whisk(e)?y|licor|liqueur|ron|rum|vodka|oporto|port wine|sidra|cider|marsala|madeira|calvados|ginebra|gin)(?!\p{L})/iu;
+
+export const hasAlcoholicIngredient = (ingredients: string[]): boolean => ingredients.some(ingredient => ALCOHOL_INGREDIENTS.test(ingredient));
+
+/**
+ * Sanitizes the preparation requirements and interactions. Missing data never makes a mushroom
+ * easier to eat: without a clear answer it is not edible raw, and unknown kinds become "other".
+ */
+const validateEdibilityConditions = (data: any, collector: ReturnType<typeof createIssueCollector>): EdibilityConditions => {
+    if (!data || typeof data !== 'object') {
+        collector.issues.push({ field: 'condicionesConsumo', kind: 'missing' });
+        data = {};
+    }
+    let comestibleCrudo = data.comestibleCrudo;
+    if (typeof comestibleCrudo !== 'boolean') {
+        collector.issues.push({ field: 'condicionesConsumo.comestibleCrudo', kind: comestibleCrudo === undefined ? 'missing' : 'coerced' });
+        comestibleCrudo = false;
+    }
+    const items = <T extends string>(raw: any, field: string, kinds: T[]): { tipo: T; descripcion: string }[] => {
+        if (!Array.isArray(raw)) {
+            collector.issues.push({ field, kind: 'missing' });
+            return [];
+        }
+        return raw.map((item: any, i: number) => {
+            // Without a description the user cannot act on a requirement, so it is dropped.
+            if (!item || typeof item !== 'object' || typeof item.descripcion !== 'string' || !item.descripcion.trim()) {
+                collector.issues.push({ field: `${field}[${i}]`, kind: 'missing' });
+                return null;
+            }
+            if (!kinds.includes(item.tipo)) collector.issues.push({ field: `${field}[${i}].tipo`, kind: 'coerced' });
+            return { tipo: kinds.includes(item.tipo) ? item.tipo : 'other' as T, descripcion: item.descripcion.trim() };
+        }).filter((item): item is { tipo: T; descripcion: string } => item !== null);
+    };
+    return {
+        comestibleCrudo,
+        requisitos: items(data.requisitos, 'condicionesConsumo.requisitos', PREPARATION_STEPS),
+        interacciones: items(data.interacciones, 'condicionesConsumo.interacciones', INTERACTION_TYPES),
+    };
+};
+
+/** Keeps the group notes with a known group and some text; a group named twice keeps its first note. */
+const validateGroupRisks = (data: any, collector: ReturnType<typeof createIssueCollector>): GroupRisk[] => {
+    if (!Array.isArray(data)) {
+        collector.issues.push({ field: 'riesgosPersonales', kind: 'missing' });
+        return [];
+    }
+    const risks: GroupRisk[] = [];
+    data.forEach((item: any, i: number) => {
+        if (!item || typeof item !== 'object' || !RISK_FACTORS.includes(item.grupo) || typeof item.nota !== 'string' || !item.nota.trim()) {
+            collector.issues.push({ field: `riesgosPersonales[${i}]`, kind: 'coerced' });
+            return;
+        }
+        if (!risks.some(risk => risk.grupo === item.grupo)) risks.push({ grupo: item.grupo, nota: item.nota.trim() });
+    });
+    return risks;
+};
+
+/**
+ * Validates a raw model response against the MushroomInfo shape.
+ * @returns null when the response is an explicit error or has no usable name.
+ */
+export const validateMushroomInfo = (data: any): { mushroomInfo: MushroomInfo; issues: ValidationIssue[] } | null => {
+    if (!data || typeof data !== 'object' || data.error) return null;
+    const collector = createIssueCollector();
+
+    const nombreComun = collector.text(data.nombreComun, 'nombreComun');
+    if (!nombreComun) return null;
+
+    let toxData = data.toxicidad;
+    if (!toxData || typeof toxData !== 'object') {
+        collector.issues.push({ field: 'toxicidad', kind: 'missing' });
+        toxData = {};
+    }
+    let nivelToxicidad: ToxicityInfo['nivelToxicidad'] = toxData.nivelToxicidad;
+    if (!TOXICITY_LEVELS.includes(nivelToxicidad)) {
+        // Never assume edibility: an unknown level is treated with caution.
+        collector.issues.push({ field: 'toxicidad.nivelToxicidad', kind: nivelToxicidad ? 'coerced' : 'missing' });
+        nivelToxicidad = 'Caution';
+    }
+    const toxicidad: ToxicityInfo = {
+        descripcion: collector.text(toxData.descripcion, 'toxicidad.descripcion'),
+        nivelToxicidad,
+        compuestosToxicos: collector.list(toxData.compuestosToxicos, 'toxicidad.compuestosToxicos'),
+        sintomas: collector.text(toxData.sintomas, 'toxicidad.sintomas'),
+        primerosAuxilios: collector.text(toxData.primerosAuxilios, 'toxicidad.primerosAuxilios'),
+    };
+
+    const rawRecipes = Array.isArray(data.recetas) ? data.recetas : [];
+    if (!Array.isArray(data.recetas)) collector.issues.push({ field: 'recetas', kind: 'missing' });
+    const recetas = rawRecipes.map((r: any, i: number): Recipe | null => {
+        if (!r || typeof r !== 'object') {
+            collector.issues.push({ field: `recetas[${i}]`, kind: 'missing' });
+            return null;
+        }
+        const ingredientes = collector.list(r.ingredientes, `recetas[${i}].ingredientes`);
+        // An unflagged recipe is assumed to serve the mushroom raw and without parboiling, so it
+        // is refused wherever that matters (see getRecipeViolations).
+        const flag = (key: 'crudo' | 'hervidoPrevio' | 'alcohol', fallback: boolean): boolean => {
+            if (typeof r[key] === 'boolean') return r[key];
+            collector.issues.push({ field: `recetas[${i}].${key}`, kind: r[key] === undefined ? 'missing' : 'coerced' });
+            return fallback;
+        };
+        return {
+            nombre: collector.text(r.nombre, `recetas[${i}].nombre`),
+            ingredientes,
+            instrucciones: collector.text(r.instrucciones, `recetas[${i}].instrucciones`),
+            crudo: flag('crudo', true),
+            hervidoPrevio: flag('hervidoPrevio', false),
+            alcohol: flag('alcohol', false) || hasAlcoholicIngredient(ingredientes),
+        };
+    }).filter((r: Recipe | null): r is Recipe => r !== null);
+
+    const rawSimilar = Array.isArray(data.hongosSimilares) ? data.hongosSimilares : [];
+    if (!Array.isArray(data.hongosSimilares)) collector.issues.push({ field: 'hongosSimilares', kind: 'missing' });
+    const hongosSimilares = rawSimilar.map((h: any, i: number): SimilarMushroom | null => {
+        // A lookalike without a name or a key difference is useless for safety, so it is dropped.
+        if (!h || typeof h !== 'object' || !h.nombreComun || !h.diferenciaClave) {
+            collector.issues.push({ field: `hongosSimilares[${i}]`, kind: 'missing' });
+            return null;
+        }
+        let esToxico = h.esToxico;
+        if (typeof esToxico !== 'boolean') {
+            // Unknown toxicity of a lookalike is treated as toxic.
+            collector.issues.push({ field: `hongosSimilares[${i}].esToxico`, kind: esToxico === undefined ? 'missing' : 'coerced' });
+            esToxico = true;
+        }
+        return {
+            nombreComun: collector.text(h.nombreComun, `hongosSimilares[${i}].nombreComun`),
+            nombreCientifico: collector.text(h.nombreCientifico, `hongosSimilares[${i}].nombreCientifico`),
+            diferenciaClave: collector.text(h.diferenciaClave, `hongosSimilares[${i}].diferenciaClave`),
+            esToxico,
+        };
+    }).filter((h: SimilarMushroom | null): h is SimilarMushroom => h !== null);
+
+    const mushroomInfo: MushroomInfo = {
+        nombreComun,
+        nombreCientifico: collector.text(data.nombreCientifico, 'nombreCientifico'),
+        sinonimos: collector.list(data.sinonimos, 'sinonimos'),
+        descripcionGeneral: collector.text(data.descripcionGeneral, 'descripcionGeneral'),
+        habitat: collector.text(data.habitat, 'habitat'),
+        temporada: collector.text(data.temporada, 'temporada'),
+        distribucionGeografica: collector.text(data.distribucionGeografica, 'distribucionGeografica'),
+        usosCulinarios: collector.list(data.usosCulinarios, 'usosCulinarios'),
+        toxicidad,
+        condicionesConsumo: validateEdibilityConditions(data.condicionesConsumo, collector),
+        riesgosPersonales: validateGroupRisks(data.riesgosPersonales, collector),
+        recetas,
+        hongosSimilares,
+    };
+
+    return { mushroomInfo, issues: collector.issues };
+};
+
+/**
+ * Validates the ranked candidate list. Confidence is clamped to 0-1 (percentages are rescaled)
+ * and candidates are sorted from most to least likely.
+ */
+export const validateCandidates = (data: any): IdentificationCandidate[] => {
+    if (!data || typeof data !== 'object' || !Array.isArray(data.candidatos)) return [];
+    const getStringArray = (val: any): string[] => Array.isArray(val) ? val.filter(item => typeof item === 'string') : [];
+
+    return data.candidatos
+        .filter((c: any) => c && typeof c === 'object' && typeof c.nombreCientifico === 'string' && c.nombreCientifico.trim())
+        .map((c: any): IdentificationCandidate => {
+            let confianza = typeof c.confianza === 'number' && isFinite(c.confianza) ? c.confianza : 0;
+            if (confianza > 1) confianza = confianza / 100;
+            return {
+                nombreComun: typeof c.nombreComun === 'string' && c.nombreComun.trim() ? c.nombreComun : c.nombreCientifico,
+                nombreCientifico: c.nombreCientifico,
+                confianza: Math.min(1, Math.max(0, confianza)),
+                caracteristicasAFavor: getStringArray(c.caracteristicasAFavor),
+                caracteristicasEnContra: getStringArray(c.caracteristicasEnContra),
+            };
+        })
+        .sort((a: IdentificationCandidate, b: IdentificationCandidate) => b.confianza - a.confianza)
+        .slice(0, MAX_CANDIDATES);
+};
+
+/**
+ * Matches the verdicts to the lookalikes that were asked about. A lookalike the model skipped,
+ * or answered with anything but "agree", counts as "disagree": it has not been ruled out.
+ */
+export const validateVerdicts = (data: any, lookalikes: SimilarMushroom[]): LookalikeVerdict[] => {
+    const returned: any[] = data && typeof data === 'object' && Array.isArray(data.veredictos) ? data.veredictos.filter((v: any) => v && typeof v === 'object') : [];
+    const normalize = (name: any) => typeof name === 'string' ? name.trim().toLowerCase() : '';
+    return lookalikes.map(lookalike => {
+        const verdict = returned.find(v => normalize(v.nombreCientifico) === normalize(lookalike.nombreCientifico));
+        return {
+            nombreComun: lookalike.nombreComun,
+            nombreCientifico: lookalike.nombreCientifico,
+            veredicto: verdict?.veredicto === 'agree' ? 'agree' : 'disagree',
+            razon: typeof verdict?.razon === 'string' ? verdict.razon : '',
+        };
+    });
+};
+
+/**
+ * Validates a step of the identification key. A question needs a text and at least two
+ * distinct answers; otherwise the key is considered finished.
+ */
+export const validateKeyStep = (data: any): KeyStep => {
+    const question = data && typeof data === 'object' ? data.siguientePregunta : null;
+    const options: string[] = question && Array.isArray(question.opciones)
+        ? [...new Set<string>(question.opciones.filter((o: any) => typeof o === 'string' && o.trim()).map((o: string) => o.trim()))]
+        : [];
+    const nextQuestion: KeyQuestion | null = question && typeof question.pregunta === 'string' && question.pregunta.trim() && options.length >= 2
+        ? { caracteristica: KEY_FEATURES.includes(question.caracteristica) ? question.caracteristica : 'other', pregunta: question.pregunta.trim(), opciones: options }
+        : null;
+    return { candidates: validateCandidates(data), nextQuestion };
+};
+
+/**
+ * Turns a partially streamed response into a displayable MushroomInfo. Nothing is reported as
+ * an issue here: absent fields are simply empty until the complete response is validated.
+ * `receivedFields` lists the keys seen so far (nested toxicity keys as "toxicidad.<key>");
+ * the toxicity level only counts once it is a complete, known value.
+ * @returns null until at least the common name has arrived.
+ */
+export const coercePartialMushroomInfo = (data: any): { mushroomInfo: MushroomInfo; receivedFields: string[] } | null => {
+    if (!data || typeof data !== 'object' || data.error || typeof data.nombreComun !== 'string' || !data.nombreComun) return null;
+    const text = (val: any): string => typeof val === 'string' ? val : '';
+    const list = (val: any): string[] => Array.isArray(val) ? val.filter(item => typeof item === 'string') : [];
+    const tox = data.toxicidad && typeof data.toxicidad === 'object' ? data.toxicidad : {};
+    const conditions = data.condicionesConsumo && typeof data.condicionesConsumo === 'object' ? data.condicionesConsumo : null;
+    const conditionItems = <T extends string>(raw: any, kinds: T[]) => (Array.isArray(raw) ? raw : [])
+        .filter((item: any) => item && typeof item === 'object' && typeof item.descripcion === 'string' && item.descripcion)
+        .map((item: any) => ({ tipo: kinds.includes(item.tipo) ? item.tipo as T : 'other' as T, descripcion: item.descripcion }));
+
+    const receivedFields = [
+        ...Object.keys(data),
+        ...Object.keys(tox).filter(key => key !== 'nivelToxicidad' || TOXICITY_LEVELS.includes(tox.nivelToxicidad)).map(key => `toxicidad.${key}`),
+    ];
+
+    const mushroomInfo: MushroomInfo = {
+        nombreComun: data.nombreComun,
+        nombreCientifico: text(data.nombreCientifico),
+        sinonimos: list(data.sinonimos),
+        descripcionGeneral: text(data.descripcionGeneral),
+        habitat: text(data.habitat),
+        temporada: text(data.temporada),
+        distribucionGeografica: text(data.distribucionGeografica),
+        usosCulinarios: list(data.usosCulinarios),
+        toxicidad: {
+            descripcion: text(tox.descripcion),
+            nivelToxicidad: TOXICITY_LEVELS.includes(tox.nivelToxicidad) ? tox.nivelToxicidad : 'Caution',
+            compuestosToxicos: list(tox.compuestosToxicos),
+            sintomas: text(tox.sintomas),
+            primerosAuxilios: text(tox.primerosAuxilios),
+        },
+        // Same conservative defaults as the full validation while the flags are still arriving.
+        condicionesConsumo: conditions ? {
+            comestibleCrudo: conditions.comestibleCrudo === true,
+            requisitos: conditionItems(conditions.requisitos, PREPARATION_STEPS),
+            interacciones: conditionItems(conditions.interacciones, INTERACTION_TYPES),
+        } : undefined,
+        riesgosPersonales: (Array.isArray(data.riesgosPersonales) ? data.riesgosPersonales : [])
+            .filter((item: any) => item && typeof item === 'object' && RISK_FACTORS.includes(item.grupo) && typeof item.nota === 'string' && item.nota)
+            .map((item: any): GroupRisk => ({ grupo: item.grupo, nota: item.nota })),
+        recetas: (Array.isArray(data.recetas) ? data.recetas : [])
+            .filter((r: any) => r && typeof r === 'object' && typeof r.nombre === 'string')
+            .map((r: any): Recipe => ({
+                nombre: r.nombre,
+                ingredientes: list(r.ingredientes),
+                instrucciones: text(r.instrucciones),
+                crudo: r.crudo !== false,
+                hervidoPrevio: r.hervidoPrevio === true,
+                alcohol: r.alcohol === true || hasAlcoholicIngredient(list(r.ingredientes)),
+            })),
+        hongosSimilares: (Array.isArray(data.hongosSimilares) ? data.hongosSimilares : [])
+            .filter((h: any) => h && typeof h === 'object' && typeof h.nombreComun === 'string')
+            .map((h: any): SimilarMushroom => ({
+                nombreComun: h.nombreComun,
+                nombreCientifico: text(h.nombreCientifico),
+                diferenciaClave: text(h.diferenciaClave),
+                // Until the flag arrives, a lookalike is shown as toxic.
+                esToxico: typeof h.esToxico === 'boolean' ? h.esToxico : true,
+            })),
+    };
+    return { mushroomInfo, receivedFields };
+};
@@ -0,0 +1,116 @@
+import { HistoryEntry } from '../types.ts';
+import { createZip, ZipFile } from './zip.ts';
+import { toCsv } from './csv.ts';
+import { EXTENSIONS, dataUrlToBytes } from './backup.ts';
+import { GeoFormat } from './geoExport.ts';
+
+// --- OBSERVATION EXPORT ---
+// Collection finds as biodiversity records: a Darwin Core Archive (occurrence core plus the GBIF
+// multimedia extension, for GBIF and similar portals) and the CSV iNaturalist's bulk import
+// takes. Both go out as zips so the field diary photos travel with the records. Entries without a
+// scientific name or a finding date cannot be submitted and are left out; a missing location is
+// only a warning, since both accept records without coordinates. The map formats of geoExport.ts
+// are checked here too: for them the location is the one thing required.
+
+export type ObservationFormat = 'darwinCore' | 'inaturalist' | GeoFormat;
+export type ObservationIssue = 'missingScientificName' | 'missingDate' | 'missingLocation';
+
+export interface ObservationCheck {
+    entry: HistoryEntry;
+    errors: ObservationIssue[]; // the entry is left out of the export
+    warnings: ObservationIssue[];
+}
+
+const DWC = 'http://rs.tdwg.org/dwc/terms/';
+const DC = 'http://purl.org/dc/terms/';
+
+const OCCURRENCE_TERMS = ['occurrenceID', 'basisOfRecord', 'kingdom', 'scientificName', 'vernacularName', 'eventDate', 'decimalLatitude', 'decimalLongitude', 'geodeticDatum', 'identifiedBy', 'occurrenceRemarks', 'associatedMedia'];
+const MULTIMEDIA_TERMS = ['type', 'format', 'identifier'];
+
+// Column names of iNaturalist's CSV import template.
+const INATURALIST_COLUMNS = ['Taxon name', 'Date observed', 'Description', 'Place name', 'Latitude / y coord / northing', 'Longitude / x coord / easting', 'Tags', 'Geoprivacy'];
+
+const GEO_FORMATS: ObservationFormat[] = ['geojson', 'kml', 'gpx'];
+
+export const checkObservation = (entry: HistoryEntry, format: ObservationFormat = 'darwinCore'): ObservationCheck => {
+    if (GEO_FORMATS.includes(format)) return { entry, errors: entry.location ? [] : ['missingLocation'], warnings: [] };
+    const errors: ObservationIssue[] = [];
+    if (!entry.mushroomInfo.nombreCientifico?.trim()) errors.push('missingScientificName');
+    if (!entry.findingDate || !/^\d{4}-\d{2}-\d{2}$/.test(entry.findingDate)) errors.push('missingDate');
+    return { entry, errors, warnings: entry.location ? [] : ['missingLocation'] };
+};
+
+/** The photo files of each entry, named after its row so they can be matched up after export. */
+const collectPhotos = (entries: HistoryEntry[], folder: string) => {
+    const files: ZipFile[] = [];
+    const paths = entries.map((entry, row) => (entry.userPhotos || []).flatMap((photo, n) => {
+        const decoded = dataUrlToBytes(photo);
+        if (!decoded) return [];
+        const path = `${folder}/${row + 1}_${n + 1}.${EXTENSIONS[decoded.mimeType] || 'bin'}`;
+        files.push({ name: path, data: decoded.bytes });
+        return [{ path, mimeType: decoded.mimeType }];
+    }));
+    return { files, paths };
+};
+
+const metaField = (term: string, index: number, namespace: string) => `    <field index="${index}" term="${namespace}${term}"/>`;
+
+const META_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<archive xmlns="http://rs.tdwg.org/dwc/text/">
+  <core encoding="UTF-8" fieldsTerminatedBy="," linesTerminatedBy="\\r\\n" fieldsEnclosedBy="&quot;" ignoreHeaderLines="1" rowType="${DWC}Occurrence">
+    <files><location>occurrence.txt</location></files>
+    <id index="0"/>
+${OCCURRENCE_TERMS.map((term, i) => metaField(term, i, DWC)).join('\n')}
+  </core>
+  <extension encoding="UTF-8" fieldsTerminatedBy="," linesTerminatedBy="\\r\\n" fieldsEnclosedBy="&quot;" ignoreHeaderLines="1" rowType="http://rs.gbif.org/terms/1.0/Multimedia">
+    <files><location>multimedia.txt</location></files>
+    <coreid index="0"/>
+${MULTIMEDIA_TERMS.map((term, i) => metaField(term, i + 1, DC)).join('\n')}
+  </extension>
+</archive>
+`;
+
+/** A Darwin Core Archive of the entries that pass `checkObservation`. */
+export const createDarwinCoreArchive = (entries: HistoryEntry[]): Blob => {
+    const valid = entries.filter(entry => !checkObservation(entry).errors.length);
+    const { files, paths } = collectPhotos(valid, 'media');
+    const occurrences = valid.map((entry, row) => [
+        entry.id,
+        'HumanObservation',
+        'Fungi',
+        entry.mushroomInfo.nombreCientifico,
+        entry.mushroomInfo.nombreComun,
+        entry.findingDate,
+        entry.location?.latitude,
+        entry.location?.longitude,
+        entry.location ? 'WGS84' : undefined,
+        entry.safetyChecklist?.expertName,
+        entry.personalNotes,
+        paths[row].map(photo => photo.path).join(' | '),
+    ]);
+    const multimedia = valid.flatMap((entry, row) => paths[row].map(photo => [entry.id, 'StillImage', photo.mimeType, photo.path]));
+    const encoder = new TextEncoder();
+    return createZip([
+        { name: 'meta.xml', data: encoder.encode(META_XML) },
+        { name: 'occurrence.txt', data: encoder.encode(toCsv([OCCURRENCE_TERMS, ...occurrences])) },
+        { name: 'multimedia.txt', data: encoder.encode(toCsv([['coreid', ...MULTIMEDIA_TERMS], ...multimedia])) },
+        ...files,
+    ]);
+};
+
+/** observations.csv in iNaturalist's import layout, with photos/<row>_<n> for each row's photos. */
+export const createINaturalistExport = (entries: HistoryEntry[]): Blob => {
+    const valid = entries.filter(entry => !checkObservation(entry).errors.length);
+    const { files } = collectPhotos(valid, 'photos');
+    const rows = valid.map(entry => [
+        entry.mushroomInfo.nombreCientifico,
+        entry.findingDate,
+        entry.personalNotes,
+        undefined,
+        entry.location?.latitude,
+        entry.location?.longitude,
+        undefined,
+        undefined,
+    ]);
+    return createZip([{ name: 'observations.csv', data: new TextEncoder().encode(toCsv([INATURALIST_COLUMNS, ...rows])) }, ...files]);
+};
@@ -0,0 +1,53 @@
+// --- PARTIAL JSON ---
+// Streamed responses arrive as a growing prefix of a JSON document. To render it before it is
+// complete, the prefix is closed off (open string, arrays and objects) and parsed; when the cut
+// falls inside a key or a literal, it is moved back to the last complete member.
+
+const MAX_PARSE_ATTEMPTS = 12;
+
+/**
+ * Parses the longest usable prefix of a truncated JSON document.
+ * @returns the parsed value, or undefined when nothing parseable has arrived yet.
+ */
+export const parsePartialJson = (text: string): any => {
+    const stack: string[] = [];
+    // Positions where the document can be cut, with the closers needed at that point.
+    const cutPoints: { index: number; closers: string }[] = [];
+    let inString = false;
+    let escaped = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            if (escaped) escaped = false;
+            else if (ch === '\\') escaped = true;
+            else if (ch === '"') inString = false;
+            continue;
+        }
+        if (ch === '"') {
+            inString = true;
+        } else if (ch === '{' || ch === '[') {
+            stack.push(ch === '{' ? '}' : ']');
+            cutPoints.push({ index: i + 1, closers: [...stack].reverse().join('') });
+        } else if (ch === '}' || ch === ']') {
+            stack.pop();
+        } else if (ch === ',') {
+            cutPoints.push({ index: i, closers: [...stack].reverse().join('') });
+        }
+    }
+
+    const closeOpenString = inString ? `${escaped ? text.slice(0, -1) : text}"` : text;
+    const attempts = [
+        closeOpenString + [...stack].reverse().join(''),
+        ...cutPoints.reverse().map(point => text.slice(0, point.index) + point.closers),
+    ].slice(0, MAX_PARSE_ATTEMPTS);
+
+    for (const attempt of attempts) {
+        try {
+            return JSON.parse(attempt);
+        } catch (e) {
+            // Try the next, shorter cut.
+        }
+    }
+    return undefined;
+};
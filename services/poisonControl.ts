@@ -0,0 +1,45 @@
+// --- POISON CONTROL ---
+// Bundled, so the numbers are available offline and never come from a model. Bump
+// POISON_CONTROL_TABLE_VERSION whenever a number is added or changed; it is printed on every report.
+
+export const POISON_CONTROL_TABLE_VERSION = '2026.1';
+
+export interface PoisonControlCentre {
+    region: string; // ISO 3166-1 alpha-2
+    regionName: Record<'es' | 'en', string>;
+    centre: string;
+    phone: string;
+    emergency: string; // general emergency number of the region
+}
+
+export const POISON_CONTROL_CENTRES: PoisonControlCentre[] = [
+    { region: 'ES', regionName: { es: 'España', en: 'Spain' }, centre: 'Servicio de Información Toxicológica', phone: '+34 91 562 04 20', emergency: '112' },
+    { region: 'MX', regionName: { es: 'México', en: 'Mexico' }, centre: 'SINTOX', phone: '800 009 2800', emergency: '911' },
+    { region: 'AR', regionName: { es: 'Argentina', en: 'Argentina' }, centre: 'Hospital de Niños R. Gutiérrez - Toxicología', phone: '0800 444 8694', emergency: '107' },
+    { region: 'CO', regionName: { es: 'Colombia', en: 'Colombia' }, centre: 'Línea Nacional de Toxicología', phone: '01 8000 916 012', emergency: '123' },
+    { region: 'CL', regionName: { es: 'Chile', en: 'Chile' }, centre: 'CITUC', phone: '+56 2 2635 3800', emergency: '131' },
+    { region: 'PE', regionName: { es: 'Perú', en: 'Peru' }, centre: 'CICOTOX', phone: '0800 1 3040', emergency: '106' },
+    { region: 'US', regionName: { es: 'Estados Unidos', en: 'United States' }, centre: 'Poison Control', phone: '1-800-222-1222', emergency: '911' },
+    { region: 'CA', regionName: { es: 'Canadá', en: 'Canada' }, centre: 'Poison Centre', phone: '1-844-764-7669', emergency: '911' },
+    { region: 'GB', regionName: { es: 'Reino Unido', en: 'United Kingdom' }, centre: 'NHS 111', phone: '111', emergency: '999' },
+    { region: 'IE', regionName: { es: 'Irlanda', en: 'Ireland' }, centre: 'National Poisons Information Centre', phone: '+353 1 809 2166', emergency: '112' },
+    { region: 'FR', regionName: { es: 'Francia', en: 'France' }, centre: 'Centre Antipoison de Paris', phone: '+33 1 40 05 48 48', emergency: '15' },
+    { region: 'DE', regionName: { es: 'Alemania', en: 'Germany' }, centre: 'Giftnotruf Berlin', phone: '+49 30 19240', emergency: '112' },
+    { region: 'IT', regionName: { es: 'Italia', en: 'Italy' }, centre: 'Centro Antiveleni Niguarda', phone: '+39 02 6610 1029', emergency: '112' },
+    { region: 'PT', regionName: { es: 'Portugal', en: 'Portugal' }, centre: 'CIAV', phone: '800 250 250', emergency: '112' },
+    { region: 'AU', regionName: { es: 'Australia', en: 'Australia' }, centre: 'Poisons Information Centre', phone: '13 11 26', emergency: '000' },
+    { region: 'NZ', regionName: { es: 'Nueva Zelanda', en: 'New Zealand' }, centre: 'National Poisons Centre', phone: '0800 764 766', emergency: '111' },
+];
+
+export const getPoisonControlCentre = (region: string): PoisonControlCentre | undefined =>
+    POISON_CONTROL_CENTRES.find(centre => centre.region === region);
+
+/** Region from the browser locale ("es-MX" → MX), falling back to the app language's most likely region. */
+export const guessRegion = (language: 'es' | 'en'): string => {
+    const locales = typeof navigator !== 'undefined' ? [...(navigator.languages || []), navigator.language] : [];
+    for (const locale of locales) {
+        const region = locale?.split('-')[1]?.toUpperCase();
+        if (region && getPoisonControlCentre(region)) return region;
+    }
+    return language === 'es' ? 'ES' : 'US';
+};
@@ -0,0 +1,189 @@
+import { HistoryEntry, ToxicityInfo } from '../types.ts';
+import { entryHasToxin } from './toxinKnowledgeBase.ts';
+
+// --- POISONING SYNDROMES ---
+// A bundled table of the classic mushroom poisoning syndromes, used to go from symptoms back to
+// the likely toxin when the species is unknown. Latency is the main discriminator: the deadliest
+// syndromes start late, after the gastrointestinal ones would have settled.
+
+export type SymptomId =
+    | 'nausea' | 'vomiting' | 'diarrhea' | 'abdominalPain'
+    | 'sweating' | 'salivation' | 'tearing' | 'blurredVision' | 'slowHeartbeat'
+    | 'flushing' | 'palpitations' | 'headache' | 'afterAlcohol'
+    | 'confusion' | 'agitation' | 'drowsiness' | 'hallucinations' | 'dilatedPupils' | 'seizures'
+    | 'jaundice' | 'apparentRecovery' | 'thirst' | 'reducedUrine' | 'flankPain' | 'fatigue';
+
+export const SYMPTOMS: SymptomId[] = [
+    'nausea', 'vomiting', 'diarrhea', 'abdominalPain',
+    'sweating', 'salivation', 'tearing', 'blurredVision', 'slowHeartbeat',
+    'flushing', 'palpitations', 'headache', 'afterAlcohol',
+    'confusion', 'agitation', 'drowsiness', 'hallucinations', 'dilatedPupils', 'seizures',
+    'jaundice', 'apparentRecovery', 'thirst', 'reducedUrine', 'flankPain', 'fatigue',
+];
+
+// Onset ranges offered to the user, in hours since the meal.
+export const LATENCY_BUCKETS = [
+    { id: 'under30m', minHours: 0, maxHours: 0.5 },
+    { id: '30mTo2h', minHours: 0.5, maxHours: 2 },
+    { id: '2hTo6h', minHours: 2, maxHours: 6 },
+    { id: '6hTo24h', minHours: 6, maxHours: 24 },
+    { id: '1dTo3d', minHours: 24, maxHours: 72 },
+    { id: 'over3d', minHours: 72, maxHours: Infinity },
+] as const;
+
+export type LatencyBucketId = typeof LATENCY_BUCKETS[number]['id'];
+
+export interface PoisoningSyndrome {
+    id: string;
+    name: Record<'es' | 'en', string>;
+    latencyHours: [number, number]; // typical onset window
+    symptoms: SymptomId[];
+    requires?: SymptomId; // never suggested without it
+    toxins: string[]; // toxin knowledge base ids
+    genera: string[];
+    severity: ToxicityInfo['nivelToxicidad'];
+    description: Record<'es' | 'en', string>;
+}
+
+const SYNDROMES: PoisoningSyndrome[] = [
+    {
+        id: 'amatoxin',
+        name: { es: 'Síndrome faloidiano (amatoxinas)', en: 'Amatoxin (phalloides) syndrome' },
+        latencyHours: [6, 24],
+        symptoms: ['vomiting', 'diarrhea', 'abdominalPain', 'nausea', 'apparentRecovery', 'jaundice', 'fatigue'],
+        toxins: ['amatoxins', 'phallotoxins'],
+        genera: ['Amanita', 'Galerina', 'Lepiota'],
+        severity: 'Lethal',
+        description: {
+            es: 'Diarrea acuosa y vómitos intensos que empiezan tarde, seguidos de una mejoría engañosa mientras se daña el hígado. Requiere hospital de inmediato, aunque los síntomas hayan cedido.',
+            en: 'Severe watery diarrhoea and vomiting that start late, followed by a deceptive recovery while the liver is being damaged. Needs hospital care at once, even if symptoms have eased.',
+        },
+    },
+    {
+        id: 'orellanine',
+        name: { es: 'Síndrome orellánico (orellanina)', en: 'Orellanine syndrome' },
+        latencyHours: [36, 480],
+        symptoms: ['thirst', 'reducedUrine', 'flankPain', 'fatigue', 'nausea', 'vomiting', 'headache'],
+        toxins: ['orellanine'],
+        genera: ['Cortinarius'],
+        severity: 'Lethal',
+        description: {
+            es: 'Sed intensa, dolor lumbar y orina escasa días o semanas después de la comida: daño renal que puede ser irreversible. Suele no relacionarse con las setas por el tiempo transcurrido.',
+            en: 'Intense thirst, flank pain and scanty urine days or weeks after the meal: kidney damage that may be irreversible. Often not linked to the mushrooms because of the delay.',
+        },
+    },
+    {
+        id: 'gyromitrin',
+        name: { es: 'Síndrome giromitriano (giromitrina)', en: 'Gyromitrin syndrome' },
+        latencyHours: [5, 12],
+        symptoms: ['vomiting', 'diarrhea', 'abdominalPain', 'headache', 'fatigue', 'seizures', 'jaundice'],
+        toxins: ['gyromitrin'],
+        genera: ['Gyromitra'],
+        severity: 'Lethal',
+        description: {
+            es: 'Vómitos, dolor de cabeza y cansancio varias horas después de comer falsas colmenillas; en casos graves, convulsiones y daño hepático.',
+            en: 'Vomiting, headache and exhaustion several hours after eating false morels; severe cases bring seizures and liver damage.',
+        },
+    },
+    {
+        id: 'muscarinic',
+        name: { es: 'Síndrome muscarínico (muscarina)', en: 'Muscarinic syndrome' },
+        latencyHours: [0.25, 2],
+        symptoms: ['sweating', 'salivation', 'tearing', 'blurredVision', 'slowHeartbeat', 'diarrhea', 'vomiting', 'abdominalPain'],
+        toxins: ['muscarine'],
+        genera: ['Inocybe', 'Clitocybe'],
+        severity: 'Poisonous',
+        description: {
+            es: 'Sudoración profusa, salivación, lagrimeo, visión borrosa y pulso lento poco después de la comida. Tiene antídoto (atropina): acude a urgencias.',
+            en: 'Heavy sweating, salivation, tearing, blurred vision and a slow pulse soon after the meal. There is an antidote (atropine): go to the emergency department.',
+        },
+    },
+    {
+        id: 'isoxazole',
+        name: { es: 'Síndrome panterínico (ácido iboténico, muscimol)', en: 'Pantherina syndrome (ibotenic acid, muscimol)' },
+        latencyHours: [0.5, 3],
+        symptoms: ['confusion', 'agitation', 'drowsiness', 'hallucinations', 'dilatedPupils', 'seizures', 'nausea'],
+        toxins: ['ibotenicAcid', 'muscimol'],
+        genera: ['Amanita'],
+        severity: 'Poisonous',
+        description: {
+            es: 'Confusión, agitación o euforia alternando con somnolencia profunda, a veces alucinaciones, en las primeras horas.',
+            en: 'Confusion, agitation or euphoria alternating with deep drowsiness, sometimes hallucinations, within the first hours.',
+        },
+    },
+    {
+        id: 'psilocybin',
+        name: { es: 'Síndrome alucinógeno (psilocibina)', en: 'Hallucinogenic syndrome (psilocybin)' },
+        latencyHours: [0.25, 1],
+        symptoms: ['hallucinations', 'agitation', 'dilatedPupils', 'palpitations', 'confusion', 'nausea'],
+        toxins: ['psilocybin'],
+        genera: ['Psilocybe', 'Panaeolus', 'Gymnopilus'],
+        severity: 'Poisonous',
+        description: {
+            es: 'Alteraciones de la percepción, ansiedad y pupilas dilatadas poco después de la ingesta; suele remitir en unas horas, pero los niños necesitan atención médica.',
+            en: 'Altered perception, anxiety and dilated pupils shortly after eating; it usually settles within hours, but children need medical care.',
+        },
+    },
+    {
+        id: 'coprine',
+        name: { es: 'Síndrome coprínico (coprina + alcohol)', en: 'Coprine syndrome (coprine + alcohol)' },
+        latencyHours: [0, 72], // counted from the meal: the reaction comes with any drink in the next three days
+        symptoms: ['afterAlcohol', 'flushing', 'palpitations', 'headache', 'nausea', 'vomiting'],
+        requires: 'afterAlcohol',
+        toxins: ['coprine'],
+        genera: ['Coprinopsis'],
+        severity: 'Caution',
+        description: {
+            es: 'Enrojecimiento de cara y cuello, palpitaciones y dolor de cabeza al beber alcohol hasta 72 horas después de comer la seta.',
+            en: 'Flushed face and neck, palpitations and headache when drinking alcohol up to 72 hours after eating the mushroom.',
+        },
+    },
+    {
+        id: 'gastrointestinal',
+        name: { es: 'Síndrome gastrointestinal (irritantes)', en: 'Gastrointestinal (irritant) syndrome' },
+        latencyHours: [0.25, 4],
+        symptoms: ['nausea', 'vomiting', 'diarrhea', 'abdominalPain'],
+        toxins: ['illudins', 'gastrointestinalIrritants'],
+        genera: ['Entoloma', 'Hypholoma', 'Omphalotus', 'Tricholoma', 'Agaricus'],
+        severity: 'Poisonous',
+        description: {
+            es: 'Náuseas, vómitos, diarrea y dolor abdominal en las primeras horas. Si los síntomas empiezan a las 6 horas o más, sospecha de un síndrome grave.',
+            en: 'Nausea, vomiting, diarrhoea and abdominal pain within the first hours. If symptoms start 6 hours or more after eating, suspect a severe syndrome.',
+        },
+    },
+];
+
+export interface SyndromeMatch {
+    syndrome: PoisoningSyndrome;
+    score: number; // 0-1
+    latencyFits: boolean | null; // null when the onset is unknown
+    matchedSymptoms: SymptomId[];
+}
+
+/**
+ * Ranks the syndromes against the onset and symptoms. Half of the symptom score is how much of the
+ * user's picture a syndrome explains, half how much of the syndrome's picture is present; an onset
+ * inside the syndrome's window weighs as much again. Syndromes explaining no symptom are left out.
+ */
+export const rankSyndromes = (latency: LatencyBucketId | null, symptoms: SymptomId[]): SyndromeMatch[] => {
+    const bucket = LATENCY_BUCKETS.find(b => b.id === latency);
+    return SYNDROMES.filter(syndrome => !syndrome.requires || symptoms.includes(syndrome.requires)).map(syndrome => {
+        const matchedSymptoms = syndrome.symptoms.filter(symptom => symptoms.includes(symptom));
+        const [min, max] = syndrome.latencyHours;
+        const latencyFits = bucket ? bucket.minHours < max && bucket.maxHours > min : null;
+        const symptomScore = symptoms.length > 0 ? (matchedSymptoms.length / symptoms.length + matchedSymptoms.length / syndrome.symptoms.length) / 2 : 0;
+        const score = latencyFits === null ? symptomScore : (symptomScore * 2 + (latencyFits ? 1 : 0)) / 3;
+        return { syndrome, score, latencyFits, matchedSymptoms };
+    })
+        .filter(match => symptoms.length === 0 ? match.latencyFits : match.matchedSymptoms.length > 0)
+        .sort((a, b) => b.score - a.score);
+};
+
+/** Entries whose toxic compounds include one of the syndrome's toxins. */
+export const findEntriesWithSyndromeToxins = (syndrome: PoisoningSyndrome, entries: HistoryEntry[]): HistoryEntry[] =>
+    entries.filter(entry => syndrome.toxins.some(toxinId => entryHasToxin(entry, toxinId)));
+
+/** Onset window as shown to the user: minutes, hours or days depending on its span. */
+export const formatLatencyWindow = ([min, max]: [number, number]): string => max >= 48
+    ? `${Math.round(min / 24 * 10) / 10}-${Math.round(max / 24)} d`
+    : min < 1 ? `${Math.round(min * 60)} min-${max} h` : `${min}-${max} h`;
@@ -0,0 +1,106 @@
+import { DifficultyLevel, ImageQuality, ProviderId, TextIdentificationResult } from '../types.ts';
+import { createThumbnail } from '../utils.ts';
+
+// --- RESPONSE CACHE ---
+// Text lookups cost one LLM call plus two image generations, so their results are kept in
+// localStorage and reused for the same species, language, difficulty and image quality.
+
+const CACHE_STORAGE_KEY = 'mushroomResponseCache';
+const MAX_CACHE_ENTRIES = 25;
+const CACHED_IMAGE_SIZE = 768;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Complete profiles are stable for weeks; results with a missing image are retried sooner.
+export const CACHE_TTL_MS = { complete: 30 * DAY_MS, partial: 1 * DAY_MS };
+
+export interface CacheEntry {
+    key: string;
+    query: string; // as typed by the user, for display
+    provider: ProviderId;
+    language: 'es' | 'en';
+    difficulty: DifficultyLevel;
+    imageQuality: ImageQuality;
+    createdAt: number;
+    expiresAt: number;
+    result: TextIdentificationResult;
+}
+
+/** Lowercases, strips accents and collapses whitespace so "Boletus  Édulis" and "boletus edulis" share an entry. */
+export const normalizeQuery = (query: string): string =>
+    query.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const buildCacheKey = (provider: ProviderId, query: string, language: 'es' | 'en', difficulty: DifficultyLevel, imageQuality: ImageQuality): string =>
+    [provider, normalizeQuery(query), language, difficulty, imageQuality].join('|');
+
+const readEntries = (): CacheEntry[] => {
+    try {
+        const stored = localStorage.getItem(CACHE_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error("Failed to read the response cache.", e);
+        return [];
+    }
+};
+
+/**
+ * Writes the entries, newest first. When the browser storage is full the oldest entries
+ * are dropped one by one until the rest fits.
+ */
+const writeEntries = (entries: CacheEntry[]) => {
+    let remaining = [...entries].sort((a, b) => b.createdAt - a.createdAt).slice(0, MAX_CACHE_ENTRIES);
+    while (true) {
+        try {
+            localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(remaining));
+            return;
+        } catch (e) {
+            if (remaining.length === 0) {
+                console.error("Failed to write the response cache.", e);
+                return;
+            }
+            remaining = remaining.slice(0, -1);
+        }
+    }
+};
+
+const isExpired = (entry: CacheEntry, now = Date.now()) => entry.expiresAt <= now;
+
+/** Returns every entry, dropping the expired ones from storage on the way. */
+export const listCacheEntries = (): CacheEntry[] => {
+    const entries = readEntries();
+    const fresh = entries.filter(entry => !isExpired(entry));
+    if (fresh.length !== entries.length) writeEntries(fresh);
+    return fresh.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const getCachedLookup = (key: string): CacheEntry | null =>
+    listCacheEntries().find(entry => entry.key === key) || null;
+
+/** Stores a lookup result. Images are downscaled first so a handful of entries fit in localStorage. */
+export const putCachedLookup = async (entry: Omit<CacheEntry, 'createdAt' | 'expiresAt'>): Promise<void> => {
+    const { result } = entry;
+    const [imageSrc, mapaDistribucionSrc] = await Promise.all([
+        result.imageSrc ? createThumbnail(result.imageSrc, CACHED_IMAGE_SIZE) : Promise.resolve(null),
+        result.mapaDistribucionSrc ? createThumbnail(result.mapaDistribucionSrc, CACHED_IMAGE_SIZE) : Promise.resolve(null),
+    ]);
+    const complete = !result.mainImageGenerationFailed && !result.mapGenerationFailed;
+    const createdAt = Date.now();
+    const cached: CacheEntry = {
+        ...entry,
+        createdAt,
+        expiresAt: createdAt + (complete ? CACHE_TTL_MS.complete : CACHE_TTL_MS.partial),
+        result: { ...result, imageSrc, mapaDistribucionSrc, cachedAt: undefined },
+    };
+    writeEntries([cached, ...readEntries().filter(e => e.key !== entry.key && !isExpired(e))]);
+};
+
+export const removeCachedLookup = (key: string) => {
+    writeEntries(readEntries().filter(entry => entry.key !== key));
+};
+
+export const clearResponseCache = () => {
+    localStorage.removeItem(CACHE_STORAGE_KEY);
+};
+
+/** Approximate size of the cache in bytes (UTF-16, as browsers count localStorage). */
+export const getCacheSize = (): number => (localStorage.getItem(CACHE_STORAGE_KEY)?.length || 0) * 2;
@@ -0,0 +1,71 @@
+import { MushroomInfo, RiskFactor, RiskProfile } from '../types.ts';
+import { RISK_FACTORS } from './mushroomSchema.ts';
+import { matchToxins } from './toxinKnowledgeBase.ts';
+
+// --- PERSONAL RISK PROFILE ---
+// The reader's circumstances (pregnancy, liver or kidney disease, MAO inhibitors, alcohol,
+// children or pets at home), kept in localStorage and never sent to the model. Results carry
+// generic notes per group (riesgosPersonales); the notes are picked here, together with the
+// bundled ones derived from the toxin knowledge base, for the groups the reader belongs to.
+
+const PROFILE_STORAGE_KEY = 'mushroomRiskProfile';
+
+export type RiskNoteScope = 'result' | 'toxicity' | 'recipes';
+
+export interface RiskNote {
+    factor: RiskFactor;
+    scope: RiskNoteScope;
+    messageKey?: string; // bundled note, translated
+    text?: string; // note written by the model
+}
+
+export const loadRiskProfile = (): RiskProfile => {
+    try {
+        const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+        const parsed = stored ? JSON.parse(stored) : null;
+        const factors = parsed && Array.isArray(parsed.factors) ? parsed.factors.filter((f: any) => RISK_FACTORS.includes(f)) : [];
+        return { factors };
+    } catch (e) {
+        console.error("Failed to read the risk profile.", e);
+        return { factors: [] };
+    }
+};
+
+export const saveRiskProfile = (profile: RiskProfile) => {
+    localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profile));
+};
+
+// Bundled notes for toxins that hit a group harder than anyone else.
+const TOXIN_NOTES: { toxinId: string; factor: RiskFactor }[] = [
+    { toxinId: 'amatoxins', factor: 'liverDisease' },
+    { toxinId: 'gyromitrin', factor: 'liverDisease' },
+    { toxinId: 'amatoxins', factor: 'kidneyDisease' },
+    { toxinId: 'orellanine', factor: 'kidneyDisease' },
+    { toxinId: 'coprine', factor: 'drinksAlcohol' },
+    { toxinId: 'psilocybin', factor: 'maoInhibitors' },
+];
+
+const EATABLE_LEVELS: MushroomInfo['toxicidad']['nivelToxicidad'][] = ['Edible', 'Caution'];
+
+/** Notes for the groups in the profile, in profile order, bundled notes before the model's. */
+export const getRiskNotes = (mushroomInfo: MushroomInfo, profile: RiskProfile): RiskNote[] => {
+    if (profile.factors.length === 0) return [];
+    const level = mushroomInfo.toxicidad.nivelToxicidad;
+    const toxinIds = new Set(mushroomInfo.toxicidad.compuestosToxicos.flatMap(compound => matchToxins(compound).map(toxin => toxin.id)));
+    const alcoholInteraction = mushroomInfo.condicionesConsumo?.interacciones.some(interaction => interaction.tipo === 'alcohol');
+
+    return profile.factors.flatMap((factor): RiskNote[] => {
+        const notes: RiskNote[] = [];
+        if ((factor === 'children' || factor === 'pets') && !EATABLE_LEVELS.includes(level)) notes.push({ factor, scope: 'result', messageKey: `riskNote_${factor}_toxic` });
+        if (factor === 'pregnancy' && EATABLE_LEVELS.includes(level)) notes.push({ factor, scope: 'result', messageKey: 'riskNote_pregnancy_wild' });
+        TOXIN_NOTES.filter(note => note.factor === factor && toxinIds.has(note.toxinId))
+            .forEach(note => notes.push({ factor, scope: 'toxicity', messageKey: `riskNote_${factor}_${note.toxinId}` }));
+        const modelNote = mushroomInfo.riesgosPersonales?.find(risk => risk.grupo === factor);
+        if (modelNote) notes.push({ factor, scope: 'toxicity', text: modelNote.nota });
+        if (EATABLE_LEVELS.includes(level)) {
+            if (factor === 'drinksAlcohol' && alcoholInteraction) notes.push({ factor, scope: 'recipes', messageKey: 'riskNote_drinksAlcohol_recipes' });
+            if (factor === 'pregnancy' || factor === 'liverDisease' || factor === 'kidneyDisease') notes.push({ factor, scope: 'recipes', messageKey: `riskNote_${factor}_recipes` });
+        }
+        return notes;
+    });
+};
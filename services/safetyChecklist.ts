@@ -0,0 +1,43 @@
+import { HistoryEntry, SafetyCheckId, SafetyChecklist } from '../types.ts';
+
+// --- PRE-CONSUMPTION CHECKLIST ---
+// Recipes stay locked until every check of an entry is ticked: the spore print, the stem base,
+// each lookalike's key difference and a local expert. The checks describe the entry as it is
+// now, so a lookalike added by a later refresh reopens the list.
+
+export const SAFETY_CHECKS: SafetyCheckId[] = ['sporePrint', 'stemBase', 'expert'];
+
+export interface ChecklistItem {
+    key: string; // a SafetyCheckId, or "lookalike:<scientific name>"
+    check?: SafetyCheckId;
+    lookalike?: string;
+    completedAt: number | null;
+}
+
+export const createSafetyChecklist = (): SafetyChecklist => ({ completed: {}, lookalikesVerified: {} });
+
+export const getChecklistItems = (entry: HistoryEntry): ChecklistItem[] => {
+    const checklist = entry.safetyChecklist || createSafetyChecklist();
+    const lookalikes = (entry.mushroomInfo.hongosSimilares || []).map(similar => similar.nombreCientifico || similar.nombreComun);
+    return [
+        ...SAFETY_CHECKS.filter(check => check !== 'expert').map(check => ({ key: check, check, completedAt: checklist.completed[check] ?? null })),
+        ...lookalikes.map(lookalike => ({ key: `lookalike:${lookalike}`, lookalike, completedAt: checklist.lookalikesVerified[lookalike] ?? null })),
+        { key: 'expert', check: 'expert' as const, completedAt: checklist.completed.expert ?? null },
+    ];
+};
+
+export const isChecklistComplete = (entry: HistoryEntry): boolean => getChecklistItems(entry).every(item => item.completedAt !== null);
+
+/** Ticks or unticks one item, recording when it was ticked. */
+export const toggleChecklistItem = (checklist: SafetyChecklist | undefined, item: ChecklistItem, done: boolean): SafetyChecklist => {
+    const current = checklist || createSafetyChecklist();
+    const stamp = (record: Record<string, number>, key: string) => {
+        const next = { ...record };
+        if (done) next[key] = Date.now();
+        else delete next[key];
+        return next;
+    };
+    return item.lookalike !== undefined
+        ? { ...current, lookalikesVerified: stamp(current.lookalikesVerified, item.lookalike) }
+        : { ...current, completed: stamp(current.completed, item.check!) };
+};
@@ -0,0 +1,149 @@
+import { ComparisonInfo, MushroomInfo, SafetyAssessment, SafetyMatch, ToxicityInfo } from '../types.ts';
+
+// --- SAFETY RULES ---
+// A bundled, deterministic rule set for the deadliest genera and species. The model's toxicity level
+// is never trusted over it: a match raises the level, marks lookalikes as toxic and hides recipes.
+// Bump SAFETY_RULES_VERSION whenever a rule is added or changed; it is saved with every result.
+
+export const SAFETY_RULES_VERSION = '2026.1';
+
+type ToxicityLevel = ToxicityInfo['nivelToxicidad'];
+
+export interface SafetyRule {
+    id: string;
+    genus: string;
+    species?: string[]; // epithets; omitted when the whole genus is covered
+    commonNames: string[]; // exact names (es/en), compared without case or accents
+    level: Extract<ToxicityLevel, 'Poisonous' | 'Lethal'>;
+    toxins: string[];
+    reason: Record<'es' | 'en', string>;
+}
+
+const SAFETY_RULES: SafetyRule[] = [
+    {
+        id: 'amanita-amatoxin',
+        genus: 'amanita',
+        species: ['phalloides', 'virosa', 'verna', 'bisporigera', 'ocreata', 'exitialis', 'subjunquillea'],
+        commonNames: ['death cap', 'destroying angel', 'fool\'s mushroom', 'oronja verde', 'cicuta verde', 'oronja cicutina', 'cicuta blanca', 'oronja blanca', 'angel destructor', 'oronja mortal'],
+        level: 'Lethal',
+        toxins: ['Amatoxins (α-amanitin)', 'Phallotoxins'],
+        reason: {
+            es: 'Amanitas con amatoxinas: destruyen el hígado. Los síntomas aparecen 6-24 h después, cuando el daño ya está hecho.',
+            en: 'Amatoxin-bearing Amanitas: they destroy the liver. Symptoms start 6-24 h later, once the damage is done.',
+        },
+    },
+    {
+        id: 'galerina',
+        genus: 'galerina',
+        commonNames: ['funeral bell', 'deadly galerina', 'autumn skullcap', 'galerina marginada'],
+        level: 'Lethal',
+        toxins: ['Amatoxins (α-amanitin)'],
+        reason: {
+            es: 'Galerina contiene las mismas amatoxinas que la oronja verde y se confunde con hongos comestibles que crecen en madera.',
+            en: 'Galerina carries the same amatoxins as the death cap and is mistaken for edible wood-growing mushrooms.',
+        },
+    },
+    {
+        id: 'cortinarius-orellanine',
+        genus: 'cortinarius',
+        species: ['orellanus', 'rubellus', 'speciosissimus', 'orellanoides', 'eartoxicus'],
+        commonNames: ['fool\'s webcap', 'deadly webcap', 'cortinario de montaña'],
+        level: 'Lethal',
+        toxins: ['Orellanine'],
+        reason: {
+            es: 'Cortinarios con orellanina: daño renal irreversible que puede manifestarse de 2 a 20 días después de comerlos.',
+            en: 'Orellanine webcaps: irreversible kidney damage that can show up 2 to 20 days after eating them.',
+        },
+    },
+    {
+        id: 'lepiota',
+        genus: 'lepiota',
+        commonNames: ['deadly dapperling', 'lepiota mortal'],
+        level: 'Lethal',
+        toxins: ['Amatoxins (α-amanitin)'],
+        reason: {
+            es: 'Las lepiotas pequeñas contienen amatoxinas en dosis mortales; ninguna especie del género debe consumirse.',
+            en: 'Small Lepiota species contain lethal doses of amatoxins; no species of the genus should be eaten.',
+        },
+    },
+    {
+        id: 'gyromitra',
+        genus: 'gyromitra',
+        commonNames: ['false morel', 'brain mushroom', 'colmenilla falsa', 'falsa morilla', 'bonete', 'falsa colmenilla'],
+        level: 'Lethal',
+        toxins: ['Gyromitrin (monomethylhydrazine)'],
+        reason: {
+            es: 'Gyromitra contiene giromitrina, que se transforma en monometilhidracina: tóxica incluso cocinada o por inhalar sus vapores.',
+            en: 'Gyromitra contains gyromitrin, which turns into monomethylhydrazine: toxic even cooked or from inhaling its fumes.',
+        },
+    },
+];
+
+const SEVERITY: ToxicityLevel[] = ['Edible', 'Caution', 'Inedible', 'Poisonous', 'Lethal'];
+
+const mostSevere = (a: ToxicityLevel, b: ToxicityLevel): ToxicityLevel => SEVERITY.indexOf(a) >= SEVERITY.indexOf(b) ? a : b;
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[’`]/g, '\'').replace(/\s+/g, ' ').trim();
+
+// Qualifiers that don't change the taxon the name points at ("Amanita cf. virosa", "Lepiota sp.").
+const NAME_QUALIFIERS = new Set(['cf.', 'cf', 'aff.', 'aff', 'sp.', 'sp', 'spp.', 'spp', 'gr.', 'group', 'grupo']);
+
+/**
+ * Rules matching a scientific name or one of the given common names. A genus-level name
+ * ("Amanita sp.") matches every rule of that genus: an unresolved Amanita must be treated as the worst one.
+ */
+const matchRules = (scientificName: string, commonNames: string[]): SafetyRule[] => {
+    const [genus, epithet] = normalize(scientificName).split(' ').filter(token => !NAME_QUALIFIERS.has(token));
+    const names = commonNames.map(normalize).filter(Boolean);
+    return SAFETY_RULES.filter(rule =>
+        (genus === rule.genus && (!rule.species || !epithet || rule.species.includes(epithet)))
+        || rule.commonNames.some(name => names.includes(name))
+    );
+};
+
+export const getSafetyRule = (id: string): SafetyRule | undefined => SAFETY_RULES.find(rule => rule.id === id);
+
+/**
+ * Runs the rules on a profile. A species match raises the level to the rule's; a lethal lookalike
+ * is flagged as toxic and keeps an "Edible" species at "Caution" at least. Recipes are hidden on any
+ * lethal match. The returned assessment is kept even without matches, to record the rules version.
+ */
+export const applySafetyRules = (mushroomInfo: MushroomInfo): { mushroomInfo: MushroomInfo; safety: SafetyAssessment } => {
+    const matches: SafetyMatch[] = matchRules(mushroomInfo.nombreCientifico, [mushroomInfo.nombreComun, ...mushroomInfo.sinonimos])
+        .map(rule => ({ ruleId: rule.id, subject: 'species', name: mushroomInfo.nombreCientifico, level: rule.level }));
+
+    const hongosSimilares = mushroomInfo.hongosSimilares.map(similar => {
+        const lethal = matchRules(similar.nombreCientifico, [similar.nombreComun]).filter(rule => rule.level === 'Lethal');
+        lethal.forEach(rule => matches.push({ ruleId: rule.id, subject: 'lookalike', name: similar.nombreCientifico || similar.nombreComun, level: rule.level }));
+        return lethal.length > 0 ? { ...similar, esToxico: true } : similar;
+    });
+
+    const modelLevel = mushroomInfo.toxicidad.nivelToxicidad;
+    let level = matches.filter(match => match.subject === 'species').reduce((acc, match) => mostSevere(acc, match.level), modelLevel);
+    if (matches.some(match => match.subject === 'lookalike')) level = mostSevere(level, 'Caution');
+
+    return {
+        mushroomInfo: { ...mushroomInfo, hongosSimilares, toxicidad: { ...mushroomInfo.toxicidad, nivelToxicidad: level } },
+        safety: {
+            rulesVersion: SAFETY_RULES_VERSION,
+            matches,
+            escalatedFrom: level !== modelLevel ? modelLevel : undefined,
+            hideRecipes: matches.some(match => match.level === 'Lethal'),
+        },
+    };
+};
+
+/** Applies the rules to both sides of a comparison, raising each side's level as for a single result. */
+export const applyComparisonSafetyRules = (comparison: ComparisonInfo, mushroomA: MushroomInfo, mushroomB: MushroomInfo): ComparisonInfo => {
+    const a = applySafetyRules(mushroomA);
+    const b = applySafetyRules(mushroomB);
+    return {
+        ...comparison,
+        toxicidad: {
+            ...comparison.toxicidad,
+            nivelHongoA: mostSevere(comparison.toxicidad.nivelHongoA, a.mushroomInfo.toxicidad.nivelToxicidad),
+            nivelHongoB: mostSevere(comparison.toxicidad.nivelHongoB, b.mushroomInfo.toxicidad.nivelToxicidad),
+        },
+        safety: { mushroomA: a.safety, mushroomB: b.safety },
+    };
+};
@@ -0,0 +1,263 @@
+import { HistoryEntry } from '../types.ts';
+import { ENTRY_SCHEMA_VERSION, QuarantinedRecord, upgradeRecords } from './entrySchema.ts';
+
+// --- STORAGE ---
+// History and collection live in IndexedDB. Every data URL in an entry (the main image, the map,
+// the source and diary photos) is stored once as a Blob in the `images` store, keyed by its
+// SHA-256, and the entry keeps a reference in its place; history and collection copies of the
+// same entry share their images. Entries are handed to the app with the data URLs restored.
+// Records are stamped with ENTRY_SCHEMA_VERSION and upgraded on load (see entrySchema.ts); those
+// that cannot be are moved to the `quarantine` store, untouched, instead of being loaded. Records
+// from a newer version stay in their list, unloaded, and are written back with every save.
+// Writes fail with STORAGE_QUOTA_EXCEEDED or STORAGE_WRITE_FAILED so the UI can tell the user.
+
+export type EntryList = 'history' | 'collection';
+
+const DB_NAME = 'mushroomIdentifier';
+const DB_VERSION = 2;
+const IMAGE_STORE = 'images';
+const QUARANTINE_STORE = 'quarantine';
+const LISTS: EntryList[] = ['history', 'collection'];
+// Where the lists were kept before IndexedDB; migrated once, then removed.
+const LEGACY_KEYS: Record<EntryList, string> = { history: 'mushroomHistory', collection: 'mushroomCollection' };
+const IMAGE_REF_PREFIX = 'idb-image:';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let writeQueue: Promise<void> = Promise.resolve();
+const storedImages = new Set<string>();
+const references: Record<EntryList, Set<string>> = { history: new Set(), collection: new Set() };
+// Until both lists have been read, a write cannot tell which images are orphans.
+let referencesKnown = false;
+// The app's saves wait for the first load: before it, the lists they hold may not be the stored ones.
+let finishFirstLoad: () => void = () => undefined;
+const firstLoad = new Promise<void>(resolve => { finishFirstLoad = resolve; });
+// Records written by a newer version: not loaded, but kept in their list (and their images kept) on every write.
+const newerRecords: Record<EntryList, unknown[]> = { history: [], collection: [] };
+// Data URLs already hashed, so saving an unchanged list does not hash every photo again.
+const imageKeys = new Map<string, string>();
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('STORAGE_UNAVAILABLE'));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                LISTS.forEach(list => { if (!db.objectStoreNames.contains(list)) db.createObjectStore(list, { keyPath: 'id' }); });
+                if (!db.objectStoreNames.contains(IMAGE_STORE)) db.createObjectStore(IMAGE_STORE);
+                if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        });
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const isQuotaError = (error: any): boolean => error?.name === 'QuotaExceededError' || error?.code === 22 || error?.inner?.name === 'QuotaExceededError';
+
+const toStorageError = (error: any): Error => {
+    if (error instanceof Error && error.message.startsWith('STORAGE_')) return error;
+    return new Error(isQuotaError(error) ? 'STORAGE_QUOTA_EXCEEDED' : 'STORAGE_WRITE_FAILED');
+};
+
+// --- IMAGES ---
+
+const isDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const hashBlob = async (blob: Blob): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const imageSources = (entry: HistoryEntry): string[] => [entry.imageSrc, entry.mapaDistribucionSrc, ...(entry.userPhotos || []), ...(entry.sourcePhotos || []).map(photo => photo.src)]
+    .filter((src): src is string => typeof src === 'string');
+
+// Image keys anywhere in a record, whatever shape a newer version gave it.
+const referencesIn = (record: unknown): string[] => Array.from(JSON.stringify(record).matchAll(new RegExp(`"${IMAGE_REF_PREFIX}([0-9a-f]+)"`, 'g')), match => match[1]);
+
+const referencedImages = (entries: HistoryEntry[]): Set<string> => new Set(entries.flatMap(imageSources)
+    .filter(src => src.startsWith(IMAGE_REF_PREFIX)).map(src => src.slice(IMAGE_REF_PREFIX.length)));
+
+/** Applies `map` to every image field of an entry, leaving the rest untouched. */
+const mapImages = async (entry: HistoryEntry, map: (src: string) => Promise<string>): Promise<HistoryEntry> => ({
+    ...entry,
+    imageSrc: await map(entry.imageSrc),
+    mapaDistribucionSrc: entry.mapaDistribucionSrc ? await map(entry.mapaDistribucionSrc) : entry.mapaDistribucionSrc,
+    userPhotos: entry.userPhotos ? await Promise.all(entry.userPhotos.map(map)) : entry.userPhotos,
+    sourcePhotos: entry.sourcePhotos ? await Promise.all(entry.sourcePhotos.map(async photo => ({ ...photo, src: await map(photo.src) }))) : entry.sourcePhotos,
+});
+
+/** Replaces the data URLs of the entries with image references, collecting the Blobs to store. */
+const dehydrate = async (entries: HistoryEntry[]) => {
+    const blobs = new Map<string, Blob>();
+    const used = new Set<string>();
+    const stored = await Promise.all(entries.map(async entry => ({ ...await mapImages(entry, async src => {
+        if (src.startsWith(IMAGE_REF_PREFIX)) {
+            used.add(src.slice(IMAGE_REF_PREFIX.length));
+            return src;
+        }
+        if (!isDataUrl(src)) return src;
+        let key = imageKeys.get(src);
+        if (!key || !storedImages.has(key)) {
+            const blob = await dataUrlToBlob(src);
+            key = key || await hashBlob(blob);
+            imageKeys.set(src, key);
+            if (!storedImages.has(key)) blobs.set(key, blob);
+        }
+        used.add(key);
+        return IMAGE_REF_PREFIX + key;
+    }), schemaVersion: ENTRY_SCHEMA_VERSION })));
+    return { stored, blobs, used };
+};
+
+const hydrate = async (db: IDBDatabase, entries: HistoryEntry[]): Promise<HistoryEntry[]> => {
+    const images = db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE);
+    // All reads are issued before the first await so the transaction stays open.
+    const requests = Array.from(referencedImages(entries), key => ({ key, request: promisifyRequest<Blob | undefined>(images.get(key)) }));
+    const dataUrls = new Map<string, string>();
+    await Promise.all(requests.map(async ({ key, request }) => {
+        const blob = await request;
+        if (!blob) return; // a missing image shows as broken rather than losing the entry
+        const dataUrl = await blobToDataUrl(blob);
+        dataUrls.set(IMAGE_REF_PREFIX + key, dataUrl);
+        imageKeys.set(dataUrl, key);
+    }));
+    return Promise.all(entries.map(entry => mapImages(entry, async src => dataUrls.get(src) ?? src)));
+};
+
+// --- LISTS ---
+
+const writeList = async (list: EntryList, entries: HistoryEntry[]): Promise<void> => {
+    const db = await openDatabase();
+    const { stored, blobs, used } = await dehydrate(entries);
+    const tx = db.transaction([list, IMAGE_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    const listStore = tx.objectStore(list);
+    const imageStore = tx.objectStore(IMAGE_STORE);
+    blobs.forEach((blob, key) => imageStore.put(blob, key));
+    listStore.clear();
+    stored.forEach(entry => listStore.put(entry));
+    newerRecords[list].forEach(record => {
+        listStore.put(record);
+        referencesIn(record).forEach(key => used.add(key));
+    });
+    // Images no list points at any more are deleted in the same transaction.
+    const otherList = LISTS.find(other => other !== list)!;
+    const orphans = referencesKnown ? Array.from(storedImages).filter(key => !used.has(key) && !references[otherList].has(key)) : [];
+    orphans.forEach(key => imageStore.delete(key));
+    await done;
+    blobs.forEach((_, key) => storedImages.add(key));
+    orphans.forEach(key => storedImages.delete(key));
+    imageKeys.forEach((key, dataUrl) => { if (orphans.includes(key)) imageKeys.delete(dataUrl); });
+    references[list] = used;
+};
+
+const queueWrite = (list: EntryList, entries: HistoryEntry[]): Promise<void> => {
+    const write = writeQueue.then(() => writeList(list, entries)).catch(error => { throw toStorageError(error); });
+    writeQueue = write.catch(() => undefined);
+    return write;
+};
+
+/** Queues a full rewrite of a list once the first load has finished; writes run one at a time, in call order. */
+export const saveEntries = (list: EntryList, entries: HistoryEntry[]): Promise<void> => firstLoad.then(() => queueWrite(list, entries));
+
+// The lists are keyed by id; a record without one cannot be put back.
+const hasKey = (record: unknown): boolean => typeof (record as any)?.id === 'string' || typeof (record as any)?.id === 'number';
+
+/** Sets records aside in the quarantine store and, when they were read from it, removes them from their list. */
+const quarantineRecords = async (list: EntryList, records: QuarantinedRecord[], removeFromList = true): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([list, QUARANTINE_STORE], 'readwrite');
+    const done = transactionDone(tx);
+    records.forEach(item => {
+        tx.objectStore(QUARANTINE_STORE).add(item);
+        const id = (item.record as any)?.id;
+        if (removeFromList && (typeof id === 'string' || typeof id === 'number')) tx.objectStore(list).delete(id);
+    });
+    await done;
+};
+
+/** Moves the lists saved by older versions out of localStorage. Kept there if anything fails. */
+const migrateFromLocalStorage = async (): Promise<number> => {
+    let quarantined = 0;
+    for (const list of LISTS) {
+        const legacy = localStorage.getItem(LEGACY_KEYS[list]);
+        if (legacy === null) continue;
+        let records: unknown;
+        try {
+            records = JSON.parse(legacy);
+        } catch (e) {
+            console.error(`Could not parse the stored ${list}; leaving it in localStorage.`, e);
+            continue;
+        }
+        const upgraded = upgradeRecords(list, Array.isArray(records) ? records : [records]);
+        newerRecords[list] = upgraded.newer.filter(hasKey);
+        await queueWrite(list, upgraded.entries);
+        await quarantineRecords(list, upgraded.quarantined, false);
+        quarantined += upgraded.quarantined.length;
+        localStorage.removeItem(LEGACY_KEYS[list]);
+    }
+    return quarantined;
+};
+
+export type LoadedEntries = Record<EntryList, HistoryEntry[]> & {
+    quarantined: number; // records set aside by this load
+    newer: number; // records kept but not loaded because a newer version wrote them
+};
+
+/** Loads both lists, upgrading old records. */
+export const loadEntries = async (): Promise<LoadedEntries> => {
+    try {
+        return await readAllEntries();
+    } finally {
+        finishFirstLoad();
+    }
+};
+
+const readAllEntries = async (): Promise<LoadedEntries> => {
+    const db = await openDatabase();
+    const keys = await promisifyRequest(db.transaction(IMAGE_STORE, 'readonly').objectStore(IMAGE_STORE).getAllKeys());
+    keys.forEach(key => storedImages.add(String(key)));
+    const readList = (list: EntryList): Promise<any[]> => promisifyRequest(db.transaction(list, 'readonly').objectStore(list).getAll());
+    // Both lists' references must be known before the first write, which deletes unreferenced images.
+    for (const list of LISTS) references[list] = new Set((await readList(list)).flatMap(referencesIn));
+    referencesKnown = true;
+    let quarantined = await migrateFromLocalStorage();
+    const lists = {} as Record<EntryList, HistoryEntry[]>;
+    for (const list of LISTS) {
+        const { entries, changed, quarantined: rejected, newer } = upgradeRecords(list, await readList(list));
+        newerRecords[list] = newer.filter(hasKey);
+        await quarantineRecords(list, rejected);
+        if (changed.length > 0) await queueWrite(list, entries);
+        quarantined += rejected.length;
+        // The stores return entries by id; newest first is the order both lists are shown in.
+        lists[list] = (await hydrate(db, entries)).sort((a, b) => b.timestamp - a.timestamp);
+    }
+    return { ...lists, quarantined, newer: newerRecords.history.length + newerRecords.collection.length };
+};
@@ -0,0 +1,149 @@
+import { HistoryEntry } from '../types.ts';
+import { createThumbnail } from '../utils.ts';
+
+// --- STORAGE USAGE ---
+// Estimates of what the history and collection take in IndexedDB, and the bulk cleanups offered
+// in Settings. Images are stored once however many entries use them (see storage.ts), so every
+// figure counts each distinct image once; a cleanup frees the difference between the usage
+// before and after it, which is why removing collection entries still in the history frees little.
+
+export type UsageCategory = 'entryData' | 'images' | 'sourcePhotos' | 'userPhotos' | 'maps';
+
+export const USAGE_CATEGORIES: UsageCategory[] = ['entryData', 'images', 'sourcePhotos', 'userPhotos', 'maps'];
+
+export interface EntryUsage {
+    entry: HistoryEntry;
+    inHistory: boolean;
+    inCollection: boolean;
+    bytes: number; // a shared image counts toward the first entry using it, collection first
+}
+
+export interface StorageUsage {
+    total: number;
+    byCategory: Record<UsageCategory, number>;
+    entries: EntryUsage[]; // largest first
+}
+
+export interface EntryLists {
+    history: HistoryEntry[];
+    collection: HistoryEntry[];
+}
+
+export const DOWNSCALED_PHOTO_SIZE = 400;
+
+/** Bytes of the Blob a data URL is stored as. */
+const imageBytes = (src: string | undefined): number => {
+    if (!src || !src.startsWith('data:')) return 0;
+    const comma = src.indexOf(',');
+    return src.slice(0, comma).endsWith(';base64') ? Math.floor((src.length - comma - 1) * 3 / 4) : src.length - comma - 1;
+};
+
+/**
+ * Longest side of a JPEG or PNG data URL, read from its header without decoding the image;
+ * null for other formats or a header that cannot be read.
+ */
+const imageLongestSide = (src: string): number | null => {
+    const comma = src.indexOf(',');
+    if (comma < 0 || !src.slice(0, comma).endsWith(';base64')) return null;
+    let bytes: Uint8Array;
+    try {
+        // The size is near the start; 64 KB of base64 covers it for the JPEGs the app writes.
+        bytes = Uint8Array.from(atob(src.slice(comma + 1, comma + 1 + 65536)), char => char.charCodeAt(0));
+    } catch (e) {
+        return null;
+    }
+    const at = (i: number) => (bytes[i] << 8) | bytes[i + 1];
+    if (bytes[0] === 0x89 && bytes[1] === 0x50) return bytes.length >= 24 ? Math.max(at(16) << 16 | at(18), at(20) << 16 | at(22)) : null;
+    if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+    // Walk the JPEG segments up to a start-of-frame marker, which holds height and width.
+    for (let i = 2; i + 9 < bytes.length;) {
+        if (bytes[i] !== 0xff) return null;
+        const marker = bytes[i + 1];
+        if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) return Math.max(at(i + 5), at(i + 7));
+        i += 2 + at(i + 2);
+    }
+    return null;
+};
+
+const needsDownscale = (photo: string): boolean => (imageLongestSide(photo) ?? 0) > DOWNSCALED_PHOTO_SIZE;
+
+const entryImages = (entry: HistoryEntry): [UsageCategory, string][] => [
+    ['images', entry.imageSrc] as [UsageCategory, string],
+    ['maps', entry.mapaDistribucionSrc || ''] as [UsageCategory, string],
+    ...(entry.sourcePhotos || []).map(photo => ['sourcePhotos', photo.src] as [UsageCategory, string]),
+    ...(entry.userPhotos || []).map(photo => ['userPhotos', photo] as [UsageCategory, string]),
+].filter(([, src]) => src.startsWith('data:'));
+
+// Everything but the images; JSON is a close enough stand-in for the structured clone IndexedDB keeps.
+const entryDataBytes = (entry: HistoryEntry): number => JSON.stringify({ ...entry, imageSrc: '', mapaDistribucionSrc: '', sourcePhotos: [], userPhotos: [] }).length;
+
+export const getStorageUsage = ({ history, collection }: EntryLists): StorageUsage => {
+    const byCategory = Object.fromEntries(USAGE_CATEGORIES.map(category => [category, 0])) as Record<UsageCategory, number>;
+    const counted = new Set<string>();
+    const collectionIds = new Set(collection.map(entry => entry.id));
+    const historyIds = new Set(history.map(entry => entry.id));
+    const perEntry = new Map<string, EntryUsage>();
+
+    [...collection, ...history].forEach(entry => {
+        const data = entryDataBytes(entry);
+        byCategory.entryData += data;
+        let bytes = data;
+        entryImages(entry).forEach(([category, src]) => {
+            if (counted.has(src)) return;
+            counted.add(src);
+            const size = imageBytes(src);
+            byCategory[category] += size;
+            bytes += size;
+        });
+        const existing = perEntry.get(entry.id);
+        if (existing) existing.bytes += bytes;
+        else perEntry.set(entry.id, { entry, inHistory: historyIds.has(entry.id), inCollection: collectionIds.has(entry.id), bytes });
+    });
+
+    const total = USAGE_CATEGORIES.reduce((sum, category) => sum + byCategory[category], 0);
+    return { total, byCategory, entries: Array.from(perEntry.values()).sort((a, b) => b.bytes - a.bytes) };
+};
+
+export const estimateFreedBytes = (before: EntryLists, after: EntryLists): number => Math.max(0, getStorageUsage(before).total - getStorageUsage(after).total);
+
+// --- CLEANUPS ---
+// Each returns the lists as they would be after the cleanup; nothing is saved here.
+
+const hasDiaryData = (entry: HistoryEntry): boolean => !!(entry.personalNotes || entry.findingDate || entry.location || entry.userPhotos?.length
+    || Object.keys(entry.safetyChecklist?.completed || {}).length || Object.keys(entry.safetyChecklist?.lookalikesVerified || {}).length);
+
+export const dropGeneratedMaps = ({ history, collection }: EntryLists): EntryLists => {
+    const drop = (entry: HistoryEntry): HistoryEntry => entry.mapaDistribucionSrc ? { ...entry, mapaDistribucionSrc: undefined } : entry;
+    return { history: history.map(drop), collection: collection.map(drop) };
+};
+
+export const purgeHistoryOlderThan = ({ history, collection }: EntryLists, days: number): EntryLists => {
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    return { history: history.filter(entry => entry.timestamp >= cutoff), collection };
+};
+
+export const removeEntriesWithoutDiary = ({ history, collection }: EntryLists): EntryLists => ({ history, collection: collection.filter(hasDiaryData) });
+
+/**
+ * Estimate for downscaling, from each photo's real size: the photos are re-encoded, so the saving
+ * is only known once it is done. Photos already at DOWNSCALED_PHOTO_SIZE or smaller count for nothing.
+ */
+export const estimateDownscaleSavings = ({ history, collection }: EntryLists): number => {
+    const photos = new Set([...collection, ...history].flatMap(entry => entry.userPhotos || []));
+    return Math.round(Array.from(photos).reduce((sum, photo) => {
+        const side = imageLongestSide(photo);
+        return side && side > DOWNSCALED_PHOTO_SIZE ? sum + imageBytes(photo) * (1 - (DOWNSCALED_PHOTO_SIZE / side) ** 2) : sum;
+    }, 0));
+};
+
+export const downscaleUserPhotos = async ({ history, collection }: EntryLists): Promise<EntryLists> => {
+    const scaled = new Map<string, Promise<string>>();
+    const scale = (photo: string) => {
+        // Small enough already (or of unknown size): left alone rather than re-encoded for nothing.
+        if (!needsDownscale(photo)) return Promise.resolve(photo);
+        if (!scaled.has(photo)) scaled.set(photo, createThumbnail(photo, DOWNSCALED_PHOTO_SIZE).then(small => imageBytes(small) < imageBytes(photo) ? small : photo));
+        return scaled.get(photo)!;
+    };
+    const apply = async (entry: HistoryEntry): Promise<HistoryEntry> => entry.userPhotos?.length ? { ...entry, userPhotos: await Promise.all(entry.userPhotos.map(scale)) } : entry;
+    return { history: await Promise.all(history.map(apply)), collection: await Promise.all(collection.map(apply)) };
+};
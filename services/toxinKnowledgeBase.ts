@@ -0,0 +1,182 @@
+import { HistoryEntry, ToxicityInfo } from '../types.ts';
+
+// --- TOXIN KNOWLEDGE BASE ---
+// Bundled reference data for the fungal toxins. The model writes compuestosToxicos as free text
+// ("Amatoxinas (α-amanitina)", "alpha-amanitin"...), so each entry lists, besides the names shown
+// to the user, the fragments that identify it once case, accents and punctuation are stripped.
+// Every alias matches as well, so a name listed there never needs repeating as a fragment.
+
+export type TargetOrgan = 'liver' | 'kidneys' | 'nervousSystem' | 'gut' | 'heart' | 'blood';
+
+export interface Toxin {
+    id: string;
+    name: Record<'es' | 'en', string>;
+    aliases: string[];
+    fragments: string[]; // normalised; a compound containing any of them (or any alias) is this toxin
+    mechanism: Record<'es' | 'en', string>;
+    targetOrgans: TargetOrgan[];
+    latencyHours: [number, number]; // typical onset window after ingestion
+    severity: ToxicityInfo['nivelToxicidad'];
+}
+
+const TOXINS: Toxin[] = [
+    {
+        id: 'amatoxins',
+        name: { es: 'Amatoxinas', en: 'Amatoxins' },
+        aliases: ['α-Amanitin', 'β-Amanitin', 'γ-Amanitin', 'Amatoxina'],
+        fragments: ['amatox', 'amanitin'],
+        mechanism: {
+            es: 'Bloquean la ARN polimerasa II: las células dejan de fabricar proteínas y mueren, sobre todo en el hígado y el riñón. No se destruyen al cocinar.',
+            en: 'They block RNA polymerase II: cells stop making proteins and die, above all in the liver and kidneys. Cooking does not destroy them.',
+        },
+        targetOrgans: ['liver', 'kidneys', 'gut'],
+        latencyHours: [6, 24],
+        severity: 'Lethal',
+    },
+    {
+        id: 'phallotoxins',
+        name: { es: 'Falotoxinas', en: 'Phallotoxins' },
+        aliases: ['Phalloidin', 'Phallacidin', 'Falotoxina', 'Faloidina'],
+        fragments: ['phallotox', 'falotox', 'phalloidin', 'faloidin'],
+        mechanism: {
+            es: 'Estabilizan la actina de las células hepáticas. Se absorben mal por vía oral; acompañan a las amatoxinas, que son las responsables de la gravedad.',
+            en: 'They stabilise actin in liver cells. Poorly absorbed when eaten; they come with the amatoxins, which cause the severity.',
+        },
+        targetOrgans: ['liver'],
+        latencyHours: [6, 24],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'orellanine',
+        name: { es: 'Orellanina', en: 'Orellanine' },
+        aliases: ['Orellanina', 'Orelanina'],
+        fragments: ['orellanin', 'orelanin'],
+        mechanism: {
+            es: 'Se acumula en los túbulos renales y los daña por estrés oxidativo; la insuficiencia renal aparece días después y puede ser permanente.',
+            en: 'It builds up in the kidney tubules and damages them through oxidative stress; kidney failure appears days later and may be permanent.',
+        },
+        targetOrgans: ['kidneys'],
+        latencyHours: [36, 480],
+        severity: 'Lethal',
+    },
+    {
+        id: 'gyromitrin',
+        name: { es: 'Giromitrina', en: 'Gyromitrin' },
+        aliases: ['Monomethylhydrazine (MMH)', 'Giromitrina', 'Monometilhidracina'],
+        fragments: ['gyromitr', 'giromitr', 'hydrazin', 'hidrazin', 'hidracin'],
+        mechanism: {
+            es: 'Se transforma en monometilhidracina, que agota la vitamina B6 (convulsiones), daña el hígado y destruye glóbulos rojos. Sus vapores también son tóxicos.',
+            en: 'It turns into monomethylhydrazine, which depletes vitamin B6 (seizures), damages the liver and destroys red blood cells. Its fumes are toxic too.',
+        },
+        targetOrgans: ['nervousSystem', 'liver', 'blood', 'gut'],
+        latencyHours: [5, 12],
+        severity: 'Lethal',
+    },
+    {
+        id: 'muscarine',
+        name: { es: 'Muscarina', en: 'Muscarine' },
+        aliases: ['Muscarina'],
+        fragments: ['muscarin'],
+        mechanism: {
+            es: 'Activa los receptores muscarínicos del sistema parasimpático: sudor, salivación, lagrimeo, pulso lento. La atropina es su antídoto.',
+            en: 'It activates the muscarinic receptors of the parasympathetic system: sweating, salivation, tearing, slow pulse. Atropine is its antidote.',
+        },
+        targetOrgans: ['nervousSystem', 'heart', 'gut'],
+        latencyHours: [0.25, 2],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'ibotenicAcid',
+        name: { es: 'Ácido iboténico', en: 'Ibotenic acid' },
+        aliases: ['Ibotenate'],
+        fragments: ['iboten'],
+        mechanism: {
+            es: 'Actúa como el glutamato en el cerebro (excitación, confusión) y al secarse o digerirse se transforma en muscimol.',
+            en: 'It acts like glutamate in the brain (excitation, confusion) and turns into muscimol when dried or digested.',
+        },
+        targetOrgans: ['nervousSystem'],
+        latencyHours: [0.5, 3],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'muscimol',
+        name: { es: 'Muscimol', en: 'Muscimol' },
+        aliases: ['Agarin', 'Pantherine'],
+        fragments: ['muscimol', 'agarin', 'pantherin'],
+        mechanism: {
+            es: 'Activa los receptores GABA-A: somnolencia profunda, desorientación y, a dosis altas, coma.',
+            en: 'It activates GABA-A receptors: deep drowsiness, disorientation and, at high doses, coma.',
+        },
+        targetOrgans: ['nervousSystem'],
+        latencyHours: [0.5, 3],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'psilocybin',
+        name: { es: 'Psilocibina', en: 'Psilocybin' },
+        aliases: ['Psilocin', 'Baeocystin', 'Psilocibina'],
+        fragments: ['psilocib', 'psilocyb', 'psilocin', 'baeocystin'],
+        mechanism: {
+            es: 'Se convierte en psilocina, que activa los receptores de serotonina 5-HT2A y altera la percepción durante unas horas.',
+            en: 'It turns into psilocin, which activates serotonin 5-HT2A receptors and alters perception for a few hours.',
+        },
+        targetOrgans: ['nervousSystem'],
+        latencyHours: [0.25, 1],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'coprine',
+        name: { es: 'Coprina', en: 'Coprine' },
+        aliases: ['Coprina'],
+        fragments: ['coprin'],
+        mechanism: {
+            es: 'Inhibe la aldehído deshidrogenasa, como el disulfiram: si se bebe alcohol hasta 72 h después, se acumula acetaldehído.',
+            en: 'It inhibits aldehyde dehydrogenase, like disulfiram: drinking alcohol up to 72 h later builds up acetaldehyde.',
+        },
+        targetOrgans: ['heart', 'blood'],
+        latencyHours: [0, 72],
+        severity: 'Caution',
+    },
+    {
+        id: 'illudins',
+        name: { es: 'Iludinas', en: 'Illudins' },
+        aliases: ['Illudin S', 'Illudin M', 'Iludina'],
+        fragments: ['illudin', 'iludin'],
+        mechanism: {
+            es: 'Sesquiterpenos que dañan el ADN de las células del tubo digestivo y provocan vómitos intensos.',
+            en: 'Sesquiterpenes that damage the DNA of gut cells and cause heavy vomiting.',
+        },
+        targetOrgans: ['gut'],
+        latencyHours: [0.5, 3],
+        severity: 'Poisonous',
+    },
+    {
+        id: 'gastrointestinalIrritants',
+        name: { es: 'Irritantes gastrointestinales', en: 'Gastrointestinal irritants' },
+        aliases: ['Resinoids', 'Resinoides'],
+        fragments: ['irritant', 'resinoid', 'gastrointestinal'],
+        mechanism: {
+            es: 'Compuestos variados, a menudo sin identificar, que irritan la mucosa digestiva. Los síntomas suelen ceder en uno o dos días.',
+            en: 'Varied, often unidentified compounds that irritate the gut lining. Symptoms usually settle in a day or two.',
+        },
+        targetOrgans: ['gut'],
+        latencyHours: [0.25, 4],
+        severity: 'Poisonous',
+    },
+];
+
+const normalize = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '');
+
+// Fragments plus the normalised aliases, so the two lists cannot drift apart.
+const MATCHERS = new Map(TOXINS.map(toxin => [toxin.id, Array.from(new Set([...toxin.fragments, ...toxin.aliases.map(normalize)].filter(Boolean)))]));
+
+export const getToxin = (id: string): Toxin | undefined => TOXINS.find(toxin => toxin.id === id);
+
+/** Toxins named in one compuestosToxicos string; a single string may name several ("amatoxins and phallotoxins"). */
+export const matchToxins = (compound: string): Toxin[] => {
+    const normalized = normalize(compound);
+    return TOXINS.filter(toxin => MATCHERS.get(toxin.id)!.some(fragment => normalized.includes(fragment)));
+};
+
+export const entryHasToxin = (entry: HistoryEntry, toxinId: string): boolean =>
+    (entry.mushroomInfo?.toxicidad?.compuestosToxicos || []).some(compound => matchToxins(compound).some(toxin => toxin.id === toxinId));
@@ -6,10 +6,65 @@ export interface ToxicityInfo {
   primerosAuxilios: string;
 }
 
+// --- SAFETY RULES ---
+// Outcome of the bundled safety rules (services/safetyRules.ts), which override the model on deadly species.
+export interface SafetyMatch {
+  ruleId: string;
+  subject: 'species' | 'lookalike';
+  name: string; // scientific name that matched
+  level: ToxicityInfo['nivelToxicidad'];
+}
+
+export interface SafetyAssessment {
+  rulesVersion: string;
+  matches: SafetyMatch[];
+  escalatedFrom?: ToxicityInfo['nivelToxicidad']; // the model's level, when a rule raised it
+  hideRecipes: boolean;
+}
+
+// --- SECOND OPINION ---
+// Verdict of the verification pass on one toxic lookalike. "agree" means the photos rule the
+// lookalike out, confirming the identification; "disagree" means it cannot be ruled out.
+export interface LookalikeVerdict {
+  nombreComun: string;
+  nombreCientifico: string;
+  veredicto: 'agree' | 'disagree';
+  razon: string;
+}
+
+export interface VerificationResult {
+  verdicts: LookalikeVerdict[];
+  model: string | null; // null when the verification could not run
+  failed?: boolean;
+  downgradedFrom?: ToxicityInfo['nivelToxicidad']; // the level before a disagreement lowered it
+}
+
+// --- POISONING EMERGENCY ---
+// Times are local 'YYYY-MM-DDTHH:mm' strings, as edited in datetime-local inputs.
+export interface SymptomLogItem {
+  time: string;
+  description: string;
+}
+
+// What happened after someone ate a mushroom, kept until the incident is closed.
+export interface IngestionLog {
+  entryId: string | null; // history/collection entry that was eaten; null when unknown
+  ingestedAt: string;
+  amount: string;
+  whoAte: string;
+  symptoms: SymptomLogItem[];
+  region: string; // poison-control table region code
+  startedAt: number;
+}
+
 export interface Recipe {
   nombre: string;
   ingredientes: string[];
   instrucciones: string;
+  // How the dish treats the mushroom, checked against condicionesConsumo; unknown on older results
+  crudo?: boolean;
+  hervidoPrevio?: boolean;
+  alcohol?: boolean;
 }
 
 export interface SimilarMushroom {
@@ -19,6 +74,42 @@ export interface SimilarMushroom {
   esToxico: boolean;
 }
 
+// --- CONDITIONAL EDIBILITY ---
+// How a species may be eaten, which a single toxicity level cannot express:
+// "edible only well cooked", "parboil and discard the water", "never with alcohol"...
+export type PreparationStep = 'thoroughCooking' | 'parboil' | 'discardCookingWater' | 'youngSpecimensOnly' | 'removePart' | 'smallAmounts' | 'other';
+export type InteractionType = 'alcohol' | 'medication' | 'allergy' | 'other';
+
+export interface PreparationRequirement {
+  tipo: PreparationStep;
+  descripcion: string;
+}
+
+export interface InteractionWarning {
+  tipo: InteractionType;
+  descripcion: string;
+}
+
+export interface EdibilityConditions {
+  comestibleCrudo: boolean;
+  requisitos: PreparationRequirement[];
+  interacciones: InteractionWarning[];
+}
+
+// --- PERSONAL RISK ---
+// Reader circumstances that change how dangerous a species is. The profile is kept on the device only.
+export type RiskFactor = 'pregnancy' | 'liverDisease' | 'kidneyDisease' | 'maoInhibitors' | 'drinksAlcohol' | 'children' | 'pets';
+
+export interface RiskProfile {
+  factors: RiskFactor[];
+}
+
+// Species-specific caution for one group, written by the model for every group it applies to.
+export interface GroupRisk {
+  grupo: RiskFactor;
+  nota: string;
+}
+
 export interface MushroomInfo {
   nombreComun: string;
   nombreCientifico: string;
@@ -29,15 +120,80 @@ export interface MushroomInfo {
   distribucionGeografica: string;
   usosCulinarios: string[];
   toxicidad: ToxicityInfo;
+  condicionesConsumo?: EdibilityConditions; // absent on results saved before it was asked for
+  riesgosPersonales?: GroupRisk[]; // likewise
   recetas: Recipe[];
   hongosSimilares: SimilarMushroom[];
 }
 
+// Which part of the specimen a submitted photo shows.
+export type PhotoView = 'cap' | 'gills' | 'stemBase' | 'crossSection' | 'other';
+
+// A photo sent to the identification service (raw base64, no data URL prefix).
+export interface PhotoInput {
+  base64: string;
+  mimeType: string;
+  view: PhotoView;
+}
+
+// A photo kept on a history entry as the source of its identification.
+export interface SourcePhoto {
+  view: PhotoView;
+  src: string; // data URL
+}
+
+// One ranked guess from the photo, before the full profile is requested.
+export interface IdentificationCandidate {
+  nombreComun: string;
+  nombreCientifico: string;
+  confianza: number; // 0-1
+  caracteristicasAFavor: string[]; // visible features supporting this species
+  caracteristicasEnContra: string[]; // visible features arguing against it
+}
+
+// --- IDENTIFICATION KEY ---
+// Morphological features the guided key can ask about when the photos alone are ambiguous.
+export type KeyFeature = 'sporePrint' | 'gillAttachment' | 'ringOrVolva' | 'smell' | 'bruising' | 'other';
+
+export interface KeyQuestion {
+  caracteristica: KeyFeature;
+  pregunta: string;
+  opciones: string[]; // short, mutually exclusive answers
+}
+
+// A question of the key together with the user's answer, as kept in the trail.
+export interface KeyAnswer extends KeyQuestion {
+  respuesta: string;
+}
+
+// Candidates re-ranked with the answers so far, and the next question (null once the key is done).
+export interface KeyStep {
+  candidates: IdentificationCandidate[];
+  nextQuestion: KeyQuestion | null;
+}
+
 export interface GroundingSource {
   title: string;
   uri: string;
 }
 
+// A field the validation layer had to fill in ('missing') or convert ('coerced').
+// `field` is a path such as 'toxicidad.sintomas' or 'hongosSimilares[1].esToxico'.
+export interface ValidationIssue {
+  field: string;
+  kind: 'missing' | 'coerced';
+}
+
+// --- PRE-CONSUMPTION CHECKLIST ---
+// Checks the user must complete before the recipes of an entry unlock. Each is stored with the time it was ticked.
+export type SafetyCheckId = 'sporePrint' | 'stemBase' | 'expert';
+
+export interface SafetyChecklist {
+  completed: Partial<Record<SafetyCheckId, number>>;
+  lookalikesVerified: Record<string, number>; // by lookalike scientific name
+  expertName?: string;
+}
+
 export interface HistoryEntry {
   id: string;
   timestamp: number;
@@ -48,7 +204,21 @@ export interface HistoryEntry {
   mapaDistribucionSrc?: string;
   mainImageGenerationFailed?: boolean;
   mapGenerationFailed?: boolean;
-  difficulty?: 'Beginner' | 'Intermediate' | 'Expert';
+  difficulty?: DifficultyLevel;
+  validationIssues?: ValidationIssue[];
+  // Ranked photo candidates: the one the user picked and the rest, kept for later review.
+  chosenCandidate?: IdentificationCandidate;
+  alternativeCandidates?: IdentificationCandidate[];
+  sourcePhotos?: SourcePhoto[]; // tagged photos submitted for a photo identification
+  answeredBy?: AnsweringModels;
+  // Text lookups only: the query as typed (used to refresh it) and when it was cached, if served from cache.
+  textQuery?: string;
+  cachedAt?: number;
+  conversation?: ChatMessage[]; // follow-up questions asked about this result
+  identificationKey?: KeyAnswer[]; // questions answered to narrow down the candidates
+  safety?: SafetyAssessment;
+  verification?: VerificationResult;
+  safetyChecklist?: SafetyChecklist;
   // Field Diary properties
   personalNotes?: string;
   location?: { latitude: number; longitude: number };
@@ -71,6 +241,122 @@ export interface ComparisonInfo {
     habitat: string;
     apariencia: string;
   };
+  safety?: { mushroomA: SafetyAssessment; mushroomB: SafetyAssessment };
+}
+
+export type ImageQuality = 'Standard' | 'High';
+
+export type DifficultyLevel = 'Beginner' | 'Intermediate' | 'Expert';
+
+export type ProviderId = 'gemini' | 'mock';
+
+// Models that actually answered each part of a result, after any fallback.
+export interface AnsweringModels {
+  info: string;
+  image?: string | null;
+  map?: string | null;
+}
+
+export interface ImageIdentificationResult {
+  mushroomInfo: MushroomInfo;
+  sources: GroundingSource[];
+  validationIssues: ValidationIssue[];
+  mapaDistribucionSrc: string | null;
+  mapGenerationFailed: boolean;
+  answeredBy: AnsweringModels;
+  safety?: SafetyAssessment;
+  verification?: VerificationResult;
+}
+
+export interface TextIdentificationResult {
+  mushroomInfo: MushroomInfo;
+  sources: GroundingSource[];
+  validationIssues: ValidationIssue[];
+  imageSrc: string | null;
+  mapaDistribucionSrc: string | null;
+  mainImageGenerationFailed: boolean;
+  mapGenerationFailed: boolean;
+  answeredBy: AnsweringModels;
+  cachedAt?: number; // set when the result was served from the response cache
+  safety?: SafetyAssessment;
+}
+
+// One turn of the follow-up conversation about a result.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  model?: string; // model that wrote a 'model' turn
+}
+
+// What a follow-up answer is grounded in: the result itself and the photos it was identified from.
+export interface FollowUpContext {
+  mushroomInfo: MushroomInfo;
+  sources: GroundingSource[];
+  photos: PhotoInput[]; // empty for text lookups
+  difficulty: DifficultyLevel;
 }
 
-export type ImageQuality = 'Standard' | 'High';
\ No newline at end of file
+// Reported while an identification is in flight so the result can render as data arrives:
+// partial profiles first, then the complete profile, then each generated image.
+export type IdentificationProgress =
+  | { stage: 'partial'; mushroomInfo: MushroomInfo; receivedFields: string[]; safety?: SafetyAssessment }
+  | { stage: 'info'; mushroomInfo: MushroomInfo; sources: GroundingSource[]; validationIssues: ValidationIssue[]; safety?: SafetyAssessment }
+  | { stage: 'image'; imageSrc: string | null }
+  | { stage: 'map'; mapaDistribucionSrc: string | null }
+  | { stage: 'verifying' };
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: IdentificationProgress) => void;
+}
+
+// Contract implemented by every identification backend (Gemini, local fixtures...).
+export interface IdentificationProvider {
+  id: ProviderId;
+  getCandidatesFromImage(
+    photos: PhotoInput[],
+    location: { latitude: number; longitude: number } | null,
+    language: 'es' | 'en',
+    difficulty: DifficultyLevel,
+    options?: RequestOptions
+  ): Promise<IdentificationCandidate[]>;
+  identifyFromImage(
+    photos: PhotoInput[],
+    location: { latitude: number; longitude: number } | null,
+    language: 'es' | 'en',
+    difficulty: DifficultyLevel,
+    imageQuality: ImageQuality,
+    candidate?: IdentificationCandidate | null,
+    options?: RequestOptions
+  ): Promise<ImageIdentificationResult>;
+  identifyFromText(
+    mushroomName: string,
+    language: 'es' | 'en',
+    difficulty: DifficultyLevel,
+    imageQuality: ImageQuality,
+    options?: RequestOptions
+  ): Promise<TextIdentificationResult>;
+  // Re-ranks `candidates` (possibly empty) using the key answers and picks the next question.
+  refineWithKey(
+    photos: PhotoInput[],
+    location: { latitude: number; longitude: number } | null,
+    candidates: IdentificationCandidate[],
+    trail: KeyAnswer[],
+    language: 'es' | 'en',
+    difficulty: DifficultyLevel,
+    options?: RequestOptions
+  ): Promise<KeyStep>;
+  // Second opinion on a photo identification: one verdict per lookalike, from a different prompt and, if possible, model.
+  verifyLookalikes(
+    photos: PhotoInput[],
+    mushroomInfo: MushroomInfo,
+    lookalikes: SimilarMushroom[],
+    language: 'es' | 'en',
+    avoidModel: string | null,
+    options?: RequestOptions
+  ): Promise<{ verdicts: LookalikeVerdict[]; model: string }>;
+  compare(mushroomA: MushroomInfo, mushroomB: MushroomInfo, language: 'es' | 'en', options?: RequestOptions): Promise<ComparisonInfo>;
+  // Answers `question` given the earlier turns; resolves with the model's turn.
+  askFollowUp(context: FollowUpContext, conversation: ChatMessage[], question: string, language: 'es' | 'en', options?: RequestOptions): Promise<ChatMessage>;
+}
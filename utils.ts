@@ -93,4 +93,49 @@ export const imageToDataUrl = (src: string): Promise<string> => {
     // If it's a URL, this will trigger a network request.
     img.src = src;
   });
-};
\ No newline at end of file
+};
+
+// Creates a compressed thumbnail from a data URL to save storage space.
+export const createThumbnail = (dataUrl: string, maxSize = 400): Promise<string> => {
+    return new Promise((resolve) => {
+        if (!dataUrl || !dataUrl.startsWith('data:image')) {
+            resolve(dataUrl);
+            return;
+        }
+
+        // Fix: Skip SVG images as they don't need resizing and can cause canvas tainting or load errors
+        if (dataUrl.startsWith('data:image/svg+xml')) {
+            resolve(dataUrl);
+            return;
+        }
+
+        const img = new Image();
+        img.onload = () => {
+            const canvas = document.createElement('canvas');
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                console.error('Failed to get canvas context');
+                resolve(dataUrl);
+                return;
+            }
+
+            let { width, height } = img;
+            if (width > height) {
+                if (width > maxSize) { height *= maxSize / width; width = maxSize; }
+            } else {
+                if (height > maxSize) { width *= maxSize / height; height = maxSize; }
+            }
+
+            canvas.width = width;
+            canvas.height = height;
+            ctx.drawImage(img, 0, 0, width, height);
+            resolve(canvas.toDataURL('image/jpeg', 0.85));
+        };
+        img.onerror = () => {
+            console.error(`Failed to load image for thumbnail creation from source: ${dataUrl.substring(0, 100)}...`);
+            // Fallback to the mushroom icon if the original image fails to load.
+            resolve(getFallbackMushroomIcon());
+        };
+        img.src = dataUrl;
+    });
+};